@@ -0,0 +1,128 @@
+import { exec } from 'child_process';
+import { readdirSync, readFileSync, readSync } from 'fs';
+import { access, readdir, readFile } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+import type { VdfObject } from './types';
+import { parseVdf } from './vdf';
+
+/**
+ * Check whether a path exists without blocking the event loop
+ */
+export async function pathExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a text VDF file without blocking the event loop
+ * @returns Promise resolving to the document, undefined if it is missing or malformed
+ */
+export async function readVdfFile(path: string): Promise<VdfObject | undefined> {
+  try {
+    return parseVdf(await readFile(path, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse a text VDF file, undefined if it is missing or malformed
+ */
+export function readVdfFileSync(path: string): VdfObject | undefined {
+  try {
+    return parseVdf(readFileSync(path, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * List a folder without blocking the event loop
+ * @returns Promise resolving to the names in the folder, empty if it does not exist or cannot be
+ * read
+ */
+export async function listDirectory(dir: string): Promise<string[]> {
+  try {
+    return await readdir(dir);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List a folder, empty if it does not exist or cannot be read
+ */
+export function listDirectorySync(dir: string): string[] {
+  try {
+    return readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read a range of bytes from an open file without blocking the event loop
+ * @returns Promise resolving to the bytes read, fewer than asked for if the file is shorter
+ */
+export async function readBytes(
+  handle: FileHandle,
+  offset: number,
+  length: number
+): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, offset);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Read a range of bytes from an open file, fewer than asked for if the file is shorter
+ */
+export function readBytesSync(fd: number, offset: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const bytesRead = readSync(fd, buffer, 0, length, offset);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Run a shell command without blocking the event loop
+ * @returns Promise resolving to the command's standard output, rejecting if it fails
+ */
+export function execAsync(
+  command: string,
+  options: { timeout?: number; windowsHide?: boolean } = {}
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    exec(command, { encoding: 'utf8', ...options }, (error, stdout) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(String(stdout));
+      }
+    });
+  });
+}
+
+/**
+ * Map items through an async function with at most `limit` calls in flight
+ * @returns Promise resolving to the results in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index] as T);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,329 @@
+import { dirname } from 'path';
+import type { SteamApp } from './types';
+import { SteamAppNotFoundError, SteamNotFoundError } from './errors';
+import { findSteamApp, findSteamLocation, getInstalledSteamApps } from './steam-locate-api';
+import { findSteamPath } from './steam-path';
+import { getLibraryFolders, isSameLibraryPath } from './steam-libraries';
+import { isSteamRunning } from './steam-process';
+
+/**
+ * Exit codes returned by the command-line tool
+ */
+export const CLI_EXIT_CODES = {
+  success: 0,
+  /** Unexpected failure, or Steam is not running for the `running` command */
+  failure: 1,
+  usage: 2,
+  steamNotFound: 3,
+  appNotFound: 4,
+} as const;
+
+/**
+ * Output streams used by the command-line tool
+ */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+interface CliOptions {
+  json: boolean;
+  steamPath?: string | undefined;
+  name?: string | undefined;
+  library?: string | undefined;
+  sort: 'id' | 'name' | 'size';
+  help: boolean;
+}
+
+class CliUsageError extends Error {}
+
+const USAGE = `Usage: steam-locate <command> [options]
+
+Commands:
+  path                 Print the Steam installation path
+  info                 Print the Steam installation details
+  libraries            List the library folders
+  apps                 List installed apps
+  app <appId>          Print an installed app
+  running              Print whether Steam is running (exit code 1 if not)
+
+Options:
+  --json               Print JSON instead of a table
+  --steam-path <path>  Use this Steam installation instead of detecting it
+  --name <text>        apps: only apps whose name contains the text
+  --library <path>     apps: only apps installed in this library folder
+  --sort <key>         apps: sort by id, name or size (default: id)
+  -h, --help           Show this help
+
+Exit codes: 0 success, 1 failure, 2 invalid usage, 3 Steam not found, 4 app not found
+`;
+
+const defaultIO: CliIO = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+/**
+ * Run the steam-locate command-line tool
+ * @param args Command-line arguments, without the node and script paths
+ * @param io Output streams (defaults to the process streams)
+ * @returns Promise resolving to the process exit code
+ */
+export async function runCli(args: string[], io: CliIO = defaultIO): Promise<number> {
+  const options: CliOptions = { json: false, sort: 'id', help: false };
+  let command: string | undefined;
+  let operands: string[];
+  try {
+    [command, ...operands] = parseArgs(args, options);
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return CLI_EXIT_CODES.usage;
+  }
+  if (options.help || !command) {
+    (options.help ? io.stdout : io.stderr)(USAGE);
+    return options.help ? CLI_EXIT_CODES.success : CLI_EXIT_CODES.usage;
+  }
+
+  try {
+    switch (command) {
+      case 'path': {
+        const steamPath = await resolveSteamPath(options.steamPath);
+        io.stdout(options.json ? toJson(steamPath) : `${steamPath}\n`);
+        return CLI_EXIT_CODES.success;
+      }
+      case 'info': {
+        const location = await findSteamLocation({
+          steamPath: await resolveSteamPath(options.steamPath),
+        });
+        io.stdout(options.json ? toJson(location) : formatRecord({ ...location }));
+        return CLI_EXIT_CODES.success;
+      }
+      case 'libraries': {
+        const steamPath = await resolveSteamPath(options.steamPath);
+        const libraryFolders = await getLibraryFolders(steamPath);
+        io.stdout(options.json ? toJson(libraryFolders) : formatLines(libraryFolders));
+        return CLI_EXIT_CODES.success;
+      }
+      case 'apps': {
+        const steamPath = await resolveSteamPath(options.steamPath);
+        const apps = filterApps(await getInstalledSteamApps(steamPath), options);
+        io.stdout(options.json ? toJson(apps) : formatAppTable(apps));
+        return CLI_EXIT_CODES.success;
+      }
+      case 'app': {
+        const appId = operands[0];
+        if (!appId || !/^\d+$/.test(appId)) {
+          throw new CliUsageError('The app command needs a numeric app ID');
+        }
+        const app = await findSteamApp(appId, await resolveSteamPath(options.steamPath));
+        io.stdout(options.json ? toJson(app) : formatRecord({ ...app }));
+        return CLI_EXIT_CODES.success;
+      }
+      case 'running': {
+        const running = await isSteamRunning(options.steamPath);
+        io.stdout(options.json ? toJson(running) : `${running ? 'yes' : 'no'}\n`);
+        return running ? CLI_EXIT_CODES.success : CLI_EXIT_CODES.failure;
+      }
+      default:
+        throw new CliUsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n`);
+    if (error instanceof CliUsageError) {
+      io.stderr(`\n${USAGE}`);
+      return CLI_EXIT_CODES.usage;
+    }
+    if (error instanceof SteamAppNotFoundError) {
+      return CLI_EXIT_CODES.appNotFound;
+    }
+    if (error instanceof SteamNotFoundError) {
+      return CLI_EXIT_CODES.steamNotFound;
+    }
+    return CLI_EXIT_CODES.failure;
+  }
+}
+
+/**
+ * Split arguments into options and operands, filling in the options
+ * @returns The command followed by its operands
+ */
+function parseArgs(args: string[], options: CliOptions): string[] {
+  const operands: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] as string;
+    const [flag, inlineValue] = arg.startsWith('--') ? splitFlag(arg) : [arg, undefined];
+    const value = (): string => {
+      const next = inlineValue ?? args[++i];
+      if (next === undefined || next === '') {
+        throw new CliUsageError(`Option ${flag} needs a value`);
+      }
+      return next;
+    };
+    switch (flag) {
+      case '--json':
+        options.json = true;
+        break;
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      case '--steam-path':
+        options.steamPath = value();
+        break;
+      case '--name':
+        options.name = value();
+        break;
+      case '--library':
+        options.library = value();
+        break;
+      case '--sort': {
+        const sort = value();
+        if (sort !== 'id' && sort !== 'name' && sort !== 'size') {
+          throw new CliUsageError(`Unknown sort key: ${sort}`);
+        }
+        options.sort = sort;
+        break;
+      }
+      default:
+        if (arg.startsWith('-')) {
+          throw new CliUsageError(`Unknown option: ${arg}`);
+        }
+        operands.push(arg);
+    }
+  }
+  return operands;
+}
+
+/**
+ * Split --flag=value into its flag and value
+ */
+function splitFlag(arg: string): [string, string | undefined] {
+  const separator = arg.indexOf('=');
+  return separator === -1 ? [arg, undefined] : [arg.slice(0, separator), arg.slice(separator + 1)];
+}
+
+/**
+ * Check the given installation exists, or detect one when none is given
+ * @throws {SteamNotFoundError} When the given installation is missing or none can be found
+ */
+function resolveSteamPath(steamPath: string | undefined): Promise<string> {
+  return findSteamPath(steamPath ? { steamPath } : {});
+}
+
+/**
+ * Apply the apps command's filters and sort order
+ */
+function filterApps(apps: SteamApp[], options: CliOptions): SteamApp[] {
+  const name = options.name?.toLowerCase();
+  const { library } = options;
+  const filtered = apps.filter(
+    app =>
+      (!name || (app.name ?? '').toLowerCase().includes(name)) &&
+      (!library || isInLibrary(app, library))
+  );
+  return filtered.sort((a, b) => {
+    switch (options.sort) {
+      case 'name':
+        return (a.name ?? '').localeCompare(b.name ?? '');
+      case 'size':
+        return (b.sizeOnDisk ?? 0) - (a.sizeOnDisk ?? 0);
+      default:
+        return Number(a.appId) - Number(b.appId);
+    }
+  });
+}
+
+/**
+ * Whether an app is installed in a library, given as its root or its steamapps folder
+ */
+function isInLibrary(app: SteamApp, library: string): boolean {
+  if (!app.installDir) {
+    return false;
+  }
+  // Apps install to <library>/steamapps/common/<installdir>
+  const steamAppsPath = dirname(dirname(app.installDir));
+  return (
+    isSameLibraryPath(steamAppsPath, library) || isSameLibraryPath(dirname(steamAppsPath), library)
+  );
+}
+
+/**
+ * Format a value as indented JSON
+ */
+function toJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+/**
+ * Format one value per line
+ */
+function formatLines(lines: string[]): string {
+  return lines.map(line => `${line}\n`).join('');
+}
+
+/**
+ * Format an object as aligned key/value lines, skipping unset values
+ */
+function formatRecord(record: Record<string, unknown>): string {
+  const entries = Object.entries(record).filter(([, value]) => value !== undefined);
+  const width = Math.max(0, ...entries.map(([key]) => key.length));
+  return formatLines(entries.map(([key, value]) => `${key.padEnd(width)}  ${formatValue(value)}`));
+}
+
+/**
+ * Format a single value for table output
+ */
+function formatValue(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(', ');
+  }
+  if (value !== null && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Format apps as a table with aligned columns
+ */
+function formatAppTable(apps: SteamApp[]): string {
+  const header = ['APP ID', 'NAME', 'SIZE', 'INSTALL DIR'];
+  const rows = [
+    header,
+    ...apps.map(app => [
+      app.appId,
+      app.name ?? '',
+      app.sizeOnDisk !== undefined ? formatBytes(app.sizeOnDisk) : '',
+      app.installDir ?? '',
+    ]),
+  ];
+  const widths = header.map((_, column) =>
+    Math.max(...rows.map(row => (row[column] ?? '').length))
+  );
+  return formatLines(
+    rows.map(row =>
+      row
+        .map((cell, column) =>
+          column === row.length - 1 ? cell : cell.padEnd(widths[column] ?? 0)
+        )
+        .join('  ')
+    )
+  );
+}
+
+/**
+ * Format a byte count with a binary unit, such as 1.5 GB
+ */
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
@@ -20,3 +20,37 @@ export class SteamAppNotFoundError extends Error {
     this.name = 'SteamAppNotFoundError';
   }
 }
+
+/**
+ * Error thrown when a KeyValues (VDF) document cannot be parsed
+ */
+export class VdfParseError extends Error {
+  constructor(
+    message: string,
+    public line?: number,
+    public column?: number
+  ) {
+    super(line !== undefined ? `${message} (line ${line}, column ${column})` : message);
+    this.name = 'VdfParseError';
+  }
+}
+
+/**
+ * Error thrown when a Steam user account cannot be found
+ */
+export class SteamUserNotFoundError extends Error {
+  constructor(userId: string, message?: string) {
+    super(message || `Steam user ${userId} not found`);
+    this.name = 'SteamUserNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when a change to Steam's files is refused because the client is running
+ */
+export class SteamRunningError extends Error {
+  constructor(message: string = 'Steam must be closed before making this change') {
+    super(message);
+    this.name = 'SteamRunningError';
+  }
+}
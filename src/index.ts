@@ -6,3 +6,20 @@ export * from './steam-version';
 export * from './steam-libraries';
 export * from './steam-process';
 export * from './steam-apps';
+export * from './vdf';
+export * from './vdf-binary';
+export * from './steam-appinfo';
+export * from './steam-users';
+export * from './steam-usage';
+export * from './steam-shortcuts';
+export * from './steam-compat';
+export * from './steam-workshop';
+export * from './steam-watch';
+export * from './steam-locator';
+export * from './steam-running-apps';
+export * from './steam-protocol';
+export * from './steam-library-health';
+export * from './steam-app-move';
+export * from './steam-executables';
+export * from './steam-screenshots';
+export * from './steam-assets';
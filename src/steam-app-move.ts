@@ -0,0 +1,527 @@
+import { dirname, join, sep } from 'path';
+import {
+  closeSync,
+  copyFileSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readlinkSync,
+  readSync,
+  rmSync,
+  symlinkSync,
+} from 'fs';
+import { copyFile, lstat, mkdir, open, readdir, readlink, rm, symlink } from 'fs/promises';
+import { pathExists } from './async-utils';
+import { SteamRunningError } from './errors';
+import type {
+  SteamAppManifest,
+  SteamAppMoveOptions,
+  SteamAppMoveProgress,
+  SteamAppMoveResult,
+  VdfObject,
+} from './types';
+import { findSteamPath, findSteamPathSync } from './steam-path';
+import {
+  getLibraryFolders,
+  getLibraryFoldersSync,
+  isSameLibraryPath,
+  updateLibraryFolders,
+  updateLibraryFoldersSync,
+} from './steam-libraries';
+import { readSteamAppManifest, readSteamAppManifestSync } from './steam-apps';
+import { isSteamRunning, isSteamRunningSync } from './steam-process';
+import { getVdfObject, getVdfString } from './vdf';
+
+/** Bytes read from each file at a time when comparing a copy with its original */
+const COMPARE_CHUNK_SIZE = 1024 * 1024;
+
+/** A top-level file or folder the move copies, and where it goes */
+interface MovePath {
+  from: string;
+  to: string;
+}
+
+/** A file, folder or symlink to copy, in the order it is created */
+interface MoveEntry {
+  source: string;
+  target: string;
+  kind: 'directory' | 'file' | 'symlink';
+  size: number;
+}
+
+/** Everything a move copies, checked before any file is touched */
+interface MovePlan {
+  steamPath: string;
+  result: SteamAppMoveResult;
+  entries: MoveEntry[];
+  /** Size recorded for the app in libraryfolders.vdf */
+  sizeOnDisk: number;
+}
+
+/**
+ * Move an installed app to another library: its install folder, Workshop content and manifests
+ * are copied, each copied file is compared byte for byte with the original, libraryfolders.vdf
+ * is updated and only then is the source removed. If the copy, the comparison or the update of
+ * libraryfolders.vdf fails, whatever was copied is removed and the source is left as it was.
+ * Refuses to run while Steam is running, since the client keeps track of where apps are
+ * installed
+ * @param appId Steam App ID of the app to move
+ * @param targetLibrary Library steamapps folder, as returned by getLibraryFolders, or its parent
+ * @param options Steam path, dry-run and progress callback
+ * @returns Promise resolving to what was moved, or would be moved in a dry run
+ * @throws {SteamAppNotFoundError} When no library holds the app
+ * @throws {SteamRunningError} When Steam is running and this is not a dry run
+ * @throws {Error} When the target is not a library, already holds the app's files, the app is
+ * being updated or has no install folder, or libraryfolders.vdf cannot be updated
+ */
+export async function moveSteamApp(
+  appId: string,
+  targetLibrary: string,
+  options: SteamAppMoveOptions = {}
+): Promise<SteamAppMoveResult> {
+  const plan = await planMove(appId, targetLibrary, options);
+  if (plan.result.dryRun) {
+    return plan.result;
+  }
+  const report = createReporter(plan, options);
+  // First folder each mkdir created, so a rollback also removes the parents it had to add
+  const createdFolders: string[] = [];
+  try {
+    for (const entry of plan.entries) {
+      const folder = entry.kind === 'directory' ? entry.target : dirname(entry.target);
+      const created = await mkdir(folder, { recursive: true });
+      if (created) {
+        createdFolders.push(created);
+      }
+      if (entry.kind === 'directory') {
+        continue;
+      }
+      if (entry.kind === 'symlink') {
+        await symlink(await readlink(entry.source), entry.target);
+      } else {
+        await copyFile(entry.source, entry.target);
+      }
+      report('copy', entry.target, entry.size);
+    }
+    for (const entry of plan.entries) {
+      if (entry.kind === 'symlink') {
+        const [copied, original] = await Promise.all([
+          readlink(entry.target),
+          readlink(entry.source),
+        ]);
+        verifyEntry(entry, copied === original);
+      } else if (entry.kind === 'file') {
+        verifyEntry(
+          entry,
+          (await lstat(entry.target)).size === entry.size &&
+            (await filesMatch(entry.source, entry.target))
+        );
+      } else {
+        continue;
+      }
+      report('verify', entry.target, entry.size);
+    }
+    await updateLibraryApps(plan);
+  } catch (error) {
+    await removeCopies(plan, createdFolders);
+    throw error;
+  }
+  // Manifest first, so the source never lists an app whose files are half gone
+  for (const { from } of [...plan.result.paths].reverse()) {
+    await rm(from, { recursive: true, force: true });
+    report('remove', from, getEntriesSize(plan.entries, from));
+  }
+  return plan.result;
+}
+
+/**
+ * Synchronous version of moveSteamApp
+ * @param appId Steam App ID of the app to move
+ * @param targetLibrary Library steamapps folder, as returned by getLibraryFolders, or its parent
+ * @param options Steam path, dry-run and progress callback
+ * @returns What was moved, or would be moved in a dry run
+ * @throws {SteamAppNotFoundError} When no library holds the app
+ * @throws {SteamRunningError} When Steam is running and this is not a dry run
+ * @throws {Error} When the target is not a library, already holds the app's files, the app is
+ * being updated or has no install folder, or libraryfolders.vdf cannot be updated
+ */
+export function moveSteamAppSync(
+  appId: string,
+  targetLibrary: string,
+  options: SteamAppMoveOptions = {}
+): SteamAppMoveResult {
+  const plan = planMoveSync(appId, targetLibrary, options);
+  if (plan.result.dryRun) {
+    return plan.result;
+  }
+  const report = createReporter(plan, options);
+  const createdFolders: string[] = [];
+  try {
+    for (const entry of plan.entries) {
+      const folder = entry.kind === 'directory' ? entry.target : dirname(entry.target);
+      const created = mkdirSync(folder, { recursive: true });
+      if (created) {
+        createdFolders.push(created);
+      }
+      if (entry.kind === 'directory') {
+        continue;
+      }
+      if (entry.kind === 'symlink') {
+        symlinkSync(readlinkSync(entry.source), entry.target);
+      } else {
+        copyFileSync(entry.source, entry.target);
+      }
+      report('copy', entry.target, entry.size);
+    }
+    for (const entry of plan.entries) {
+      if (entry.kind === 'symlink') {
+        verifyEntry(entry, readlinkSync(entry.target) === readlinkSync(entry.source));
+      } else if (entry.kind === 'file') {
+        verifyEntry(
+          entry,
+          lstatSync(entry.target).size === entry.size && filesMatchSync(entry.source, entry.target)
+        );
+      } else {
+        continue;
+      }
+      report('verify', entry.target, entry.size);
+    }
+    updateLibraryAppsSync(plan);
+  } catch (error) {
+    removeCopiesSync(plan, createdFolders);
+    throw error;
+  }
+  // Manifest first, so the source never lists an app whose files are half gone
+  for (const { from } of [...plan.result.paths].reverse()) {
+    rmSync(from, { recursive: true, force: true });
+    report('remove', from, getEntriesSize(plan.entries, from));
+  }
+  return plan.result;
+}
+
+/**
+ * Check the move can be made and list everything it copies
+ */
+async function planMove(
+  appId: string,
+  targetLibrary: string,
+  options: SteamAppMoveOptions
+): Promise<MovePlan> {
+  const steamPath = options.steamPath || (await findSteamPath());
+  const libraryFolders = await getLibraryFolders(steamPath);
+  const target = resolveLibraryFolder(targetLibrary, libraryFolders);
+  const manifest = await readSteamAppManifest(appId, libraryFolders);
+  const candidates = getMovePaths(appId, manifest, target);
+  if (!(await pathExists(candidates[0]?.from ?? ''))) {
+    throw new Error(`Install folder of app ${appId} is missing`);
+  }
+  const dryRun = options.dryRun ?? false;
+  if (!dryRun && (await isSteamRunning())) {
+    throw new SteamRunningError('Steam must be closed before moving apps between libraries');
+  }
+  const paths: MovePath[] = [];
+  for (const path of candidates) {
+    if (await pathExists(path.from)) {
+      paths.push(path);
+    }
+  }
+  for (const { to } of paths) {
+    if (await pathExists(to)) {
+      throw new Error(`${to} already exists`);
+    }
+  }
+  const entries: MoveEntry[] = [];
+  for (const { from, to } of paths) {
+    entries.push(...(await listEntries(from, to)));
+  }
+  return toMovePlan(steamPath, manifest, target, paths, entries, dryRun);
+}
+
+/**
+ * Synchronous version of planMove
+ */
+function planMoveSync(
+  appId: string,
+  targetLibrary: string,
+  options: SteamAppMoveOptions
+): MovePlan {
+  const steamPath = options.steamPath || findSteamPathSync();
+  const libraryFolders = getLibraryFoldersSync(steamPath);
+  const target = resolveLibraryFolder(targetLibrary, libraryFolders);
+  const manifest = readSteamAppManifestSync(appId, libraryFolders);
+  const candidates = getMovePaths(appId, manifest, target);
+  if (!existsSync(candidates[0]?.from ?? '')) {
+    throw new Error(`Install folder of app ${appId} is missing`);
+  }
+  const dryRun = options.dryRun ?? false;
+  if (!dryRun && isSteamRunningSync()) {
+    throw new SteamRunningError('Steam must be closed before moving apps between libraries');
+  }
+  const paths = candidates.filter(({ from }) => existsSync(from));
+  const conflict = paths.find(({ to }) => existsSync(to));
+  if (conflict) {
+    throw new Error(`${conflict.to} already exists`);
+  }
+  const entries = paths.flatMap(({ from, to }) => listEntriesSync(from, to));
+  return toMovePlan(steamPath, manifest, target, paths, entries, dryRun);
+}
+
+/**
+ * Throw if the app's manifest rules out the move, and list the paths it may copy. The install
+ * folder comes first and the manifest last, so Steam never sees it before the files it describes
+ */
+function getMovePaths(appId: string, manifest: SteamAppManifest, target: string): MovePath[] {
+  const source = manifest.libraryFolder;
+  if (isSameLibraryPath(source, target)) {
+    throw new Error(`App ${appId} is already in ${target}`);
+  }
+  if (manifest.isUpdating) {
+    throw new Error(`App ${appId} is being updated and cannot be moved`);
+  }
+  if (!manifest.installDirName) {
+    throw new Error(`Install folder of app ${appId} is missing`);
+  }
+  return [
+    join('common', manifest.installDirName),
+    join('workshop', 'content', appId),
+    join('workshop', `appworkshop_${appId}.acf`),
+    `appmanifest_${appId}.acf`,
+  ].map(relativePath => ({ from: join(source, relativePath), to: join(target, relativePath) }));
+}
+
+/**
+ * Assemble the plan from the checked paths and the entries under them
+ */
+function toMovePlan(
+  steamPath: string,
+  manifest: SteamAppManifest,
+  target: string,
+  paths: MovePath[],
+  entries: MoveEntry[],
+  dryRun: boolean
+): MovePlan {
+  const totalBytes = entries.reduce((total, entry) => total + entry.size, 0);
+  return {
+    steamPath,
+    result: {
+      appId: manifest.appId,
+      sourceLibrary: manifest.libraryFolder,
+      targetLibrary: target,
+      paths,
+      totalBytes,
+      dryRun,
+    },
+    entries,
+    sizeOnDisk: manifest.sizeOnDisk ?? totalBytes,
+  };
+}
+
+/**
+ * Find the library steamapps folder a path names, accepting the library root as well
+ */
+function resolveLibraryFolder(libraryPath: string, libraryFolders: string[]): string {
+  const candidates = [libraryPath, join(libraryPath, 'steamapps')];
+  const match = libraryFolders.find(folder =>
+    candidates.some(candidate => isSameLibraryPath(folder, candidate))
+  );
+  if (!match) {
+    throw new Error(`Not a Steam library folder: ${libraryPath}`);
+  }
+  return match;
+}
+
+/**
+ * List a file or folder and everything under it, parents before their contents. Symlinks are
+ * copied as links rather than followed
+ * @returns Promise resolving to the entries to copy
+ */
+async function listEntries(source: string, target: string): Promise<MoveEntry[]> {
+  const stats = await lstat(source);
+  if (stats.isSymbolicLink()) {
+    return [{ source, target, kind: 'symlink', size: 0 }];
+  }
+  if (!stats.isDirectory()) {
+    return [{ source, target, kind: 'file', size: stats.size }];
+  }
+  const entries: MoveEntry[] = [{ source, target, kind: 'directory', size: 0 }];
+  for (const name of await readdir(source)) {
+    entries.push(...(await listEntries(join(source, name), join(target, name))));
+  }
+  return entries;
+}
+
+/**
+ * Synchronous version of listEntries
+ */
+function listEntriesSync(source: string, target: string): MoveEntry[] {
+  const stats = lstatSync(source);
+  if (stats.isSymbolicLink()) {
+    return [{ source, target, kind: 'symlink', size: 0 }];
+  }
+  if (!stats.isDirectory()) {
+    return [{ source, target, kind: 'file', size: stats.size }];
+  }
+  return [
+    { source, target, kind: 'directory', size: 0 },
+    ...readdirSync(source).flatMap(name => listEntriesSync(join(source, name), join(target, name))),
+  ];
+}
+
+/**
+ * Remove whatever a failed move copied, and the folders it created to hold the copies
+ */
+async function removeCopies(plan: MovePlan, createdFolders: string[]): Promise<void> {
+  await Promise.all(plan.result.paths.map(({ to }) => rm(to, { recursive: true, force: true })));
+  for (const folder of createdFolders) {
+    await rm(folder, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Synchronous version of removeCopies
+ */
+function removeCopiesSync(plan: MovePlan, createdFolders: string[]): void {
+  for (const path of [...plan.result.paths.map(({ to }) => to), ...createdFolders]) {
+    rmSync(path, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Throw if a copied file or link differs from the original
+ */
+function verifyEntry(entry: MoveEntry, matches: boolean): void {
+  if (!matches) {
+    throw new Error(`Copy of ${entry.source} does not match the original`);
+  }
+}
+
+/**
+ * Compare the contents of two files chunk by chunk
+ * @returns Promise resolving to true if the files hold the same bytes
+ */
+async function filesMatch(a: string, b: string): Promise<boolean> {
+  const [fileA, fileB] = await Promise.all([open(a, 'r'), open(b, 'r')]);
+  try {
+    const bufferA = Buffer.alloc(COMPARE_CHUNK_SIZE);
+    const bufferB = Buffer.alloc(COMPARE_CHUNK_SIZE);
+    for (;;) {
+      const [{ bytesRead: readA }, { bytesRead: readB }] = await Promise.all([
+        fileA.read(bufferA, 0, COMPARE_CHUNK_SIZE, null),
+        fileB.read(bufferB, 0, COMPARE_CHUNK_SIZE, null),
+      ]);
+      if (readA !== readB || !bufferA.subarray(0, readA).equals(bufferB.subarray(0, readB))) {
+        return false;
+      }
+      if (readA === 0) {
+        return true;
+      }
+    }
+  } finally {
+    await Promise.all([fileA.close(), fileB.close()]);
+  }
+}
+
+/**
+ * Synchronous version of filesMatch
+ */
+function filesMatchSync(a: string, b: string): boolean {
+  const fdA = openSync(a, 'r');
+  try {
+    const fdB = openSync(b, 'r');
+    try {
+      const bufferA = Buffer.alloc(COMPARE_CHUNK_SIZE);
+      const bufferB = Buffer.alloc(COMPARE_CHUNK_SIZE);
+      for (;;) {
+        const readA = readSync(fdA, bufferA, 0, COMPARE_CHUNK_SIZE, null);
+        const readB = readSync(fdB, bufferB, 0, COMPARE_CHUNK_SIZE, null);
+        if (readA !== readB || !bufferA.subarray(0, readA).equals(bufferB.subarray(0, readB))) {
+          return false;
+        }
+        if (readA === 0) {
+          return true;
+        }
+      }
+    } finally {
+      closeSync(fdB);
+    }
+  } finally {
+    closeSync(fdA);
+  }
+}
+
+/**
+ * Total size of the entries under a moved path
+ */
+function getEntriesSize(entries: MoveEntry[], from: string): number {
+  return entries
+    .filter(entry => entry.source === from || entry.source.startsWith(from + sep))
+    .reduce((total, entry) => total + entry.size, 0);
+}
+
+/**
+ * Create a progress reporter keeping a running byte count per stage
+ */
+function createReporter(
+  plan: MovePlan,
+  options: SteamAppMoveOptions
+): (phase: SteamAppMoveProgress['phase'], path: string, bytes: number) => void {
+  const processed = { copy: 0, verify: 0, remove: 0 };
+  return (phase, path, bytes) => {
+    processed[phase] += bytes;
+    options.onProgress?.({
+      phase,
+      path,
+      processedBytes: processed[phase],
+      totalBytes: plan.result.totalBytes,
+    });
+  };
+}
+
+/**
+ * Move the app's entry in the `apps` sections of libraryfolders.vdf to the target library
+ * @throws {Error} When libraryfolders.vdf is missing, so Steam would not find the moved app
+ */
+async function updateLibraryApps(plan: MovePlan): Promise<void> {
+  if (!(await updateLibraryFolders(plan.steamPath, folders => moveLibraryApp(plan, folders)))) {
+    throw new Error(`libraryfolders.vdf not found in ${join(plan.steamPath, 'steamapps')}`);
+  }
+}
+
+/**
+ * Synchronous version of updateLibraryApps
+ */
+function updateLibraryAppsSync(plan: MovePlan): void {
+  if (!updateLibraryFoldersSync(plan.steamPath, folders => moveLibraryApp(plan, folders))) {
+    throw new Error(`libraryfolders.vdf not found in ${join(plan.steamPath, 'steamapps')}`);
+  }
+}
+
+/**
+ * Move the app's entry from the source library's `apps` section to the target library's
+ */
+function moveLibraryApp(plan: MovePlan, folders: VdfObject): void {
+  const { appId, sourceLibrary, targetLibrary } = plan.result;
+  let size = String(plan.sizeOnDisk);
+  let targetApps: VdfObject | undefined;
+  for (const key of Object.keys(folders)) {
+    const entry = getVdfObject(folders, key);
+    const folderPath = getVdfString(entry, 'path');
+    if (!/^\d+$/.test(key) || !entry || !folderPath) {
+      continue;
+    }
+    const steamAppsPath = join(folderPath, 'steamapps');
+    const apps = getVdfObject(entry, 'apps');
+    if (isSameLibraryPath(steamAppsPath, sourceLibrary) && apps) {
+      size = getVdfString(apps, appId) ?? size;
+      delete apps[appId];
+    } else if (isSameLibraryPath(steamAppsPath, targetLibrary)) {
+      targetApps = apps ?? {};
+      entry['apps'] = targetApps;
+    }
+  }
+  if (targetApps) {
+    targetApps[appId] = size;
+  }
+}
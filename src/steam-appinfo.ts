@@ -0,0 +1,301 @@
+import { join } from 'path';
+import { closeSync, existsSync, fstatSync, openSync } from 'fs';
+import { open } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+import { SteamAppNotFoundError, VdfParseError } from './errors';
+import type { SteamAppInfo, SteamAppOS, SteamAppType, SteamLaunchConfig, VdfObject } from './types';
+import { findSteamPath, findSteamPathSync } from './steam-path';
+import { binaryVdfToObject, parseBinaryVdf } from './vdf-binary';
+import { getVdfObject, getVdfString } from './vdf';
+import { pathExists, readBytes, readBytesSync } from './async-utils';
+
+const APPINFO_MAGIC_V27 = 0x07564427;
+const APPINFO_MAGIC_V28 = 0x07564428;
+const APPINFO_MAGIC_V29 = 0x07564429;
+
+const READ_WINDOW_SIZE = 1024 * 1024;
+
+const KNOWN_APP_TYPES: SteamAppType[] = [
+  'game',
+  'application',
+  'tool',
+  'dlc',
+  'demo',
+  'music',
+  'video',
+  'config',
+  'beta',
+];
+
+interface AppInfoEntry {
+  /** Offset of the entry data, just after the app ID and size fields */
+  offset: number;
+  size: number;
+}
+
+interface AppInfoIndex {
+  magic: number;
+  mtimeMs: number;
+  fileSize: number;
+  entries: Map<string, AppInfoEntry>;
+  stringTable?: string[];
+}
+
+/** A read the index scan needs, performed by its caller */
+interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+const appInfoIndexCache = new Map<string, AppInfoIndex>();
+
+/**
+ * Get metadata for a Steam app from the client's appinfo.vdf cache
+ * @param appId Steam App ID to look up
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to the app's metadata
+ * @throws {SteamAppNotFoundError} When the app is not in the appinfo cache
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getSteamAppInfo(appId: string, steamPath?: string): Promise<SteamAppInfo> {
+  const actualSteamPath = steamPath || (await findSteamPath());
+  const appInfoPath = join(actualSteamPath, 'appcache', 'appinfo.vdf');
+  if (!(await pathExists(appInfoPath))) {
+    throw new SteamAppNotFoundError(appId, `No appinfo.vdf found in ${actualSteamPath}`);
+  }
+  const handle = await open(appInfoPath, 'r');
+  try {
+    const index = await getAppInfoIndex(appInfoPath, handle);
+    const entry = getIndexEntry(index, appId);
+    return decodeAppInfoEntry(appId, await readBytes(handle, entry.offset, entry.size), index);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Synchronous version of getSteamAppInfo
+ * @param appId Steam App ID to look up
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns The app's metadata
+ * @throws {SteamAppNotFoundError} When the app is not in the appinfo cache
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getSteamAppInfoSync(appId: string, steamPath?: string): SteamAppInfo {
+  const actualSteamPath = steamPath || findSteamPathSync();
+  const appInfoPath = join(actualSteamPath, 'appcache', 'appinfo.vdf');
+  if (!existsSync(appInfoPath)) {
+    throw new SteamAppNotFoundError(appId, `No appinfo.vdf found in ${actualSteamPath}`);
+  }
+  const fd = openSync(appInfoPath, 'r');
+  try {
+    const index = getAppInfoIndexSync(appInfoPath, fd);
+    const entry = getIndexEntry(index, appId);
+    return decodeAppInfoEntry(appId, readBytesSync(fd, entry.offset, entry.size), index);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Read the entry offsets of an appinfo.vdf file, reusing the cached index while the file
+ * is unchanged. Only entry headers are read, so no app data is decoded
+ */
+async function getAppInfoIndex(appInfoPath: string, handle: FileHandle): Promise<AppInfoIndex> {
+  const stats = await handle.stat();
+  const cached = appInfoIndexCache.get(appInfoPath);
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.fileSize === stats.size) {
+    return cached;
+  }
+  const scan = scanAppInfoIndex(stats.size);
+  let step = scan.next();
+  while (!step.done) {
+    step = scan.next(await readBytes(handle, step.value.offset, step.value.length));
+  }
+  const index: AppInfoIndex = { ...step.value, mtimeMs: stats.mtimeMs, fileSize: stats.size };
+  appInfoIndexCache.set(appInfoPath, index);
+  return index;
+}
+
+/**
+ * Synchronous version of getAppInfoIndex
+ */
+function getAppInfoIndexSync(appInfoPath: string, fd: number): AppInfoIndex {
+  const stats = fstatSync(fd);
+  const cached = appInfoIndexCache.get(appInfoPath);
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.fileSize === stats.size) {
+    return cached;
+  }
+  const scan = scanAppInfoIndex(stats.size);
+  let step = scan.next();
+  while (!step.done) {
+    step = scan.next(readBytesSync(fd, step.value.offset, step.value.length));
+  }
+  const index: AppInfoIndex = { ...step.value, mtimeMs: stats.mtimeMs, fileSize: stats.size };
+  appInfoIndexCache.set(appInfoPath, index);
+  return index;
+}
+
+/**
+ * Walk the entry headers of an appinfo.vdf file. The caller performs each yielded read and
+ * passes the bytes back, so one scan serves both the async and sync readers
+ */
+function* scanAppInfoIndex(
+  fileSize: number
+): Generator<ByteRange, Omit<AppInfoIndex, 'mtimeMs' | 'fileSize'>, Buffer> {
+  let window: Buffer = Buffer.alloc(0);
+  let windowStart = 0;
+  function* readAt(offset: number, length: number): Generator<ByteRange, Buffer, Buffer> {
+    if (offset < windowStart || offset + length > windowStart + window.length) {
+      window = yield { offset, length: Math.max(length, READ_WINDOW_SIZE) };
+      windowStart = offset;
+    }
+    if (offset + length > windowStart + window.length) {
+      throw new VdfParseError(`Unexpected end of appinfo.vdf at offset ${offset}`);
+    }
+    return window.subarray(offset - windowStart, offset - windowStart + length);
+  }
+
+  const magic = (yield* readAt(0, 4)).readUInt32LE(0);
+  if (magic !== APPINFO_MAGIC_V27 && magic !== APPINFO_MAGIC_V28 && magic !== APPINFO_MAGIC_V29) {
+    throw new VdfParseError(`Unsupported appinfo.vdf version 0x${magic.toString(16)}`);
+  }
+
+  const index: Omit<AppInfoIndex, 'mtimeMs' | 'fileSize'> = { magic, entries: new Map() };
+  let offset = 8;
+  if (magic === APPINFO_MAGIC_V29) {
+    const stringTableOffset = Number((yield* readAt(8, 8)).readBigInt64LE(0));
+    index.stringTable = readStringTable(
+      yield { offset: stringTableOffset, length: fileSize - stringTableOffset }
+    );
+    offset = 16;
+  }
+
+  while (offset + 4 <= fileSize) {
+    const appId = (yield* readAt(offset, 4)).readUInt32LE(0);
+    if (appId === 0) {
+      break;
+    }
+    const size = (yield* readAt(offset + 4, 4)).readUInt32LE(0);
+    index.entries.set(String(appId), { offset: offset + 8, size });
+    offset += 8 + size;
+  }
+  return index;
+}
+
+/**
+ * @throws {SteamAppNotFoundError} When the app has no entry
+ */
+function getIndexEntry(index: AppInfoIndex, appId: string): AppInfoEntry {
+  const entry = index.entries.get(appId);
+  if (!entry) {
+    throw new SteamAppNotFoundError(appId);
+  }
+  return entry;
+}
+
+/**
+ * Read the key name table stored at the end of v29 appinfo.vdf files
+ */
+function readStringTable(buffer: Buffer): string[] {
+  const count = buffer.readUInt32LE(0);
+  const strings: string[] = [];
+  let offset = 4;
+  for (let i = 0; i < count; i++) {
+    const end = buffer.indexOf(0, offset);
+    if (end === -1) {
+      throw new VdfParseError('Unterminated string in appinfo.vdf string table');
+    }
+    strings.push(buffer.toString('utf8', offset, end));
+    offset = end + 1;
+  }
+  return strings;
+}
+
+/**
+ * Decode a single appinfo.vdf entry into app metadata
+ */
+function decodeAppInfoEntry(appId: string, data: Buffer, index: AppInfoIndex): SteamAppInfo {
+  // infoState, lastUpdated, picsToken, text SHA-1, changeNumber and, since v28, binary SHA-1
+  const headerSize = index.magic === APPINFO_MAGIC_V27 ? 40 : 60;
+  const lastUpdated = data.readUInt32LE(4);
+  const changeNumber = data.readUInt32LE(36);
+  const root = binaryVdfToObject(
+    parseBinaryVdf(
+      data.subarray(headerSize),
+      index.stringTable ? { stringTable: index.stringTable } : {}
+    )
+  );
+  const appInfo = getVdfObject(root, 'appinfo') ?? root;
+  const common = getVdfObject(appInfo, 'common');
+  const type = getVdfString(common, 'type')?.toLowerCase();
+
+  return {
+    appId,
+    name: getVdfString(common, 'name'),
+    type: type ? (KNOWN_APP_TYPES.find(t => t === type) ?? 'other') : undefined,
+    developer: getAssociations(appInfo, 'developer'),
+    publisher: getAssociations(appInfo, 'publisher'),
+    supportedOS: parseOSList(getVdfString(common, 'oslist')),
+    launchConfigs: getLaunchConfigs(getVdfObject(appInfo, 'config', 'launch')),
+    parentAppId: getVdfString(common, 'parent'),
+    installDir: getVdfString(appInfo, 'config', 'installdir'),
+    changeNumber,
+    lastUpdated: new Date(lastUpdated * 1000),
+    data: appInfo,
+  };
+}
+
+/**
+ * Collect developer or publisher names from common.associations, falling back to the
+ * older extended section
+ */
+function getAssociations(appInfo: VdfObject, type: 'developer' | 'publisher'): string | undefined {
+  const associations = getVdfObject(appInfo, 'common', 'associations');
+  const names: string[] = [];
+  for (const association of Object.values(associations ?? {})) {
+    if (typeof association === 'object' && getVdfString(association, 'type') === type) {
+      const name = getVdfString(association, 'name');
+      if (name) {
+        names.push(name);
+      }
+    }
+  }
+  return names.length > 0 ? names.join(', ') : getVdfString(appInfo, 'extended', type);
+}
+
+/**
+ * Parse launch options from an app's config.launch section
+ */
+function getLaunchConfigs(launch: VdfObject | undefined): SteamLaunchConfig[] {
+  const configs: SteamLaunchConfig[] = [];
+  for (const id of Object.keys(launch ?? {})) {
+    const entry = getVdfObject(launch, id);
+    if (!entry) {
+      continue;
+    }
+    configs.push({
+      id,
+      executable: getVdfString(entry, 'executable'),
+      arguments: getVdfString(entry, 'arguments'),
+      workingDir: getVdfString(entry, 'workingdir'),
+      description: getVdfString(entry, 'description'),
+      type: getVdfString(entry, 'type'),
+      os: parseOSList(getVdfString(entry, 'config', 'oslist')),
+      arch: getVdfString(entry, 'config', 'osarch'),
+      betaKey: getVdfString(entry, 'config', 'betakey'),
+    });
+  }
+  return configs;
+}
+
+/**
+ * Parse a comma separated oslist value
+ */
+function parseOSList(osList: string | undefined): SteamAppOS[] {
+  const known: SteamAppOS[] = ['windows', 'macos', 'linux'];
+  return (osList ?? '')
+    .split(',')
+    .map(os => os.trim().toLowerCase())
+    .filter((os): os is SteamAppOS => known.includes(os as SteamAppOS));
+}
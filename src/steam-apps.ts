@@ -1,53 +1,226 @@
 import { join, normalize } from 'path';
-import { existsSync, readFileSync, readdirSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
+import { readFile } from 'fs/promises';
 import { platform } from 'os';
 import { SteamAppNotFoundError } from './errors';
-import type { SteamApp } from './types';
+import type {
+  SteamApp,
+  SteamAppDepot,
+  SteamAppManifest,
+  SteamAppStateFlag,
+  VdfObject,
+} from './types';
+import { getLibraryAppIndex, getLibraryAppIndexSync } from './steam-libraries';
+import { listDirectory, listDirectorySync, mapWithConcurrency, pathExists } from './async-utils';
+import { getVdfNumber, getVdfObject, getVdfString, parseVdf } from './vdf';
+
+/** Maximum number of manifests read at once by the async functions */
+const MANIFEST_READ_CONCURRENCY = 16;
+
+/** StateFlags bits, from the client's EAppState */
+const APP_STATE_FLAGS: [number, SteamAppStateFlag][] = [
+  [0x1, 'uninstalled'],
+  [0x2, 'updateRequired'],
+  [0x4, 'fullyInstalled'],
+  [0x8, 'encrypted'],
+  [0x10, 'locked'],
+  [0x20, 'filesMissing'],
+  [0x40, 'appRunning'],
+  [0x80, 'filesCorrupt'],
+  [0x100, 'updateRunning'],
+  [0x200, 'updatePaused'],
+  [0x400, 'updateStarted'],
+  [0x800, 'uninstalling'],
+  [0x1000, 'backupRunning'],
+  [0x10000, 'reconfiguring'],
+  [0x20000, 'validating'],
+  [0x40000, 'addingFiles'],
+  [0x80000, 'preallocating'],
+  [0x100000, 'downloading'],
+  [0x200000, 'staging'],
+  [0x400000, 'committing'],
+  [0x800000, 'updateStopping'],
+];
+
+const UPDATE_STATE_FLAGS: SteamAppStateFlag[] = [
+  'updateRequired',
+  'updateRunning',
+  'updatePaused',
+  'updateStarted',
+  'downloading',
+  'staging',
+  'committing',
+];
 
 /**
  * Find Steam app in library folders
+ * @param appIndex Library of each app from libraryfolders.vdf, read from steamPath if not given
  */
-export function findSteamAppInLibraries(
+export async function findSteamAppInLibraries(
   appId: string,
   libraryFolders: string[],
-  steamPath: string
-): SteamApp {
-  return findSteamAppInLibrariesSync(appId, libraryFolders, steamPath);
+  steamPath: string,
+  appIndex?: Map<string, string>
+): Promise<SteamApp> {
+  // Go straight to the library libraryfolders.vdf lists the app in, probing the rest on a miss
+  const index = appIndex ?? (steamPath ? await getLibraryAppIndex(steamPath) : undefined);
+  const indexed = index?.get(appId);
+  if (indexed && libraryFolders.includes(indexed)) {
+    const app = await readSteamAppAsync(appId, indexed);
+    if (app) {
+      return app;
+    }
+  }
+  for (const libraryFolder of libraryFolders) {
+    const app =
+      libraryFolder !== indexed ? await readSteamAppAsync(appId, libraryFolder) : undefined;
+    if (app) {
+      return app;
+    }
+  }
+  throw new SteamAppNotFoundError(appId);
 }
 
 /**
  * Synchronous version of findSteamAppInLibraries
+ * @param appIndex Library of each app from libraryfolders.vdf, read from steamPath if not given
  */
 export function findSteamAppInLibrariesSync(
   appId: string,
   libraryFolders: string[],
-  _steamPath: string
+  steamPath: string,
+  appIndex?: Map<string, string>
 ): SteamApp {
+  // Go straight to the library libraryfolders.vdf lists the app in, probing the rest on a miss
+  const index = appIndex ?? (steamPath ? getLibraryAppIndexSync(steamPath) : undefined);
+  const indexed = index?.get(appId);
+  if (indexed && libraryFolders.includes(indexed)) {
+    const app = readSteamApp(appId, indexed);
+    if (app) {
+      return app;
+    }
+  }
   for (const libraryFolder of libraryFolders) {
-    try {
-      const appManifestPath = join(libraryFolder, `appmanifest_${appId}.acf`);
-      if (existsSync(appManifestPath)) {
-        const manifestContent = readFileSync(appManifestPath, 'utf8');
-        // Parse ACF format
-        const nameMatch = manifestContent.match(/"name"\s*"([^"]+)"/);
-        const installDirMatch = manifestContent.match(/"installdir"\s*"([^"]+)"/);
-        const sizeMatch = manifestContent.match(/"SizeOnDisk"\s*"([^"]+)"/);
-        const lastUpdatedMatch = manifestContent.match(/"LastUpdated"\s*"([^"]+)"/);
-        const installDir = installDirMatch?.[1]
-          ? join(libraryFolder, 'common', installDirMatch[1])
-          : undefined;
-        const isInstalled = installDir ? existsSync(installDir) : false;
-        return {
-          appId,
-          name: nameMatch?.[1] || undefined,
-          installDir: isInstalled ? installDir : undefined,
-          sizeOnDisk: sizeMatch?.[1] ? parseInt(sizeMatch[1], 10) : undefined,
-          isInstalled,
-          lastUpdated: lastUpdatedMatch?.[1]
-            ? new Date(parseInt(lastUpdatedMatch[1], 10) * 1000)
-            : undefined,
-        };
+    const app = libraryFolder !== indexed ? readSteamApp(appId, libraryFolder) : undefined;
+    if (app) {
+      return app;
+    }
+  }
+  throw new SteamAppNotFoundError(appId);
+}
+
+/**
+ * Find several Steam apps in library folders in one pass, reading manifests concurrently
+ * @param appIndex Library of each app from libraryfolders.vdf, read from steamPath if not given
+ * @returns Promise resolving to the apps that were found, by app ID
+ */
+export async function findSteamAppsInLibraries(
+  appIds: string[],
+  libraryFolders: string[],
+  steamPath: string,
+  appIndex?: Map<string, string>
+): Promise<Map<string, SteamApp>> {
+  const apps = new Map<string, SteamApp>();
+  const index =
+    appIndex ?? (steamPath ? await getLibraryAppIndex(steamPath) : new Map<string, string>());
+  const uniqueIds = [...new Set(appIds)];
+  const indexed = await mapWithConcurrency(uniqueIds, MANIFEST_READ_CONCURRENCY, appId => {
+    const libraryFolder = index.get(appId);
+    return libraryFolder && libraryFolders.includes(libraryFolder)
+      ? readSteamAppAsync(appId, libraryFolder)
+      : Promise.resolve(undefined);
+  });
+  const misses: string[] = [];
+  uniqueIds.forEach((appId, i) => {
+    const app = indexed[i];
+    if (app) {
+      apps.set(appId, app);
+    } else {
+      misses.push(appId);
+    }
+  });
+  if (misses.length === 0) {
+    return apps;
+  }
+  // List each library once rather than probing it for every app the index missed
+  const listings = (await Promise.all(libraryFolders.map(listDirectory))).map(
+    files => new Set(files)
+  );
+  const candidates: [string, string][] = [];
+  for (const appId of misses) {
+    const i = listings.findIndex(files => files.has(`appmanifest_${appId}.acf`));
+    if (i !== -1) {
+      candidates.push([appId, libraryFolders[i] as string]);
+    }
+  }
+  const found = await mapWithConcurrency(candidates, MANIFEST_READ_CONCURRENCY, ([appId, folder]) =>
+    readSteamAppAsync(appId, folder)
+  );
+  found.forEach(app => {
+    if (app) {
+      apps.set(app.appId, app);
+    }
+  });
+  return apps;
+}
+
+/**
+ * Synchronous version of findSteamAppsInLibraries
+ * @param appIndex Library of each app from libraryfolders.vdf, read from steamPath if not given
+ * @returns The apps that were found, by app ID
+ */
+export function findSteamAppsInLibrariesSync(
+  appIds: string[],
+  libraryFolders: string[],
+  steamPath: string,
+  appIndex?: Map<string, string>
+): Map<string, SteamApp> {
+  const apps = new Map<string, SteamApp>();
+  const index =
+    appIndex ?? (steamPath ? getLibraryAppIndexSync(steamPath) : new Map<string, string>());
+  const misses: string[] = [];
+  for (const appId of new Set(appIds)) {
+    const indexed = index.get(appId);
+    const app =
+      indexed && libraryFolders.includes(indexed) ? readSteamApp(appId, indexed) : undefined;
+    if (app) {
+      apps.set(appId, app);
+    } else {
+      misses.push(appId);
+    }
+  }
+  if (misses.length === 0) {
+    return apps;
+  }
+  // List each library once rather than probing it for every app the index missed
+  for (const libraryFolder of libraryFolders) {
+    const files = new Set(listDirectorySync(libraryFolder));
+    for (const appId of misses) {
+      if (!apps.has(appId) && files.has(`appmanifest_${appId}.acf`)) {
+        const app = readSteamApp(appId, libraryFolder);
+        if (app) {
+          apps.set(appId, app);
+        }
       }
+    }
+  }
+  return apps;
+}
+
+/**
+ * Read the full manifest of an app from the first library folder holding it, without blocking
+ * @returns Promise resolving to the app's manifest
+ * @throws {SteamAppNotFoundError} When no library holds a readable manifest for the app
+ */
+export async function readSteamAppManifest(
+  appId: string,
+  libraryFolders: string[]
+): Promise<SteamAppManifest> {
+  for (const libraryFolder of libraryFolders) {
+    const manifestPath = join(libraryFolder, `appmanifest_${appId}.acf`);
+    try {
+      const content = await readFile(manifestPath, 'utf8');
+      return parseAppManifest(appId, libraryFolder, manifestPath, content);
     } catch {
       // Continue to next library folder
     }
@@ -56,54 +229,260 @@ export function findSteamAppInLibrariesSync(
 }
 
 /**
- * Get installed apps from library folders
+ * Synchronous version of readSteamAppManifest
+ * @throws {SteamAppNotFoundError} When no library holds a readable manifest for the app
  */
-export async function getInstalledSteamAppsFromLibraries(
+export function readSteamAppManifestSync(
+  appId: string,
   libraryFolders: string[]
-): Promise<SteamApp[]> {
-  return new Promise(resolve => {
+): SteamAppManifest {
+  for (const libraryFolder of libraryFolders) {
+    const manifestPath = join(libraryFolder, `appmanifest_${appId}.acf`);
+    if (!existsSync(manifestPath)) {
+      continue;
+    }
     try {
-      const apps = getInstalledSteamAppsFromLibrariesSync(libraryFolders);
-      resolve(apps);
+      const content = readFileSync(manifestPath, 'utf8');
+      return parseAppManifest(appId, libraryFolder, manifestPath, content);
     } catch {
-      resolve([]);
+      // Continue to next library folder
     }
-  });
+  }
+  throw new SteamAppNotFoundError(appId);
+}
+
+/**
+ * Decode an app manifest's StateFlags bitmask
+ */
+export function decodeAppStateFlags(stateFlags: number): SteamAppStateFlag[] {
+  return APP_STATE_FLAGS.filter(([bit]) => (stateFlags & bit) !== 0).map(([, flag]) => flag);
+}
+
+/**
+ * Find the library folder holding an app's manifest
+ * @returns Promise resolving to the library's steamapps folder, or undefined if no library holds
+ * the app
+ */
+export async function getAppLibraryFolder(
+  appId: string,
+  libraryFolders: string[]
+): Promise<string | undefined> {
+  const found = await Promise.all(
+    libraryFolders.map(folder => pathExists(join(folder, `appmanifest_${appId}.acf`)))
+  );
+  return libraryFolders.find((_, i) => found[i]);
+}
+
+/**
+ * Synchronous version of getAppLibraryFolder
+ * @returns The library's steamapps folder, or undefined if no library holds the app
+ */
+export function getAppLibraryFolderSync(
+  appId: string,
+  libraryFolders: string[]
+): string | undefined {
+  return libraryFolders.find(folder => existsSync(join(folder, `appmanifest_${appId}.acf`)));
+}
+
+/**
+ * Get installed apps from library folders, reading manifests concurrently
+ */
+export async function getInstalledSteamAppsFromLibraries(
+  libraryFolders: string[]
+): Promise<SteamApp[]> {
+  try {
+    const listings = await Promise.all(libraryFolders.map(listDirectory));
+    const manifests: [string, string][] = [];
+    libraryFolders.forEach((libraryFolder, i) => {
+      for (const file of listings[i] ?? []) {
+        const appId = file.match(/^appmanifest_(\d+)\.acf$/)?.[1];
+        if (appId) {
+          manifests.push([appId, libraryFolder]);
+        }
+      }
+    });
+    const apps = await mapWithConcurrency(manifests, MANIFEST_READ_CONCURRENCY, ([appId, folder]) =>
+      readSteamAppAsync(appId, folder)
+    );
+    return dedupeInstalledApps(apps);
+  } catch {
+    return [];
+  }
 }
 
 /**
  * Synchronous version of getInstalledSteamAppsFromLibraries
  */
 export function getInstalledSteamAppsFromLibrariesSync(libraryFolders: string[]): SteamApp[] {
-  const apps: SteamApp[] = [];
+  const apps: (SteamApp | undefined)[] = [];
+  for (const libraryFolder of libraryFolders) {
+    for (const file of listDirectorySync(libraryFolder)) {
+      const appId = file.match(/^appmanifest_(\d+)\.acf$/)?.[1];
+      if (appId) {
+        apps.push(readSteamApp(appId, libraryFolder));
+      }
+    }
+  }
+  return dedupeInstalledApps(apps);
+}
+
+/**
+ * Parse an app manifest file into the manifest model
+ */
+function parseAppManifest(
+  appId: string,
+  libraryFolder: string,
+  manifestPath: string,
+  content: string
+): SteamAppManifest {
+  const manifest = parseVdf(content);
+  return toAppManifest(
+    appId,
+    libraryFolder,
+    manifestPath,
+    getVdfObject(manifest, 'AppState') ?? manifest
+  );
+}
+
+/**
+ * Convert the AppState section of a manifest to the manifest model
+ */
+function toAppManifest(
+  appId: string,
+  libraryFolder: string,
+  manifestPath: string,
+  appState: VdfObject
+): SteamAppManifest {
+  const installDirName = getVdfString(appState, 'installdir') || undefined;
+  const stateFlags = getVdfNumber(appState, 'StateFlags') ?? 0;
+  const state = decodeAppStateFlags(stateFlags);
+  const lastUpdated = getVdfNumber(appState, 'LastUpdated');
+  const lastOwner = getVdfString(appState, 'LastOwner');
+
+  const depots = getVdfObject(appState, 'InstalledDepots');
+  const installedDepots: SteamAppDepot[] = [];
+  for (const depotId of Object.keys(depots ?? {})) {
+    const depot = getVdfObject(depots, depotId);
+    if (depot) {
+      installedDepots.push({
+        depotId,
+        manifestId: getVdfString(depot, 'manifest') ?? '',
+        size: getVdfNumber(depot, 'size'),
+        dlcAppId: getVdfString(depot, 'dlcappid'),
+      });
+    }
+  }
+  const sharedDepots: Record<string, string> = {};
+  const shared = getVdfObject(appState, 'SharedDepots');
+  for (const depotId of Object.keys(shared ?? {})) {
+    const providerAppId = getVdfString(shared, depotId);
+    if (providerAppId !== undefined) {
+      sharedDepots[depotId] = providerAppId;
+    }
+  }
+
+  return {
+    appId,
+    name: getVdfString(appState, 'name') || undefined,
+    manifestPath,
+    libraryFolder,
+    installDirName,
+    installDir: installDirName ? join(libraryFolder, 'common', installDirName) : undefined,
+    stateFlags,
+    state,
+    isFullyInstalled: state.includes('fullyInstalled') && !state.includes('updateRequired'),
+    isUpdating: state.some(flag => UPDATE_STATE_FLAGS.includes(flag)),
+    buildId: getVdfNumber(appState, 'buildid'),
+    targetBuildId: getVdfNumber(appState, 'TargetBuildID'),
+    lastUpdated: lastUpdated ? new Date(lastUpdated * 1000) : undefined,
+    // Steam writes 0 when no account has owned the app
+    lastOwner: lastOwner && lastOwner !== '0' ? lastOwner : undefined,
+    sizeOnDisk: getVdfNumber(appState, 'SizeOnDisk'),
+    bytesToDownload: getVdfNumber(appState, 'BytesToDownload'),
+    bytesDownloaded: getVdfNumber(appState, 'BytesDownloaded'),
+    bytesToStage: getVdfNumber(appState, 'BytesToStage'),
+    bytesStaged: getVdfNumber(appState, 'BytesStaged'),
+    autoUpdateBehavior: getVdfNumber(appState, 'AutoUpdateBehavior'),
+    installedDepots,
+    sharedDepots,
+    betaKey: getVdfString(appState, 'UserConfig', 'BetaKey') || undefined,
+    language: getVdfString(appState, 'UserConfig', 'language') || undefined,
+    data: appState,
+  };
+}
+
+/**
+ * Read an app from its manifest in a library folder
+ * @returns The app, or undefined if the library has no readable manifest for it
+ */
+function readSteamApp(appId: string, libraryFolder: string): SteamApp | undefined {
+  const manifestPath = join(libraryFolder, `appmanifest_${appId}.acf`);
+  if (!existsSync(manifestPath)) {
+    return undefined;
+  }
+  try {
+    const content = readFileSync(manifestPath, 'utf8');
+    const manifest = parseAppManifest(appId, libraryFolder, manifestPath, content);
+    return toSteamApp(manifest, manifest.installDir ? existsSync(manifest.installDir) : false);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read an app from its manifest in a library folder without blocking
+ * @returns Promise resolving to the app, or undefined if the library has no readable manifest
+ */
+async function readSteamAppAsync(
+  appId: string,
+  libraryFolder: string
+): Promise<SteamApp | undefined> {
+  try {
+    const manifestPath = join(libraryFolder, `appmanifest_${appId}.acf`);
+    const content = await readFile(manifestPath, 'utf8');
+    const manifest = parseAppManifest(appId, libraryFolder, manifestPath, content);
+    return toSteamApp(
+      manifest,
+      manifest.installDir ? await pathExists(manifest.installDir) : false
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build the app model from its manifest, dropping the install path if it does not exist
+ * @param manifest The app's manifest
+ * @param isInstalled Whether the manifest's install directory exists
+ */
+export function toSteamApp(manifest: SteamAppManifest, isInstalled: boolean): SteamApp {
+  return {
+    appId: manifest.appId,
+    name: manifest.name,
+    installDir: isInstalled ? manifest.installDir : undefined,
+    sizeOnDisk: manifest.sizeOnDisk,
+    isInstalled,
+    lastUpdated: manifest.lastUpdated,
+  };
+}
+
+/**
+ * Keep installed apps, dropping duplicates of the same app and directory across libraries
+ * @param apps Apps read from the libraries, undefined for unreadable manifests
+ */
+export function dedupeInstalledApps(apps: (SteamApp | undefined)[]): SteamApp[] {
+  const installed: SteamApp[] = [];
   const seen = new Set<string>();
   const isWin = platform() === 'win32';
-  for (const libraryFolder of libraryFolders) {
-    try {
-      const files = readdirSync(libraryFolder);
-      for (const file of files) {
-        if (file.startsWith('appmanifest_') && file.endsWith('.acf')) {
-          try {
-            const appId = file.match(/appmanifest_(\d+)\.acf/)?.[1];
-            if (appId) {
-              const app = findSteamAppInLibrariesSync(appId, [libraryFolder], '');
-              if (app.isInstalled && app.installDir) {
-                let key = app.appId + '|' + normalize(app.installDir);
-                if (isWin) key = key.toLowerCase();
-                if (!seen.has(key)) {
-                  seen.add(key);
-                  apps.push(app);
-                }
-              }
-            }
-          } catch {
-            // Skip invalid manifests
-          }
-        }
+  for (const app of apps) {
+    if (app?.isInstalled && app.installDir) {
+      let key = app.appId + '|' + normalize(app.installDir);
+      if (isWin) key = key.toLowerCase();
+      if (!seen.has(key)) {
+        seen.add(key);
+        installed.push(app);
       }
-    } catch {
-      // Skip unreadable directories
     }
   }
-  return apps;
+  return installed;
 }
@@ -0,0 +1,297 @@
+import { join } from 'path';
+import { existsSync, statSync } from 'fs';
+import { stat } from 'fs/promises';
+import type {
+  SteamAppAsset,
+  SteamAppAssets,
+  SteamAppAssetType,
+  SteamShortcut,
+  SteamUserOptions,
+} from './types';
+import { findSteamPath, findSteamPathSync } from './steam-path';
+import { getSteamUserDataPath, getSteamUserDataPathSync } from './steam-users';
+import { getSteamShortcuts, getSteamShortcutsSync } from './steam-shortcuts';
+import { listDirectory, listDirectorySync, pathExists } from './async-utils';
+
+const ASSET_TYPES: SteamAppAssetType[] = ['header', 'capsule', 'hero', 'logo', 'icon'];
+/** Image formats Steam accepts for custom artwork */
+const GRID_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+/** Non-Steam shortcuts carry their app ID in the upper 32 bits of their game ID */
+const SHORTCUT_GAME_ID_SHIFT = BigInt(32);
+
+/** Suffix of each kind of custom artwork in config/grid, after the app ID */
+const GRID_SUFFIXES: Record<SteamAppAssetType, string> = {
+  header: '',
+  capsule: 'p',
+  hero: '_hero',
+  logo: '_logo',
+  icon: '_icon',
+};
+
+/** File names in an app's librarycache folder, best first */
+const CACHE_FOLDER_NAMES: Record<SteamAppAssetType, string[]> = {
+  header: ['header.jpg'],
+  capsule: ['library_600x900_2x.jpg', 'library_600x900.jpg', 'library_capsule.jpg'],
+  hero: ['library_hero_2x.jpg', 'library_hero.jpg'],
+  logo: ['logo_2x.png', 'logo.png'],
+  icon: ['icon.jpg'],
+};
+
+/** Suffixes of the flat librarycache layout, after `<appId>_`, best first */
+const CACHE_FLAT_SUFFIXES: Record<SteamAppAssetType, string[]> = {
+  header: ['_header.jpg'],
+  capsule: ['_library_600x900_2x.jpg', '_library_600x900.jpg'],
+  hero: ['_library_hero.jpg'],
+  logo: ['_logo.png'],
+  icon: ['_icon.jpg'],
+};
+
+/**
+ * Get the local paths of an app's library artwork: header, capsule, hero, logo and icon. Artwork
+ * the user set in `userdata/<id>/config/grid` comes first, then the client's cache in
+ * `appcache/librarycache`, in either its per-app folder layout or the older flat layout.
+ * Non-Steam shortcuts can be given by their 32-bit app ID or their 64-bit game ID, and fall back
+ * to the icon set on the shortcut
+ * @param appId Steam App ID, or the app ID or game ID of a non-Steam shortcut
+ * @param options User whose custom artwork to use (defaults to the most recent user) and Steam
+ * path
+ * @returns Promise resolving to the artwork found and the kinds missing
+ * @throws {SteamUserNotFoundError} When a user is given and has no userdata directory
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getSteamAppAssets(
+  appId: string | number,
+  options: SteamUserOptions = {}
+): Promise<SteamAppAssets> {
+  const id = toGridAppId(appId);
+  const steamPath = options.steamPath || (await findSteamPath());
+  const userOptions = { ...options, steamPath };
+
+  let userDataPath: string | undefined;
+  try {
+    userDataPath = await getSteamUserDataPath(userOptions);
+  } catch (error) {
+    // Custom artwork is optional unless a user was asked for
+    if (options.userId !== undefined) {
+      throw error;
+    }
+  }
+  const cacheDir = join(steamPath, 'appcache', 'librarycache');
+  const flatPaths = getFlatCachePaths(cacheDir, id);
+  const [gridFiles, appCacheFiles, flatExists, shortcut] = await Promise.all([
+    userDataPath ? listFiles(join(userDataPath, 'config', 'grid')) : new Map<string, string>(),
+    listAppCacheFiles(join(cacheDir, id)),
+    Promise.all(flatPaths.map(pathExists)),
+    userDataPath && isShortcutAppId(id)
+      ? getSteamShortcuts(userOptions).then(
+          shortcuts => shortcuts.find(entry => entry.appId === id),
+          // Unreadable shortcuts.vdf, no shortcut icon
+          () => undefined
+        )
+      : undefined,
+  ]);
+  const shortcutIcon =
+    shortcut?.icon && (await pathExists(shortcut.icon)) ? shortcut.icon : undefined;
+  return toAppAssets(
+    id,
+    cacheDir,
+    gridFiles,
+    appCacheFiles,
+    new Set(flatPaths.filter((_, i) => flatExists[i])),
+    shortcutIcon
+  );
+}
+
+/**
+ * Synchronous version of getSteamAppAssets
+ * @param appId Steam App ID, or the app ID or game ID of a non-Steam shortcut
+ * @param options User whose custom artwork to use (defaults to the most recent user) and Steam
+ * path
+ * @returns The artwork found and the kinds missing
+ * @throws {SteamUserNotFoundError} When a user is given and has no userdata directory
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getSteamAppAssetsSync(
+  appId: string | number,
+  options: SteamUserOptions = {}
+): SteamAppAssets {
+  const id = toGridAppId(appId);
+  const steamPath = options.steamPath || findSteamPathSync();
+  const userOptions = { ...options, steamPath };
+
+  let userDataPath: string | undefined;
+  try {
+    userDataPath = getSteamUserDataPathSync(userOptions);
+  } catch (error) {
+    // Custom artwork is optional unless a user was asked for
+    if (options.userId !== undefined) {
+      throw error;
+    }
+  }
+  const gridFiles = userDataPath
+    ? listFilesSync(join(userDataPath, 'config', 'grid'))
+    : new Map<string, string>();
+  const cacheDir = join(steamPath, 'appcache', 'librarycache');
+  const appCacheFiles = listAppCacheFilesSync(join(cacheDir, id));
+  let shortcut: SteamShortcut | undefined;
+  if (userDataPath && isShortcutAppId(id)) {
+    try {
+      shortcut = getSteamShortcutsSync(userOptions).find(entry => entry.appId === id);
+    } catch {
+      // Unreadable shortcuts.vdf, no shortcut icon
+    }
+  }
+  const shortcutIcon = shortcut?.icon && existsSync(shortcut.icon) ? shortcut.icon : undefined;
+  return toAppAssets(
+    id,
+    cacheDir,
+    gridFiles,
+    appCacheFiles,
+    new Set(getFlatCachePaths(cacheDir, id).filter(path => existsSync(path))),
+    shortcutIcon
+  );
+}
+
+/**
+ * Pick each kind of artwork: custom grid artwork, then the librarycache folder, then the flat
+ * librarycache layout, then for icons the shortcut's own
+ * @param flatFiles Paths of the flat librarycache layout that exist
+ */
+function toAppAssets(
+  id: string,
+  cacheDir: string,
+  gridFiles: Map<string, string>,
+  appCacheFiles: Map<string, string>,
+  flatFiles: Set<string>,
+  shortcutIcon: string | undefined
+): SteamAppAssets {
+  const assets: SteamAppAssets = { appId: id, missing: [] };
+  for (const type of ASSET_TYPES) {
+    const custom = GRID_EXTENSIONS.map(ext => `${id}${GRID_SUFFIXES[type]}${ext}`)
+      .map(name => gridFiles.get(name))
+      .find(path => path !== undefined);
+    const cached =
+      CACHE_FOLDER_NAMES[type].map(name => appCacheFiles.get(name)).find(Boolean) ??
+      (type === 'icon' ? findHashedIcon(appCacheFiles) : undefined) ??
+      CACHE_FLAT_SUFFIXES[type]
+        .map(suffix => join(cacheDir, `${id}${suffix}`))
+        .find(path => flatFiles.has(path));
+
+    let asset: SteamAppAsset | undefined;
+    if (custom) {
+      asset = { path: custom, source: 'custom' };
+    } else if (cached) {
+      asset = { path: cached, source: 'librarycache' };
+    } else if (type === 'icon' && shortcutIcon) {
+      asset = { path: shortcutIcon, source: 'shortcut' };
+    }
+    if (asset) {
+      assets[type] = asset;
+    } else {
+      assets.missing.push(type);
+    }
+  }
+  return assets;
+}
+
+/**
+ * List the paths an app's artwork would have in the flat librarycache layout
+ */
+function getFlatCachePaths(cacheDir: string, id: string): string[] {
+  return Object.values(CACHE_FLAT_SUFFIXES)
+    .flat()
+    .map(suffix => join(cacheDir, `${id}${suffix}`));
+}
+
+function isShortcutAppId(id: string): boolean {
+  return Number(id) >= 0x80000000;
+}
+
+/**
+ * Get the ID grid artwork is named after: shortcut game IDs are reduced to their 32-bit app ID
+ */
+function toGridAppId(appId: string | number): string {
+  const id = String(appId);
+  if (!/^\d+$/.test(id)) {
+    throw new Error(`Invalid app ID: ${id}`);
+  }
+  const value = BigInt(id);
+  return value >> SHORTCUT_GAME_ID_SHIFT > BigInt(0) ? String(value >> SHORTCUT_GAME_ID_SHIFT) : id;
+}
+
+/**
+ * Map the lowercased names of the files in a folder to their paths
+ */
+async function listFiles(dir: string): Promise<Map<string, string>> {
+  return toFileMap(dir, await listDirectory(dir));
+}
+
+/**
+ * Synchronous version of listFiles
+ */
+function listFilesSync(dir: string): Map<string, string> {
+  return toFileMap(dir, listDirectorySync(dir));
+}
+
+function toFileMap(dir: string, names: string[]): Map<string, string> {
+  return new Map(names.map(name => [name.toLowerCase(), join(dir, name)]));
+}
+
+/**
+ * List an app's librarycache folder. Newer clients may nest images one level down in folders
+ * named by hash; images directly in the app folder win
+ */
+async function listAppCacheFiles(appDir: string): Promise<Map<string, string>> {
+  const files = await listFiles(appDir);
+  const paths = [...files.values()];
+  const folders = await Promise.all(
+    paths.map(path =>
+      stat(path).then(
+        stats => stats.isDirectory(),
+        () => false
+      )
+    )
+  );
+  const nested = await Promise.all(paths.filter((_, i) => folders[i]).map(listFiles));
+  return mergeNestedFiles(files, nested);
+}
+
+/**
+ * Synchronous version of listAppCacheFiles
+ */
+function listAppCacheFilesSync(appDir: string): Map<string, string> {
+  const files = listFilesSync(appDir);
+  const nested: Map<string, string>[] = [];
+  for (const path of files.values()) {
+    try {
+      if (statSync(path).isDirectory()) {
+        nested.push(listFilesSync(path));
+      }
+    } catch {
+      // Removed while listing
+    }
+  }
+  return mergeNestedFiles(files, nested);
+}
+
+function mergeNestedFiles(
+  files: Map<string, string>,
+  nested: Map<string, string>[]
+): Map<string, string> {
+  for (const folder of nested) {
+    for (const [name, nestedPath] of folder) {
+      if (!files.has(name)) {
+        files.set(name, nestedPath);
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Find the icon in an app's librarycache folder, which newer clients name by its SHA-1 hash
+ */
+function findHashedIcon(files: Map<string, string>): string | undefined {
+  const name = [...files.keys()].find(file => /^[0-9a-f]{40}\.(jpg|png|ico)$/.test(file));
+  return name ? files.get(name) : undefined;
+}
@@ -0,0 +1,390 @@
+import { join, resolve, delimiter } from 'path';
+import { existsSync } from 'fs';
+import type {
+  SteamApp,
+  SteamAppInfo,
+  SteamCompatTool,
+  SteamCompatToolAssignment,
+  VdfObject,
+} from './types';
+import { findSteamPath, findSteamPathSync } from './steam-path';
+import { getLibraryFolders, getLibraryFoldersSync } from './steam-libraries';
+import {
+  getAppLibraryFolder,
+  getAppLibraryFolderSync,
+  getInstalledSteamAppsFromLibraries,
+  getInstalledSteamAppsFromLibrariesSync,
+} from './steam-apps';
+import { getSteamAppInfo, getSteamAppInfoSync } from './steam-appinfo';
+import { getVdfNumber, getVdfObject, getVdfString } from './vdf';
+import {
+  listDirectory,
+  listDirectorySync,
+  pathExists,
+  readVdfFile,
+  readVdfFileSync,
+} from './async-utils';
+
+/** App whose appinfo lists the internal names of the official compatibility tools */
+const STEAM_PLAY_MANIFESTS_APP_ID = '891390';
+
+interface OfficialCompatTool {
+  name: string;
+  displayName?: string | undefined;
+  fromOS?: string | undefined;
+  toOS?: string | undefined;
+}
+
+const SYSTEM_COMPAT_TOOL_DIRS = [
+  '/usr/share/steam/compatibilitytools.d',
+  '/usr/local/share/steam/compatibilitytools.d',
+];
+
+/**
+ * List the compatibility tools available to Steam: Proton and runtime apps installed in any
+ * library, plus custom builds in compatibilitytools.d
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to the available tools
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getCompatibilityTools(steamPath?: string): Promise<SteamCompatTool[]> {
+  const actualSteamPath = steamPath || (await findSteamPath());
+  const [steamTools, customTools] = await Promise.all([
+    getSteamCompatTools(actualSteamPath),
+    getCustomCompatTools(actualSteamPath),
+  ]);
+  return [...steamTools, ...customTools];
+}
+
+/**
+ * Synchronous version of getCompatibilityTools
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns The available tools
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getCompatibilityToolsSync(steamPath?: string): SteamCompatTool[] {
+  const actualSteamPath = steamPath || findSteamPathSync();
+  return [
+    ...getSteamCompatToolsSync(actualSteamPath),
+    ...getCustomCompatToolsSync(actualSteamPath),
+  ];
+}
+
+/**
+ * Get the compatibility tool assignments from CompatToolMapping in config/config.vdf
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to the assignments, including the default under app ID 0
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getCompatToolMapping(
+  steamPath?: string
+): Promise<SteamCompatToolAssignment[]> {
+  const actualSteamPath = steamPath || (await findSteamPath());
+  return toCompatToolAssignments(await readVdfFile(join(actualSteamPath, 'config', 'config.vdf')));
+}
+
+/**
+ * Synchronous version of getCompatToolMapping
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns The assignments, including the default under app ID 0
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getCompatToolMappingSync(steamPath?: string): SteamCompatToolAssignment[] {
+  const actualSteamPath = steamPath || findSteamPathSync();
+  return toCompatToolAssignments(readVdfFileSync(join(actualSteamPath, 'config', 'config.vdf')));
+}
+
+/**
+ * Get the compatibility tool Steam runs an app with: its own assignment, or the default tool
+ * @param appId Steam App ID to look up
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to the tool, or undefined if none is assigned or it is missing
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getAppCompatTool(
+  appId: string,
+  steamPath?: string
+): Promise<SteamCompatTool | undefined> {
+  const actualSteamPath = steamPath || (await findSteamPath());
+  const assignment = findAssignment(await getCompatToolMapping(actualSteamPath), appId);
+  if (!assignment) {
+    return undefined;
+  }
+  return (await getCompatibilityTools(actualSteamPath)).find(tool => tool.name === assignment.name);
+}
+
+/**
+ * Synchronous version of getAppCompatTool
+ * @param appId Steam App ID to look up
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns The tool, or undefined if none is assigned or it is missing
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getAppCompatToolSync(
+  appId: string,
+  steamPath?: string
+): SteamCompatTool | undefined {
+  const actualSteamPath = steamPath || findSteamPathSync();
+  const assignment = findAssignment(getCompatToolMappingSync(actualSteamPath), appId);
+  if (!assignment) {
+    return undefined;
+  }
+  return getCompatibilityToolsSync(actualSteamPath).find(tool => tool.name === assignment.name);
+}
+
+/**
+ * Get the Wine prefix Proton uses for an app, steamapps/compatdata/<appId>/pfx in the library
+ * holding the app
+ * @param appId Steam App ID, or the app ID of a non-Steam shortcut
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to the prefix path, or undefined if the app has no prefix
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getProtonPrefixPath(
+  appId: string,
+  steamPath?: string
+): Promise<string | undefined> {
+  const actualSteamPath = steamPath || (await findSteamPath());
+  const libraryFolders = await getLibraryFolders(actualSteamPath);
+  const prefixPaths = getPrefixCandidates(
+    appId,
+    libraryFolders,
+    await getAppLibraryFolder(appId, libraryFolders)
+  );
+  const found = await Promise.all(prefixPaths.map(pathExists));
+  return prefixPaths.find((_, i) => found[i]);
+}
+
+/**
+ * Synchronous version of getProtonPrefixPath
+ * @param appId Steam App ID, or the app ID of a non-Steam shortcut
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns The prefix path, or undefined if the app has no prefix
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getProtonPrefixPathSync(appId: string, steamPath?: string): string | undefined {
+  const actualSteamPath = steamPath || findSteamPathSync();
+  const libraryFolders = getLibraryFoldersSync(actualSteamPath);
+  return getPrefixCandidates(
+    appId,
+    libraryFolders,
+    getAppLibraryFolderSync(appId, libraryFolders)
+  ).find(prefixPath => existsSync(prefixPath));
+}
+
+/**
+ * Read the assignments from the CompatToolMapping section of config.vdf
+ */
+function toCompatToolAssignments(config: VdfObject | undefined): SteamCompatToolAssignment[] {
+  const mapping = getVdfObject(
+    config,
+    'InstallConfigStore',
+    'Software',
+    'Valve',
+    'Steam',
+    'CompatToolMapping'
+  );
+  const assignments: SteamCompatToolAssignment[] = [];
+  for (const appId of Object.keys(mapping ?? {})) {
+    const entry = getVdfObject(mapping, appId);
+    const name = getVdfString(entry, 'name');
+    // Steam keeps entries with an empty name after a user clears the override
+    if (name) {
+      assignments.push({
+        appId,
+        name,
+        config: getVdfString(entry, 'config') || undefined,
+        priority: getVdfNumber(entry, 'priority'),
+      });
+    }
+  }
+  return assignments;
+}
+
+/**
+ * Find an app's own assignment, falling back to the default under app ID 0
+ */
+function findAssignment(
+  mapping: SteamCompatToolAssignment[],
+  appId: string
+): SteamCompatToolAssignment | undefined {
+  return mapping.find(entry => entry.appId === appId) ?? mapping.find(entry => entry.appId === '0');
+}
+
+/**
+ * List where an app's Proton prefix may be: the library holding the app's manifest first, as
+ * shortcuts only have a prefix
+ */
+function getPrefixCandidates(
+  appId: string,
+  libraryFolders: string[],
+  owningLibrary: string | undefined
+): string[] {
+  return (owningLibrary ? [owningLibrary, ...libraryFolders] : libraryFolders).map(libraryFolder =>
+    join(libraryFolder, 'compatdata', appId, 'pfx')
+  );
+}
+
+/**
+ * Find compatibility tools installed as Steam apps, identified by their toolmanifest.vdf
+ */
+async function getSteamCompatTools(steamPath: string): Promise<SteamCompatTool[]> {
+  const [apps, appInfo] = await Promise.all([
+    getLibraryFolders(steamPath).then(getInstalledSteamAppsFromLibraries),
+    getSteamAppInfo(STEAM_PLAY_MANIFESTS_APP_ID, steamPath).catch(() => undefined),
+  ]);
+  const hasToolManifest = await Promise.all(
+    apps.map(app =>
+      app.installDir ? pathExists(join(app.installDir, 'toolmanifest.vdf')) : Promise.resolve(false)
+    )
+  );
+  return toSteamCompatTools(
+    apps.filter((_, i) => hasToolManifest[i]),
+    getOfficialToolNames(appInfo)
+  );
+}
+
+/**
+ * Synchronous version of getSteamCompatTools
+ */
+function getSteamCompatToolsSync(steamPath: string): SteamCompatTool[] {
+  const apps = getInstalledSteamAppsFromLibrariesSync(getLibraryFoldersSync(steamPath));
+  let appInfo: SteamAppInfo | undefined;
+  try {
+    appInfo = getSteamAppInfoSync(STEAM_PLAY_MANIFESTS_APP_ID, steamPath);
+  } catch {
+    // No appinfo.vdf, fall back to guessed names
+  }
+  return toSteamCompatTools(
+    apps.filter(app => app.installDir && existsSync(join(app.installDir, 'toolmanifest.vdf'))),
+    getOfficialToolNames(appInfo)
+  );
+}
+
+/**
+ * Describe the tool apps, named after the official tools where appinfo.vdf lists them
+ */
+function toSteamCompatTools(
+  apps: SteamApp[],
+  knownTools: Map<string, OfficialCompatTool>
+): SteamCompatTool[] {
+  const tools: SteamCompatTool[] = [];
+  for (const app of apps) {
+    if (!app.installDir) {
+      continue;
+    }
+    const known = knownTools.get(app.appId);
+    tools.push({
+      name: known?.name ?? guessToolName(app.name ?? app.appId),
+      displayName: known?.displayName ?? app.name,
+      path: app.installDir,
+      source: 'steam',
+      appId: app.appId,
+      fromOS: known?.fromOS,
+      toOS: known?.toOS,
+    });
+  }
+  return tools;
+}
+
+/**
+ * Read the internal names of official tools from the Steam Play manifests app in appinfo.vdf
+ */
+function getOfficialToolNames(appInfo: SteamAppInfo | undefined): Map<string, OfficialCompatTool> {
+  const names = new Map<string, OfficialCompatTool>();
+  const compatTools = getVdfObject(appInfo?.data, 'extended', 'compat_tools');
+  for (const name of Object.keys(compatTools ?? {})) {
+    const entry = getVdfObject(compatTools, name);
+    const appId = getVdfString(entry, 'appid');
+    if (appId) {
+      names.set(appId, {
+        name,
+        displayName: getVdfString(entry, 'display_name'),
+        fromOS: getVdfString(entry, 'from_oslist'),
+        toOS: getVdfString(entry, 'to_oslist'),
+      });
+    }
+  }
+  return names;
+}
+
+/**
+ * Derive the internal name Steam uses for an official tool from its app name, for when
+ * appinfo.vdf is unavailable: "Proton 9.0" becomes proton_9, "Proton Experimental"
+ * proton_experimental
+ */
+function guessToolName(appName: string): string {
+  const proton = appName.match(/^Proton\s+(.+)$/i);
+  if (proton?.[1]) {
+    const version = proton[1].replace(/\.0$/, '').replace(/\./g, '');
+    return `proton_${version.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`;
+  }
+  return appName.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+}
+
+/**
+ * Find custom tools described by compatibilitytool.vdf files in compatibilitytools.d
+ */
+async function getCustomCompatTools(steamPath: string): Promise<SteamCompatTool[]> {
+  const searchDirs = getCompatToolSearchDirs(steamPath);
+  const listings = await Promise.all(searchDirs.map(listDirectory));
+  const toolDirs = searchDirs.flatMap((searchDir, i) =>
+    (listings[i] ?? []).map(entry => join(searchDir, entry))
+  );
+  const manifests = await Promise.all(
+    toolDirs.map(toolDir => readVdfFile(join(toolDir, 'compatibilitytool.vdf')))
+  );
+  return toCustomCompatTools(toolDirs.map((toolDir, i) => [toolDir, manifests[i]]));
+}
+
+/**
+ * Synchronous version of getCustomCompatTools
+ */
+function getCustomCompatToolsSync(steamPath: string): SteamCompatTool[] {
+  const toolDirs = getCompatToolSearchDirs(steamPath).flatMap(searchDir =>
+    listDirectorySync(searchDir).map(entry => join(searchDir, entry))
+  );
+  return toCustomCompatTools(
+    toolDirs.map(toolDir => [toolDir, readVdfFileSync(join(toolDir, 'compatibilitytool.vdf'))])
+  );
+}
+
+/**
+ * List the folders the client looks for custom tools in, in order of precedence
+ */
+function getCompatToolSearchDirs(steamPath: string): string[] {
+  return [
+    join(steamPath, 'compatibilitytools.d'),
+    ...SYSTEM_COMPAT_TOOL_DIRS,
+    ...(process.env.STEAM_EXTRA_COMPAT_TOOLS_PATHS || '').split(delimiter).filter(Boolean),
+  ];
+}
+
+/**
+ * Describe the tools declared by each tool folder's compatibilitytool.vdf
+ * @param manifests Each tool folder with its parsed manifest, undefined if it has none
+ */
+function toCustomCompatTools(manifests: [string, VdfObject | undefined][]): SteamCompatTool[] {
+  const tools: SteamCompatTool[] = [];
+  const seen = new Set<string>();
+  for (const [toolDir, manifest] of manifests) {
+    const compatTools = getVdfObject(manifest, 'compatibilitytools', 'compat_tools');
+    for (const name of Object.keys(compatTools ?? {})) {
+      const tool = getVdfObject(compatTools, name);
+      if (!tool || seen.has(name)) {
+        continue;
+      }
+      // Earlier directories take precedence, as in the client
+      seen.add(name);
+      tools.push({
+        name,
+        displayName: getVdfString(tool, 'display_name'),
+        path: resolve(toolDir, getVdfString(tool, 'install_path') ?? '.'),
+        source: 'custom',
+        fromOS: getVdfString(tool, 'from_oslist'),
+        toOS: getVdfString(tool, 'to_oslist'),
+      });
+    }
+  }
+  return tools;
+}
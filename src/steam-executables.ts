@@ -0,0 +1,548 @@
+import { basename, extname, join, normalize, relative, sep } from 'path';
+import {
+  closeSync,
+  existsSync,
+  fstatSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+} from 'fs';
+import type { Dirent } from 'fs';
+import { open, readdir, readFile, stat } from 'fs/promises';
+import { SteamAppNotFoundError } from './errors';
+import type {
+  SteamAppExecutable,
+  SteamAppOS,
+  SteamExecutableArch,
+  SteamExecutableFormat,
+  SteamLaunchConfig,
+} from './types';
+import { findSteamApp, findSteamAppSync } from './steam-locate-api';
+import { getSteamAppInfo, getSteamAppInfoSync } from './steam-appinfo';
+import { mapWithConcurrency, pathExists, readBytes, readBytesSync } from './async-utils';
+
+/** What the header of an executable tells about it */
+interface ExecutableInfo {
+  format: SteamExecutableFormat;
+  os?: SteamAppOS | undefined;
+  arch?: SteamExecutableArch | undefined;
+  size: number;
+}
+
+/** A launch option's executable, resolved in the install directory */
+interface LaunchConfigPath {
+  launchConfig: SteamLaunchConfig;
+  relativePath: string;
+  path: string;
+}
+
+/** A macOS bundle or file the scan found worth inspecting */
+interface ScannedFile {
+  path: string;
+  isBundle: boolean;
+}
+
+/** How deep below the install directory to look for executables */
+const MAX_SCAN_DEPTH = 4;
+/** Extensions of files whose header is checked when scanning; ELF binaries often have none */
+const SCANNED_EXTENSIONS = ['', '.exe', '.x86', '.x86_64', '.bin'];
+/** Redistributable installers, uninstallers, crash handlers and other helpers that are not games */
+const EXCLUDED_NAME_PATTERN =
+  /crash(handler|reporter|report|pad|sender|dump)|bugreport|errorreport|redist|directx|dxsetup|dxwebsetup|dotnetfx|oalinst|physx|prereq|^unins\d*|^uninstall|(^|[_-])setup|installer|^__macosx$/i;
+/** Platform and build suffixes dropped from file names before comparing them to the app name */
+const NAME_SUFFIX_PATTERN = /[-_. ](win64|win32|x86_64|x64|x86|linux|osx|mac|shipping)$/i;
+
+const ELF_MACHINES: Record<number, SteamExecutableArch> = {
+  3: 'x86',
+  40: 'arm',
+  62: 'x64',
+  183: 'arm64',
+};
+const PE_MACHINES: Record<number, SteamExecutableArch> = {
+  0x014c: 'x86',
+  0x01c4: 'arm',
+  0x8664: 'x64',
+  0xaa64: 'arm64',
+};
+const MACHO_CPU_TYPES: Record<number, SteamExecutableArch> = {
+  7: 'x86',
+  12: 'arm',
+  0x01000007: 'x64',
+  0x0100000c: 'arm64',
+};
+/** Bytes read from the start of a binary, enough for the ELF, Mach-O and DOS headers */
+const HEADER_BYTES = 64;
+/** Maximum number of files inspected at once by the async function */
+const INSPECT_CONCURRENCY = 16;
+/** IMAGE_FILE_DLL in the PE file header characteristics */
+const PE_DLL_FLAG = 0x2000;
+
+/**
+ * Find the executables an installed app can be launched with. The app's launch options from
+ * appinfo.vdf are used when they point to files that exist; otherwise the install directory is
+ * scanned for ELF and PE binaries and macOS `.app` bundles, leaving out redistributables,
+ * uninstallers and crash handlers, and ranked by how closely their names match the app, their
+ * size and how deep they are. Each target is tagged with the OS and architecture read from its
+ * header, so callers can keep the ones for the current platform
+ * @param appId Steam App ID of the app
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to the launch targets, most likely first
+ * @throws {SteamAppNotFoundError} When the app is not installed
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function findSteamAppExecutables(
+  appId: string,
+  steamPath?: string
+): Promise<SteamAppExecutable[]> {
+  const app = await findSteamApp(appId, steamPath);
+  if (!app.isInstalled || !app.installDir) {
+    throw new SteamAppNotFoundError(appId, `App ${appId} is not installed`);
+  }
+  const installDir = app.installDir;
+  const launchConfigs = await getSteamAppInfo(appId, steamPath).then(
+    info => info.launchConfigs,
+    // Not in the appinfo cache, fall back to scanning
+    () => []
+  );
+  const configPaths = getLaunchConfigPaths(installDir, launchConfigs);
+  const configInfo = await Promise.all(
+    configPaths.map(async ({ path }) =>
+      (await pathExists(path)) ? { info: await inspectExecutable(path) } : undefined
+    )
+  );
+  const fromConfigs = toLaunchConfigExecutables(configPaths, configInfo);
+  if (fromConfigs.length > 0) {
+    return fromConfigs;
+  }
+  const found = await scanInstallDir(installDir);
+  const info = await mapWithConcurrency(found, INSPECT_CONCURRENCY, ({ path, isBundle }) =>
+    isBundle ? inspectAppBundle(path) : inspectBinary(path)
+  );
+  return rankScanned(installDir, getAppNames(app.name, installDir), found, info);
+}
+
+/**
+ * Synchronous version of findSteamAppExecutables
+ * @param appId Steam App ID of the app
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns The launch targets, most likely first
+ * @throws {SteamAppNotFoundError} When the app is not installed
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function findSteamAppExecutablesSync(
+  appId: string,
+  steamPath?: string
+): SteamAppExecutable[] {
+  const app = findSteamAppSync(appId, steamPath);
+  if (!app.isInstalled || !app.installDir) {
+    throw new SteamAppNotFoundError(appId, `App ${appId} is not installed`);
+  }
+  const installDir = app.installDir;
+  let launchConfigs: SteamLaunchConfig[] = [];
+  try {
+    launchConfigs = getSteamAppInfoSync(appId, steamPath).launchConfigs;
+  } catch {
+    // Not in the appinfo cache, fall back to scanning
+  }
+  const configPaths = getLaunchConfigPaths(installDir, launchConfigs);
+  const configInfo = configPaths.map(({ path }) =>
+    existsSync(path) ? { info: inspectExecutableSync(path) } : undefined
+  );
+  const fromConfigs = toLaunchConfigExecutables(configPaths, configInfo);
+  if (fromConfigs.length > 0) {
+    return fromConfigs;
+  }
+  const found = scanInstallDirSync(installDir);
+  const info = found.map(({ path, isBundle }) =>
+    isBundle ? inspectAppBundleSync(path) : inspectBinarySync(path)
+  );
+  return rankScanned(installDir, getAppNames(app.name, installDir), found, info);
+}
+
+/**
+ * Resolve the executables of the launch options that name one, in the order Steam lists them
+ */
+function getLaunchConfigPaths(
+  installDir: string,
+  launchConfigs: SteamLaunchConfig[]
+): LaunchConfigPath[] {
+  return launchConfigs.flatMap(launchConfig => {
+    if (!launchConfig.executable) {
+      return [];
+    }
+    // Launch options use Windows separators whatever the platform
+    const relativePath = normalize(launchConfig.executable.replace(/\\/g, '/'));
+    return [{ launchConfig, relativePath, path: join(installDir, relativePath) }];
+  });
+}
+
+/**
+ * Keep the launch options whose executable exists
+ * @param found What each executable's header tells, undefined where the file is missing
+ */
+function toLaunchConfigExecutables(
+  configPaths: LaunchConfigPath[],
+  found: ({ info: ExecutableInfo | undefined } | undefined)[]
+): SteamAppExecutable[] {
+  return configPaths.flatMap(({ launchConfig, relativePath, path }, i) => {
+    const existing = found[i];
+    if (!existing) {
+      return [];
+    }
+    const { info } = existing;
+    const configArch: SteamExecutableArch | undefined =
+      launchConfig.arch === '64' ? 'x64' : launchConfig.arch === '32' ? 'x86' : undefined;
+    return [
+      {
+        path,
+        relativePath,
+        os: info?.os ?? (launchConfig.os.length === 1 ? launchConfig.os[0] : undefined),
+        arch: info?.arch ?? configArch,
+        format: info?.format,
+        source: 'launchConfig' as const,
+        launchConfig,
+      },
+    ];
+  });
+}
+
+function getAppNames(appName: string | undefined, installDir: string): string[] {
+  return [appName, basename(installDir)].filter((name): name is string => !!name);
+}
+
+/**
+ * Look for macOS bundles and files worth inspecting in the install directory
+ */
+async function scanInstallDir(installDir: string): Promise<ScannedFile[]> {
+  const found: ScannedFile[] = [];
+  const walk = async (dir: string, depth: number): Promise<void> => {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const scanned = toScannedFile(dir, entry);
+      if (scanned) {
+        found.push(scanned);
+      } else if (isSubfolder(entry) && depth < MAX_SCAN_DEPTH) {
+        await walk(join(dir, entry.name), depth + 1);
+      }
+    }
+  };
+  await walk(installDir, 0);
+  return found;
+}
+
+/**
+ * Synchronous version of scanInstallDir
+ */
+function scanInstallDirSync(installDir: string): ScannedFile[] {
+  const found: ScannedFile[] = [];
+  const walk = (dir: string, depth: number) => {
+    let entries;
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const scanned = toScannedFile(dir, entry);
+      if (scanned) {
+        found.push(scanned);
+      } else if (isSubfolder(entry) && depth < MAX_SCAN_DEPTH) {
+        walk(join(dir, entry.name), depth + 1);
+      }
+    }
+  };
+  walk(installDir, 0);
+  return found;
+}
+
+/**
+ * Tell whether a folder entry is a bundle or file to inspect
+ */
+function toScannedFile(dir: string, entry: Dirent): ScannedFile | undefined {
+  if (EXCLUDED_NAME_PATTERN.test(entry.name)) {
+    return undefined;
+  }
+  const path = join(dir, entry.name);
+  if (entry.isDirectory()) {
+    return /\.app$/i.test(entry.name) ? { path, isBundle: true } : undefined;
+  }
+  return entry.isFile() && SCANNED_EXTENSIONS.includes(extname(entry.name).toLowerCase())
+    ? { path, isBundle: false }
+    : undefined;
+}
+
+function isSubfolder(entry: Dirent): boolean {
+  return entry.isDirectory() && !EXCLUDED_NAME_PATTERN.test(entry.name);
+}
+
+/**
+ * Rank the executables found by the scan
+ * @param info What each scanned file's header tells, by position in found
+ */
+function rankScanned(
+  installDir: string,
+  names: string[],
+  found: ScannedFile[],
+  info: (ExecutableInfo | undefined)[]
+): SteamAppExecutable[] {
+  const candidates: { executable: SteamAppExecutable; score: number }[] = [];
+  found.forEach(({ path }, i) => {
+    const executable = info[i];
+    if (!executable || executable.format === 'script') {
+      return;
+    }
+    const relativePath = relative(installDir, path);
+    candidates.push({
+      executable: {
+        path,
+        relativePath,
+        os: executable.os,
+        arch: executable.arch,
+        format: executable.format,
+        source: 'scan',
+      },
+      score: scoreCandidate(relativePath, executable.size, names),
+    });
+  });
+  return candidates.sort((a, b) => b.score - a.score).map(({ executable }) => executable);
+}
+
+/**
+ * Rank a candidate: a name like the app's counts most, then size, and files deeper in the
+ * install directory count less
+ */
+function scoreCandidate(relativePath: string, size: number, names: string[]): number {
+  const fileName = basename(relativePath);
+  const stem = normalizeName(
+    basename(fileName, extname(fileName)).replace(NAME_SUFFIX_PATTERN, '')
+  );
+  const similarity = Math.max(0, ...names.map(name => nameSimilarity(stem, normalizeName(name))));
+  const sizeScore = Math.min(Math.log10(Math.max(size, 1)) / 8, 1);
+  const depth = relativePath.split(sep).length - 1;
+  return similarity * 2 + sizeScore - depth * 0.25;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Similarity of two names from 0 to 1, by their shared letter pairs (Dice coefficient)
+ */
+function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return 1;
+  }
+  if (a.includes(b) || b.includes(a)) {
+    return 0.8;
+  }
+  const bigrams = (s: string) => Array.from({ length: s.length - 1 }, (_, i) => s.slice(i, i + 2));
+  const first = bigrams(a);
+  const rest = bigrams(b);
+  const total = first.length + rest.length;
+  let matches = 0;
+  for (const bigram of first) {
+    const index = rest.indexOf(bigram);
+    if (index !== -1) {
+      matches++;
+      rest.splice(index, 1);
+    }
+  }
+  return total > 0 ? (2 * matches) / total : 0;
+}
+
+/**
+ * Read what kind of executable a file or macOS bundle is
+ */
+async function inspectExecutable(path: string): Promise<ExecutableInfo | undefined> {
+  try {
+    if ((await stat(path)).isDirectory()) {
+      return /\.app$/i.test(path) ? inspectAppBundle(path) : undefined;
+    }
+  } catch {
+    return undefined;
+  }
+  return inspectBinary(path);
+}
+
+/**
+ * Synchronous version of inspectExecutable
+ */
+function inspectExecutableSync(path: string): ExecutableInfo | undefined {
+  try {
+    if (statSync(path).isDirectory()) {
+      return /\.app$/i.test(path) ? inspectAppBundleSync(path) : undefined;
+    }
+  } catch {
+    return undefined;
+  }
+  return inspectBinarySync(path);
+}
+
+/**
+ * Read the main executable of a macOS `.app` bundle, named by CFBundleExecutable in its
+ * Info.plist
+ */
+async function inspectAppBundle(bundlePath: string): Promise<ExecutableInfo | undefined> {
+  const macOSDir = join(bundlePath, 'Contents', 'MacOS');
+  let executable: string | undefined;
+  try {
+    executable = getBundleExecutable(
+      await readFile(join(bundlePath, 'Contents', 'Info.plist'), 'utf8')
+    );
+  } catch {
+    // Missing Info.plist
+  }
+  if (!executable) {
+    // Binary plists cannot be read as text; bundles usually hold a single executable
+    try {
+      executable = (await readdir(macOSDir))[0];
+    } catch {
+      return undefined;
+    }
+  }
+  return toBundleInfo(executable ? await inspectBinary(join(macOSDir, executable)) : undefined);
+}
+
+/**
+ * Synchronous version of inspectAppBundle
+ */
+function inspectAppBundleSync(bundlePath: string): ExecutableInfo | undefined {
+  const macOSDir = join(bundlePath, 'Contents', 'MacOS');
+  let executable: string | undefined;
+  try {
+    executable = getBundleExecutable(
+      readFileSync(join(bundlePath, 'Contents', 'Info.plist'), 'utf8')
+    );
+  } catch {
+    // Missing Info.plist
+  }
+  if (!executable) {
+    // Binary plists cannot be read as text; bundles usually hold a single executable
+    try {
+      executable = readdirSync(macOSDir)[0];
+    } catch {
+      return undefined;
+    }
+  }
+  return toBundleInfo(executable ? inspectBinarySync(join(macOSDir, executable)) : undefined);
+}
+
+function getBundleExecutable(plist: string): string | undefined {
+  return plist.match(/<key>CFBundleExecutable<\/key>\s*<string>([^<]+)<\/string>/)?.[1];
+}
+
+function toBundleInfo(info: ExecutableInfo | undefined): ExecutableInfo | undefined {
+  return info ? { format: 'macho', os: 'macos', arch: info.arch, size: info.size } : undefined;
+}
+
+/**
+ * Read the format, OS and architecture of a binary from its header. Shared libraries and
+ * files that are not executables give undefined
+ */
+async function inspectBinary(path: string): Promise<ExecutableInfo | undefined> {
+  try {
+    const handle = await open(path, 'r');
+    try {
+      const { size } = await handle.stat();
+      const header = await readBytes(handle, 0, HEADER_BYTES);
+      const coffOffset = getCoffOffset(header);
+      const coff = coffOffset !== undefined ? await readBytes(handle, coffOffset, 24) : undefined;
+      return decodeBinary(path, size, header, coff);
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Synchronous version of inspectBinary
+ */
+function inspectBinarySync(path: string): ExecutableInfo | undefined {
+  try {
+    const fd = openSync(path, 'r');
+    try {
+      const { size } = fstatSync(fd);
+      const header = readBytesSync(fd, 0, HEADER_BYTES);
+      const coffOffset = getCoffOffset(header);
+      const coff = coffOffset !== undefined ? readBytesSync(fd, coffOffset, 24) : undefined;
+      return decodeBinary(path, size, header, coff);
+    } finally {
+      closeSync(fd);
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get where the PE signature and COFF header are, from the DOS header of a PE file
+ */
+function getCoffOffset(header: Buffer): number | undefined {
+  return header.length >= HEADER_BYTES && header.readUInt16LE(0) === 0x5a4d
+    ? header.readUInt32LE(0x3c)
+    : undefined;
+}
+
+/**
+ * Decode a binary's header
+ * @param coff The PE signature and COFF header, read for PE files
+ */
+function decodeBinary(
+  path: string,
+  size: number,
+  header: Buffer,
+  coff: Buffer | undefined
+): ExecutableInfo | undefined {
+  if (header.length < 20) {
+    return header.subarray(0, 2).toString('latin1') === '#!'
+      ? { format: 'script', size }
+      : undefined;
+  }
+  // ELF: e_type and e_machine follow the 16-byte identification, in the file's byte order
+  if (header.readUInt32BE(0) === 0x7f454c46) {
+    const littleEndian = header[5] === 1;
+    const type = littleEndian ? header.readUInt16LE(16) : header.readUInt16BE(16);
+    const machine = littleEndian ? header.readUInt16LE(18) : header.readUInt16BE(18);
+    // Position-independent executables are ET_DYN like shared libraries, so go by name too
+    if ((type !== 2 && type !== 3) || /\.so(\.\d+)*$/.test(path)) {
+      return undefined;
+    }
+    return { format: 'elf', os: 'linux', arch: ELF_MACHINES[machine], size };
+  }
+  // PE: the DOS header points to the PE signature and COFF header
+  if (header.readUInt16LE(0) === 0x5a4d) {
+    if (!coff || coff.length < 24 || coff.readUInt32LE(0) !== 0x00004550) {
+      return undefined;
+    }
+    if (coff.readUInt16LE(22) & PE_DLL_FLAG) {
+      return undefined;
+    }
+    return { format: 'pe', os: 'windows', arch: PE_MACHINES[coff.readUInt16LE(4)], size };
+  }
+  const magic = header.readUInt32BE(0);
+  if (magic === 0xcafebabe) {
+    return { format: 'macho', os: 'macos', arch: 'universal', size };
+  }
+  if (magic === 0xfeedface || magic === 0xfeedfacf) {
+    return { format: 'macho', os: 'macos', arch: MACHO_CPU_TYPES[header.readUInt32BE(4)], size };
+  }
+  if (magic === 0xcefaedfe || magic === 0xcffaedfe) {
+    return { format: 'macho', os: 'macos', arch: MACHO_CPU_TYPES[header.readUInt32LE(4)], size };
+  }
+  if (header.subarray(0, 2).toString('latin1') === '#!') {
+    return { format: 'script', size };
+  }
+  return undefined;
+}
@@ -1,55 +1,760 @@
-import { join, normalize } from 'path';
-import { existsSync, readFileSync } from 'fs';
+import { basename, dirname, join, normalize, resolve as resolvePath } from 'path';
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statfsSync,
+  writeFileSync,
+} from 'fs';
+import { copyFile, mkdir, readFile, rename, statfs, writeFile } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import { platform } from 'os';
+import { SteamRunningError } from './errors';
+import type {
+  SteamLibrary,
+  SteamLibraryAddOptions,
+  SteamLibraryFolderIndex,
+  SteamLibraryRemoveOptions,
+  VdfObject,
+} from './types';
+import { findSteamPath, findSteamPathSync } from './steam-path';
+import { isSteamRunning, isSteamRunningSync } from './steam-process';
+import { listDirectory, listDirectorySync, pathExists } from './async-utils';
+import { editVdf, getVdfNumber, getVdfObject, getVdfString, parseVdf, stringifyVdf } from './vdf';
+
+/** A library listed in libraryfolders.vdf */
+interface LibraryEntry {
+  /** Key of the entry in libraryfolders.vdf */
+  index: string;
+  folderPath: string;
+  steamAppsPath: string;
+  entry: VdfObject;
+  isDefault: boolean;
+}
+
+/** Whether a library's folder is reachable, and the space on its filesystem */
+interface LibrarySpace {
+  isAvailable: boolean;
+  freeBytes?: number | undefined;
+  totalBytes?: number | undefined;
+}
 
 /**
  * Get Steam library folders
  */
 export async function getLibraryFolders(steamPath: string): Promise<string[]> {
-  return new Promise(resolve => {
+  return (await getLibraryFolderIndex(steamPath)).folders;
+}
+
+/**
+ * Synchronous version of getLibraryFolders
+ */
+export function getLibraryFoldersSync(steamPath: string): string[] {
+  return getLibraryFolderIndexSync(steamPath).folders;
+}
+
+/**
+ * Get the library folders and the app-to-library map from a single read of libraryfolders.vdf
+ * @param steamPath Steam installation path
+ * @returns Promise resolving to the library steamapps folders that exist, Steam's own first, and
+ * the library steamapps folder of each app listed in the `apps` sections
+ */
+export async function getLibraryFolderIndex(steamPath: string): Promise<SteamLibraryFolderIndex> {
+  try {
+    // Add main Steam apps folder
+    const mainAppsFolder = join(steamPath, 'steamapps');
+    const mainExists = await pathExists(mainAppsFolder);
+    // Read library folders VDF file
+    let folders: VdfObject | undefined;
     try {
-      const folders = getLibraryFoldersSync(steamPath);
-      resolve(folders);
+      folders = parseLibraryFoldersSection(
+        await readFile(join(mainAppsFolder, 'libraryfolders.vdf'), 'utf8')
+      );
     } catch {
-      resolve([]);
+      // Missing or unparseable VDF, return main folder only
     }
-  });
+    const libraryPaths = getLibraryFolderPaths(folders).map(folderPath =>
+      normalize(join(folderPath, 'steamapps'))
+    );
+    const available = await Promise.all(libraryPaths.map(pathExists));
+    return {
+      folders: collectLibraryFolders(
+        mainExists ? normalize(mainAppsFolder) : undefined,
+        libraryPaths.filter((_, i) => available[i])
+      ),
+      index: buildLibraryAppIndex(folders),
+    };
+  } catch {
+    return { folders: [], index: new Map() };
+  }
 }
 
 /**
- * Synchronous version of getLibraryFolders
+ * Synchronous version of getLibraryFolderIndex
+ * @param steamPath Steam installation path
+ * @returns The library steamapps folders that exist, Steam's own first, and the library
+ * steamapps folder of each app listed in the `apps` sections
  */
-export function getLibraryFoldersSync(steamPath: string): string[] {
+export function getLibraryFolderIndexSync(steamPath: string): SteamLibraryFolderIndex {
   try {
-    const libraryFolders: string[] = [];
     // Add main Steam apps folder
     const mainAppsFolder = join(steamPath, 'steamapps');
-    if (existsSync(mainAppsFolder)) {
-      libraryFolders.push(normalize(mainAppsFolder));
+    // Read library folders VDF file, once for both the folders and the index
+    const folders = readLibraryFoldersSectionSync(steamPath);
+    const libraryPaths = getLibraryFolderPaths(folders)
+      .map(folderPath => normalize(join(folderPath, 'steamapps')))
+      .filter(libraryPath => existsSync(libraryPath));
+    return {
+      folders: collectLibraryFolders(
+        existsSync(mainAppsFolder) ? normalize(mainAppsFolder) : undefined,
+        libraryPaths
+      ),
+      index: buildLibraryAppIndex(folders),
+    };
+  } catch {
+    return { folders: [], index: new Map() };
+  }
+}
+
+/**
+ * Get the Steam library folders with their metadata, installed apps and disk space
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to the libraries, the default install target first
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getSteamLibraries(steamPath?: string): Promise<SteamLibrary[]> {
+  const actualSteamPath = steamPath || (await findSteamPath());
+  const entries = getLibraryEntries(
+    actualSteamPath,
+    await readLibraryFoldersSection(actualSteamPath)
+  );
+  const space = await Promise.all(entries.map(entry => getLibrarySpace(entry.steamAppsPath)));
+  return entries.map((entry, i) => toSteamLibrary(entry, space[i] ?? { isAvailable: false }));
+}
+
+/**
+ * Synchronous version of getSteamLibraries
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns The libraries, the default install target first
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getSteamLibrariesSync(steamPath?: string): SteamLibrary[] {
+  const actualSteamPath = steamPath || findSteamPathSync();
+  return getLibraryEntries(actualSteamPath, readLibraryFoldersSectionSync(actualSteamPath)).map(
+    entry => toSteamLibrary(entry, getLibrarySpaceSync(entry.steamAppsPath))
+  );
+}
+
+/**
+ * Add a library folder: its steamapps folder and libraryfolder.vdf marker are created and it is
+ * listed in libraryfolders.vdf under the next free key, with the content ID of the existing
+ * libraries. libraryfolders.vdf is backed up first
+ * @param libraryPath Library root directory, such as `D:\\SteamLibrary`
+ * @param options Steam path and label of the library
+ * @returns Promise resolving to the added library
+ * @throws {SteamRunningError} When the Steam client is running
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ * @throws {Error} When the folder is already a library or libraryfolders.vdf is missing
+ */
+export async function addSteamLibrary(
+  libraryPath: string,
+  options: SteamLibraryAddOptions = {}
+): Promise<SteamLibrary> {
+  await ensureSteamClosed();
+  const actualSteamPath = options.steamPath || (await findSteamPath());
+  const root = toLibraryRoot(libraryPath);
+  const steamAppsPath = join(root, 'steamapps');
+  const contentId = getNewLibraryContentId(
+    actualSteamPath,
+    root,
+    await readLibraryFoldersSection(actualSteamPath)
+  );
+  const label = options.label ?? '';
+  await mkdir(steamAppsPath, { recursive: true });
+  await writeFile(
+    join(root, 'libraryfolder.vdf'),
+    stringifyVdf({ libraryfolder: { contentid: contentId, label } })
+  );
+  let key = '';
+  await updateLibraryFolders(actualSteamPath, section => {
+    key = addLibraryEntry(section, root, label, contentId);
+  });
+  return findAddedLibrary(await getSteamLibraries(actualSteamPath), key, root);
+}
+
+/**
+ * Synchronous version of addSteamLibrary
+ * @param libraryPath Library root directory, such as `D:\\SteamLibrary`
+ * @param options Steam path and label of the library
+ * @returns The added library
+ * @throws {SteamRunningError} When the Steam client is running
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ * @throws {Error} When the folder is already a library or libraryfolders.vdf is missing
+ */
+export function addSteamLibrarySync(
+  libraryPath: string,
+  options: SteamLibraryAddOptions = {}
+): SteamLibrary {
+  ensureSteamClosedSync();
+  const actualSteamPath = options.steamPath || findSteamPathSync();
+  const root = toLibraryRoot(libraryPath);
+  const steamAppsPath = join(root, 'steamapps');
+  const contentId = getNewLibraryContentId(
+    actualSteamPath,
+    root,
+    readLibraryFoldersSectionSync(actualSteamPath)
+  );
+  const label = options.label ?? '';
+  mkdirSync(steamAppsPath, { recursive: true });
+  writeFileSync(
+    join(root, 'libraryfolder.vdf'),
+    stringifyVdf({ libraryfolder: { contentid: contentId, label } })
+  );
+  let key = '';
+  updateLibraryFoldersSync(actualSteamPath, section => {
+    key = addLibraryEntry(section, root, label, contentId);
+  });
+  return findAddedLibrary(getSteamLibrariesSync(actualSteamPath), key, root);
+}
+
+/**
+ * Remove a library folder from libraryfolders.vdf, renumbering the libraries after it.
+ * libraryfolders.vdf is backed up first. The folder and the games in it are left on disk
+ * @param libraryPath Library root directory or its steamapps folder
+ * @param options Steam path, and force to remove a library that still holds installed apps
+ * @returns Promise resolving to true if the library was removed, false if it was not listed
+ * @throws {SteamRunningError} When the Steam client is running
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ * @throws {Error} When the library is Steam's own folder, or holds installed apps without force
+ */
+export async function removeSteamLibrary(
+  libraryPath: string,
+  options: SteamLibraryRemoveOptions = {}
+): Promise<boolean> {
+  await ensureSteamClosed();
+  const actualSteamPath = options.steamPath || (await findSteamPath());
+  const steamAppsPath = getRemovableSteamAppsPath(actualSteamPath, libraryPath);
+  const folders = await readLibraryFoldersSection(actualSteamPath);
+  const key = folders && findLibraryKey(folders, steamAppsPath);
+  if (!folders || key === undefined) {
+    return false;
+  }
+  if (!options.force) {
+    // Empty when the library drive is not connected, relying on libraryfolders.vdf
+    ensureLibraryEmpty(steamAppsPath, folders, key, await listDirectory(steamAppsPath));
+  }
+  await updateLibraryFolders(actualSteamPath, section =>
+    removeLibraryEntry(section, steamAppsPath)
+  );
+  return true;
+}
+
+/**
+ * Synchronous version of removeSteamLibrary
+ * @param libraryPath Library root directory or its steamapps folder
+ * @param options Steam path, and force to remove a library that still holds installed apps
+ * @returns True if the library was removed, false if it was not listed
+ * @throws {SteamRunningError} When the Steam client is running
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ * @throws {Error} When the library is Steam's own folder, or holds installed apps without force
+ */
+export function removeSteamLibrarySync(
+  libraryPath: string,
+  options: SteamLibraryRemoveOptions = {}
+): boolean {
+  ensureSteamClosedSync();
+  const actualSteamPath = options.steamPath || findSteamPathSync();
+  const steamAppsPath = getRemovableSteamAppsPath(actualSteamPath, libraryPath);
+  const folders = readLibraryFoldersSectionSync(actualSteamPath);
+  const key = folders && findLibraryKey(folders, steamAppsPath);
+  if (!folders || key === undefined) {
+    return false;
+  }
+  if (!options.force) {
+    // Empty when the library drive is not connected, relying on libraryfolders.vdf
+    ensureLibraryEmpty(steamAppsPath, folders, key, listDirectorySync(steamAppsPath));
+  }
+  updateLibraryFoldersSync(actualSteamPath, section => removeLibraryEntry(section, steamAppsPath));
+  return true;
+}
+
+/**
+ * Whether two library folder paths name the same folder, ignoring case on Windows
+ * @param a Library root or steamapps folder
+ * @param b Library root or steamapps folder of the same kind
+ */
+export function isSameLibraryPath(a: string, b: string): boolean {
+  const strip = (path: string) => normalize(path).replace(/[\\/]+$/, '');
+  return platform() === 'win32'
+    ? strip(a).toLowerCase() === strip(b).toLowerCase()
+    : strip(a) === strip(b);
+}
+
+/**
+ * Map each app listed in the `apps` sections of libraryfolders.vdf to its library's steamapps
+ * folder, so lookups can go straight to the right library. Steam updates the map as apps are
+ * installed and moved, but it can lag behind the manifests on disk
+ * @param steamPath Steam installation path
+ * @returns Promise resolving to the library steamapps folder by app ID, empty if
+ * libraryfolders.vdf cannot be read
+ */
+export async function getLibraryAppIndex(steamPath: string): Promise<Map<string, string>> {
+  return (await getLibraryFolderIndex(steamPath)).index;
+}
+
+/**
+ * Synchronous version of getLibraryAppIndex
+ * @param steamPath Steam installation path
+ * @returns Library steamapps folder by app ID, empty if libraryfolders.vdf cannot be read
+ */
+export function getLibraryAppIndexSync(steamPath: string): Map<string, string> {
+  return getLibraryFolderIndexSync(steamPath).index;
+}
+
+/**
+ * Order library folders for finding an app, starting with the one libraryfolders.vdf lists it in
+ * @param appId Steam App ID to look for
+ * @param folders Library steamapps folders, as returned by getLibraryFolderIndex
+ * @param index Library steamapps folder by app ID, as returned by getLibraryFolderIndex
+ * @returns The folders, the indexed one first if it is among them
+ */
+export function getAppSearchOrder(
+  appId: string,
+  folders: string[],
+  index: Map<string, string>
+): string[] {
+  const indexed = index.get(appId);
+  return indexed && folders.includes(indexed)
+    ? [indexed, ...folders.filter(folder => folder !== indexed)]
+    : folders;
+}
+
+/**
+ * Edit libraryfolders.vdf in place. Only the entries the callback changes are edited in the
+ * text, so the rest of the file is kept byte for byte. The file is written through a temporary
+ * file, and the version from before the first edit is kept as libraryfolders.vdf.bak
+ * @param steamPath Steam installation path
+ * @param update Called with the libraryfolders section to modify
+ * @returns Promise resolving to whether libraryfolders.vdf existed and was updated
+ * @throws {VdfParseError} When libraryfolders.vdf is malformed
+ */
+export async function updateLibraryFolders(
+  steamPath: string,
+  update: (folders: VdfObject) => void
+): Promise<boolean> {
+  const vdfPath = join(steamPath, 'steamapps', 'libraryfolders.vdf');
+  if (!(await pathExists(vdfPath))) {
+    return false;
+  }
+  const text = await readFile(vdfPath, 'utf8');
+  const edited = editLibraryFolders(text, update);
+  if (edited === text) {
+    return true;
+  }
+  const backupPath = `${vdfPath}.bak`;
+  if (!(await pathExists(backupPath))) {
+    await copyFile(vdfPath, backupPath);
+  }
+  const tempPath = `${vdfPath}.tmp`;
+  await writeFile(tempPath, edited);
+  await rename(tempPath, vdfPath);
+  return true;
+}
+
+/**
+ * Synchronous version of updateLibraryFolders
+ * @param steamPath Steam installation path
+ * @param update Called with the libraryfolders section to modify
+ * @returns Whether libraryfolders.vdf existed and was updated
+ * @throws {VdfParseError} When libraryfolders.vdf is malformed
+ */
+export function updateLibraryFoldersSync(
+  steamPath: string,
+  update: (folders: VdfObject) => void
+): boolean {
+  const vdfPath = join(steamPath, 'steamapps', 'libraryfolders.vdf');
+  if (!existsSync(vdfPath)) {
+    return false;
+  }
+  const text = readFileSync(vdfPath, 'utf8');
+  const edited = editLibraryFolders(text, update);
+  if (edited === text) {
+    return true;
+  }
+  const backupPath = `${vdfPath}.bak`;
+  if (!existsSync(backupPath)) {
+    copyFileSync(vdfPath, backupPath);
+  }
+  const tempPath = `${vdfPath}.tmp`;
+  writeFileSync(tempPath, edited);
+  renameSync(tempPath, vdfPath);
+  return true;
+}
+
+function editLibraryFolders(text: string, update: (folders: VdfObject) => void): string {
+  return editVdf(text, root => update(getVdfObject(root, 'libraryfolders') ?? root));
+}
+
+/**
+ * Build the app-to-library map from the libraryfolders section
+ */
+function buildLibraryAppIndex(folders: VdfObject | undefined): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const key of Object.keys(folders ?? {})) {
+    const entry = getVdfObject(folders, key);
+    const folderPath = getVdfString(entry, 'path');
+    const apps = getVdfObject(entry, 'apps');
+    if (!/^\d+$/.test(key) || !folderPath || !apps) {
+      continue;
     }
-    // Read library folders VDF file
-    const libraryFoldersVdf = join(steamPath, 'steamapps', 'libraryfolders.vdf');
-    if (existsSync(libraryFoldersVdf)) {
-      try {
-        const content = readFileSync(libraryFoldersVdf, 'utf8');
-        // Parse VDF format to find library paths
-        const pathMatches = content.match(/"path"\s*"([^"]+)"/g);
-        if (pathMatches) {
-          for (const match of pathMatches) {
-            const pathMatch = match.match(/"path"\s*"([^"]+)"/);
-            if (pathMatch && pathMatch[1]) {
-              const libraryPath = normalize(join(pathMatch[1].replace(/\\\\/g, '\\'), 'steamapps'));
-              if (existsSync(libraryPath) && !libraryFolders.includes(libraryPath)) {
-                libraryFolders.push(libraryPath);
-              }
-            }
-          }
-        }
-      } catch {
-        // VDF parsing failed, return main folder only
+    const steamAppsPath = normalize(join(folderPath, 'steamapps'));
+    for (const appId of Object.keys(apps)) {
+      if (!index.has(appId)) {
+        index.set(appId, steamAppsPath);
       }
     }
-    return libraryFolders;
+  }
+  return index;
+}
+
+/**
+ * Find the key of the libraryfolders.vdf entry for a library's steamapps folder
+ */
+function findLibraryKey(folders: VdfObject, steamAppsPath: string): string | undefined {
+  return Object.keys(folders).find(key => {
+    const entry = folders[key];
+    const folderPath = typeof entry === 'string' ? entry : getVdfString(entry, 'path');
+    return (
+      /^\d+$/.test(key) &&
+      folderPath !== undefined &&
+      isSameLibraryPath(join(folderPath, 'steamapps'), steamAppsPath)
+    );
+  });
+}
+
+/**
+ * Get the absolute library root for a path naming the library or its steamapps folder
+ */
+function toLibraryRoot(libraryPath: string): string {
+  const absolute = resolvePath(libraryPath);
+  return basename(absolute).toLowerCase() === 'steamapps' ? dirname(absolute) : absolute;
+}
+
+async function ensureSteamClosed(): Promise<void> {
+  if (await isSteamRunning()) {
+    throw steamRunning();
+  }
+}
+
+function ensureSteamClosedSync(): void {
+  if (isSteamRunningSync()) {
+    throw steamRunning();
+  }
+}
+
+function steamRunning(): SteamRunningError {
+  return new SteamRunningError('Steam must be closed before modifying libraryfolders.vdf');
+}
+
+/**
+ * Get the content ID a new library is listed with: the one every library of an installation
+ * shares, or a new one
+ * @throws {Error} When the folder is already a library or libraryfolders.vdf is missing
+ */
+function getNewLibraryContentId(
+  steamPath: string,
+  root: string,
+  folders: VdfObject | undefined
+): string {
+  if (!folders) {
+    throw new Error(`libraryfolders.vdf not found in ${join(steamPath, 'steamapps')}`);
+  }
+  if (findLibraryKey(folders, join(root, 'steamapps')) !== undefined) {
+    throw new Error(`${root} is already a Steam library`);
+  }
+  return (
+    Object.keys(folders)
+      .map(key => getVdfString(folders, key, 'contentid'))
+      .find(id => id && id !== '0') ?? BigInt(`0x${randomBytes(8).toString('hex')}`).toString()
+  );
+}
+
+/**
+ * List a library under the next free key
+ * @returns The key of the new entry
+ */
+function addLibraryEntry(
+  section: VdfObject,
+  root: string,
+  label: string,
+  contentId: string
+): string {
+  const keys = Object.keys(section).filter(k => /^\d+$/.test(k));
+  const key = String(keys.reduce((next, k) => Math.max(next, Number(k) + 1), 0));
+  section[key] = {
+    path: root,
+    label,
+    contentid: contentId,
+    totalsize: '0',
+    update_clean_bytes_tally: '0',
+    time_last_update_verified: '0',
+    apps: {},
+  };
+  return key;
+}
+
+/**
+ * @throws {Error} When the library was not added to libraryfolders.vdf
+ */
+function findAddedLibrary(libraries: SteamLibrary[], key: string, root: string): SteamLibrary {
+  const added = libraries.find(library => library.index === key);
+  if (!added) {
+    throw new Error(`${root} was not added to libraryfolders.vdf`);
+  }
+  return added;
+}
+
+/**
+ * Get the steamapps folder of a library to remove
+ * @throws {Error} When the library is Steam's own folder
+ */
+function getRemovableSteamAppsPath(steamPath: string, libraryPath: string): string {
+  const steamAppsPath = join(toLibraryRoot(libraryPath), 'steamapps');
+  if (isSameLibraryPath(steamAppsPath, join(steamPath, 'steamapps'))) {
+    throw new Error('The library in the Steam folder cannot be removed');
+  }
+  return steamAppsPath;
+}
+
+/**
+ * @param files Entries of the library's steamapps folder
+ * @throws {Error} When libraryfolders.vdf or the folder lists installed apps
+ */
+function ensureLibraryEmpty(
+  steamAppsPath: string,
+  folders: VdfObject,
+  key: string,
+  files: string[]
+): void {
+  const appIds = new Set(Object.keys(getVdfObject(folders, key, 'apps') ?? {}));
+  for (const file of files) {
+    const appId = file.match(/^appmanifest_(\d+)\.acf$/)?.[1];
+    if (appId) {
+      appIds.add(appId);
+    }
+  }
+  if (appIds.size > 0) {
+    throw new Error(
+      `${dirname(steamAppsPath)} still holds installed apps (${[...appIds].join(', ')}); move or uninstall them first`
+    );
+  }
+}
+
+/**
+ * Drop a library from the libraryfolders section, renumbering the libraries after it
+ */
+function removeLibraryEntry(section: VdfObject, steamAppsPath: string): void {
+  const removeKey = findLibraryKey(section, steamAppsPath);
+  const keys = Object.keys(section).filter(k => /^\d+$/.test(k));
+  const remaining = keys.flatMap(k => {
+    const entry = section[k];
+    return k !== removeKey && entry !== undefined ? [entry] : [];
+  });
+  for (const k of keys) {
+    delete section[k];
+  }
+  // Steam numbers the libraries consecutively
+  remaining.forEach((entry, i) => {
+    section[String(i)] = entry;
+  });
+}
+
+/**
+ * Read the libraryfolders section of libraryfolders.vdf
+ */
+async function readLibraryFoldersSection(steamPath: string): Promise<VdfObject | undefined> {
+  try {
+    return parseLibraryFoldersSection(
+      await readFile(join(steamPath, 'steamapps', 'libraryfolders.vdf'), 'utf8')
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Synchronous version of readLibraryFoldersSection
+ */
+function readLibraryFoldersSectionSync(steamPath: string): VdfObject | undefined {
+  try {
+    return parseLibraryFoldersSection(
+      readFileSync(join(steamPath, 'steamapps', 'libraryfolders.vdf'), 'utf8')
+    );
   } catch {
-    return [];
+    return undefined;
+  }
+}
+
+/**
+ * Parse libraryfolders.vdf and return its libraryfolders section
+ */
+function parseLibraryFoldersSection(content: string): VdfObject {
+  const root = parseVdf(content);
+  return getVdfObject(root, 'libraryfolders') ?? root;
+}
+
+/**
+ * Get the library root paths listed in the libraryfolders section, in order
+ */
+function getLibraryFolderPaths(folders: VdfObject | undefined): string[] {
+  const folderPaths: string[] = [];
+  for (const key of Object.keys(folders ?? {})) {
+    if (!/^\d+$/.test(key)) {
+      continue;
+    }
+    // Current format nests the path in a section, the legacy format stores it directly
+    const entry = folders?.[key];
+    const folderPath = typeof entry === 'string' ? entry : getVdfString(entry, 'path');
+    if (folderPath) {
+      folderPaths.push(folderPath);
+    }
+  }
+  return folderPaths;
+}
+
+/**
+ * Put Steam's own steamapps folder first, followed by the other libraries without duplicates
+ */
+function collectLibraryFolders(
+  mainAppsFolder: string | undefined,
+  libraryPaths: string[]
+): string[] {
+  const libraryFolders = mainAppsFolder ? [mainAppsFolder] : [];
+  for (const libraryPath of libraryPaths) {
+    if (!libraryFolders.includes(libraryPath)) {
+      libraryFolders.push(libraryPath);
+    }
+  }
+  return libraryFolders;
+}
+
+/**
+ * List the libraries in the libraryfolders section, Steam's own first. Without a readable
+ * libraryfolders.vdf only the main library is listed
+ */
+function getLibraryEntries(steamPath: string, folders: VdfObject | undefined): LibraryEntry[] {
+  const mainAppsFolder = normalize(join(steamPath, 'steamapps'));
+  const entries: LibraryEntry[] = [];
+  for (const key of Object.keys(folders ?? {})) {
+    if (!/^\d+$/.test(key)) {
+      continue;
+    }
+    const entry = folders?.[key];
+    const folderPath = typeof entry === 'string' ? entry : getVdfString(entry, 'path');
+    if (!folderPath) {
+      continue;
+    }
+    const steamAppsPath = normalize(join(folderPath, 'steamapps'));
+    if (!entries.some(library => library.steamAppsPath === steamAppsPath)) {
+      entries.push({
+        index: key,
+        folderPath,
+        steamAppsPath,
+        entry: typeof entry === 'object' ? entry : {},
+        isDefault: false,
+      });
+    }
+  }
+  // Steam installs to its own folder's library unless the user picks another in the dialog
+  const mainIndex = entries.findIndex(library => library.steamAppsPath === mainAppsFolder);
+  const main =
+    mainIndex === -1
+      ? {
+          index: '0',
+          folderPath: steamPath,
+          steamAppsPath: mainAppsFolder,
+          entry: {},
+          isDefault: false,
+        }
+      : entries.splice(mainIndex, 1)[0];
+  if (main) {
+    main.isDefault = true;
+    entries.unshift(main);
+  }
+  return entries;
+}
+
+/**
+ * Read whether a library's folder is reachable and the space on its filesystem
+ */
+async function getLibrarySpace(steamAppsPath: string): Promise<LibrarySpace> {
+  if (!(await pathExists(steamAppsPath))) {
+    return { isAvailable: false };
+  }
+  // statfs is only available from Node 18.15
+  if (typeof statfs === 'function') {
+    try {
+      return toLibrarySpace(await statfs(steamAppsPath));
+    } catch {
+      // Filesystem does not report its size
+    }
+  }
+  return { isAvailable: true };
+}
+
+/**
+ * Synchronous version of getLibrarySpace
+ */
+function getLibrarySpaceSync(steamAppsPath: string): LibrarySpace {
+  if (!existsSync(steamAppsPath)) {
+    return { isAvailable: false };
+  }
+  // statfs is only available from Node 18.15
+  if (typeof statfsSync === 'function') {
+    try {
+      return toLibrarySpace(statfsSync(steamAppsPath));
+    } catch {
+      // Filesystem does not report its size
+    }
+  }
+  return { isAvailable: true };
+}
+
+function toLibrarySpace(stats: { bavail: number; blocks: number; bsize: number }): LibrarySpace {
+  return {
+    isAvailable: true,
+    freeBytes: stats.bavail * stats.bsize,
+    totalBytes: stats.blocks * stats.bsize,
+  };
+}
+
+/**
+ * Build a library from its libraryfolders.vdf entry and the filesystem holding it
+ */
+function toSteamLibrary(
+  { index, folderPath, steamAppsPath, entry, isDefault }: LibraryEntry,
+  { isAvailable, freeBytes, totalBytes }: LibrarySpace
+): SteamLibrary {
+  const apps: Record<string, number> = {};
+  const appsSection = getVdfObject(entry, 'apps');
+  for (const appId of Object.keys(appsSection ?? {})) {
+    apps[appId] = getVdfNumber(appsSection, appId) ?? 0;
   }
+  return {
+    path: normalize(folderPath),
+    steamAppsPath,
+    index,
+    label: getVdfString(entry, 'label') || undefined,
+    contentId: getVdfString(entry, 'contentid'),
+    totalSize: getVdfNumber(entry, 'totalsize'),
+    updateCleanBytesTally: getVdfNumber(entry, 'update_clean_bytes_tally'),
+    apps,
+    appsSizeOnDisk: Object.values(apps).reduce((total, size) => total + size, 0),
+    freeBytes,
+    totalBytes,
+    isAvailable,
+    isDefault,
+  };
 }
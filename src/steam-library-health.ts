@@ -0,0 +1,494 @@
+import { dirname, join } from 'path';
+import { existsSync, lstatSync, rmSync } from 'fs';
+import { lstat, rm } from 'fs/promises';
+import { platform } from 'os';
+import type {
+  SteamAppManifest,
+  SteamLibraryCleanupOptions,
+  SteamLibraryCleanupResult,
+  SteamLibraryHealth,
+  SteamLibraryIssue,
+  SteamLibraryIssueType,
+  VdfObject,
+} from './types';
+import { SteamRunningError } from './errors';
+import { findSteamPath, findSteamPathSync } from './steam-path';
+import {
+  getLibraryFolders,
+  getLibraryFoldersSync,
+  isSameLibraryPath,
+  updateLibraryFolders,
+  updateLibraryFoldersSync,
+} from './steam-libraries';
+import { readSteamAppManifest, readSteamAppManifestSync } from './steam-apps';
+import { isSteamRunning, isSteamRunningSync } from './steam-process';
+import { getVdfObject, getVdfString } from './vdf';
+import { listDirectory, listDirectorySync, mapWithConcurrency, pathExists } from './async-utils';
+
+const MANIFEST_PATTERN = /^appmanifest_(\d+)\.acf$/;
+/** Non-Steam shortcuts have the high bit of their app ID set; their prefixes are not stale */
+const SHORTCUT_APP_ID_MIN = 0x80000000;
+/** Folders of a library whose entries are checked */
+const LIBRARY_SUBFOLDERS = ['common', 'downloading', 'temp', 'shadercache', 'compatdata'] as const;
+/** Maximum number of manifests read or issues measured at once by the async functions */
+const SCAN_CONCURRENCY = 16;
+
+type LibrarySubfolder = (typeof LIBRARY_SUBFOLDERS)[number];
+
+interface LibraryManifests {
+  manifests: SteamAppManifest[];
+  /** Manifests that cannot be parsed or name no install folder, by app ID */
+  unreadable: Map<string, string>;
+}
+
+/** What a library holds, read once for the checks */
+interface LibraryContents extends LibraryManifests {
+  /** App IDs of the manifests whose install folder is missing */
+  missingInstallDirs: Set<string>;
+  /** Entries of each checked folder, empty if it does not exist */
+  entries: Record<LibrarySubfolder, string[]>;
+}
+
+/**
+ * Check every library for leftovers and broken installs: folders in `common` that no manifest
+ * owns, manifests whose install folder is missing, manifests that cannot be read, content left in
+ * `downloading` and `temp` by apps that are not being updated, and `shadercache` and `compatdata`
+ * entries of apps that are no longer installed in any library. A library with an unreadable
+ * manifest reports no orphaned folders, since the folder that manifest owns is unknown
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to a report per library
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function scanLibraryHealth(steamPath?: string): Promise<SteamLibraryHealth[]> {
+  const actualSteamPath = steamPath || (await findSteamPath());
+  const libraryFolders = await getLibraryFolders(actualSteamPath);
+  const contents = await Promise.all(libraryFolders.map(readLibraryContents));
+  const installedAppIds = getInstalledAppIds(contents);
+  return Promise.all(
+    libraryFolders.map(async (libraryFolder, i) => {
+      const issues = findLibraryIssues(libraryFolder, contents[i], installedAppIds);
+      const sizes = await mapWithConcurrency(issues, SCAN_CONCURRENCY, issue =>
+        isMeasured(issue) ? getDiskUsage(issue.path) : Promise.resolve(0)
+      );
+      return toLibraryHealth(libraryFolder, issues, sizes);
+    })
+  );
+}
+
+/**
+ * Synchronous version of scanLibraryHealth
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns A report per library
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function scanLibraryHealthSync(steamPath?: string): SteamLibraryHealth[] {
+  const actualSteamPath = steamPath || findSteamPathSync();
+  const libraryFolders = getLibraryFoldersSync(actualSteamPath);
+  const contents = libraryFolders.map(readLibraryContentsSync);
+  const installedAppIds = getInstalledAppIds(contents);
+  return libraryFolders.map((libraryFolder, i) => {
+    const issues = findLibraryIssues(libraryFolder, contents[i], installedAppIds);
+    const sizes = issues.map(issue => (isMeasured(issue) ? getDiskUsageSync(issue.path) : 0));
+    return toLibraryHealth(libraryFolder, issues, sizes);
+  });
+}
+
+/**
+ * Remove what the given issues point at: orphaned and leftover folders and stale caches are
+ * deleted, and for a missing install folder the manifest is deleted and the app dropped from
+ * libraryfolders.vdf so Steam forgets it. Unreadable manifests are left for Steam to repair.
+ * Pass only the issues to fix. Refuses to run while Steam is running, since the client may be
+ * using the files
+ * @param issues Issues from scanLibraryHealth to fix
+ * @param options Whether to only report what would be removed (dryRun), and the Steam path
+ * @returns Promise resolving to the issues fixed and the bytes freed
+ * @throws {SteamRunningError} When Steam is running and this is not a dry run
+ * @throws {SteamNotFoundError} When a missing install is removed and Steam cannot be found
+ */
+export async function cleanLibraryIssues(
+  issues: SteamLibraryIssue[],
+  options: SteamLibraryCleanupOptions = {}
+): Promise<SteamLibraryCleanupResult> {
+  const dryRun = options.dryRun ?? false;
+  if (!dryRun && (await isSteamRunning())) {
+    throw steamRunning();
+  }
+  const removed: SteamLibraryIssue[] = [];
+  for (const issue of issues) {
+    const target = getCleanupTarget(issue);
+    if (!target || !(await pathExists(target))) {
+      continue;
+    }
+    if (!dryRun) {
+      await rm(target, { recursive: true, force: true });
+    }
+    removed.push(issue);
+  }
+  const forgotten = removed.filter(issue => issue.type === 'missingInstallDir');
+  if (!dryRun && forgotten.length > 0) {
+    await updateLibraryFolders(
+      options.steamPath || (await findSteamPath()),
+      removeLibraryApps(forgotten)
+    );
+  }
+  return toCleanupResult(removed, dryRun);
+}
+
+/**
+ * Synchronous version of cleanLibraryIssues
+ * @param issues Issues from scanLibraryHealth to fix
+ * @param options Whether to only report what would be removed (dryRun), and the Steam path
+ * @returns The issues fixed and the bytes freed
+ * @throws {SteamRunningError} When Steam is running and this is not a dry run
+ * @throws {SteamNotFoundError} When a missing install is removed and Steam cannot be found
+ */
+export function cleanLibraryIssuesSync(
+  issues: SteamLibraryIssue[],
+  options: SteamLibraryCleanupOptions = {}
+): SteamLibraryCleanupResult {
+  const dryRun = options.dryRun ?? false;
+  if (!dryRun && isSteamRunningSync()) {
+    throw steamRunning();
+  }
+  const removed: SteamLibraryIssue[] = [];
+  for (const issue of issues) {
+    const target = getCleanupTarget(issue);
+    if (!target || !existsSync(target)) {
+      continue;
+    }
+    if (!dryRun) {
+      rmSync(target, { recursive: true, force: true });
+    }
+    removed.push(issue);
+  }
+  const forgotten = removed.filter(issue => issue.type === 'missingInstallDir');
+  if (!dryRun && forgotten.length > 0) {
+    updateLibraryFoldersSync(
+      options.steamPath || findSteamPathSync(),
+      removeLibraryApps(forgotten)
+    );
+  }
+  return toCleanupResult(removed, dryRun);
+}
+
+function steamRunning(): SteamRunningError {
+  return new SteamRunningError('Steam must be closed before cleaning up libraries');
+}
+
+/**
+ * Get what to delete for an issue: the manifest of a missing install, else the path itself.
+ * Unreadable manifests are left for Steam to repair
+ */
+function getCleanupTarget(issue: SteamLibraryIssue): string | undefined {
+  if (issue.type === 'unreadableManifest') {
+    return undefined;
+  }
+  return issue.type === 'missingInstallDir' ? issue.manifestPath : issue.path;
+}
+
+function toCleanupResult(removed: SteamLibraryIssue[], dryRun: boolean): SteamLibraryCleanupResult {
+  return {
+    removed,
+    reclaimedBytes: removed.reduce((total, issue) => total + issue.sizeBytes, 0),
+    dryRun,
+  };
+}
+
+/**
+ * Build the libraryfolders.vdf update dropping the apps of removed manifests from the `apps`
+ * sections
+ */
+function removeLibraryApps(issues: SteamLibraryIssue[]): (folders: VdfObject) => void {
+  return folders => {
+    for (const key of Object.keys(folders)) {
+      const entry = getVdfObject(folders, key);
+      const folderPath = getVdfString(entry, 'path');
+      const apps = getVdfObject(entry, 'apps');
+      if (!folderPath || !apps) {
+        continue;
+      }
+      const steamAppsPath = join(folderPath, 'steamapps');
+      for (const issue of issues) {
+        if (
+          issue.appId &&
+          issue.manifestPath &&
+          isSameLibraryPath(dirname(issue.manifestPath), steamAppsPath)
+        ) {
+          delete apps[issue.appId];
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Read a library's manifests and the entries of the folders to check
+ */
+async function readLibraryContents(libraryFolder: string): Promise<LibraryContents> {
+  const manifestFiles = getManifestFiles(await listDirectory(libraryFolder));
+  const read = await mapWithConcurrency(manifestFiles, SCAN_CONCURRENCY, ([appId]) =>
+    readSteamAppManifest(appId, [libraryFolder]).catch(() => undefined)
+  );
+  const { manifests, unreadable } = collectManifests(libraryFolder, manifestFiles, read);
+  const [installDirsExist, entries] = await Promise.all([
+    Promise.all(
+      manifests.map(manifest =>
+        isInstallExpected(manifest) ? pathExists(manifest.installDir) : Promise.resolve(true)
+      )
+    ),
+    Promise.all(LIBRARY_SUBFOLDERS.map(name => listDirectory(join(libraryFolder, name)))),
+  ]);
+  return {
+    manifests,
+    unreadable,
+    missingInstallDirs: new Set(manifests.filter((_, i) => !installDirsExist[i]).map(m => m.appId)),
+    entries: toSubfolderEntries(entries),
+  };
+}
+
+/**
+ * Synchronous version of readLibraryContents
+ */
+function readLibraryContentsSync(libraryFolder: string): LibraryContents {
+  const manifestFiles = getManifestFiles(listDirectorySync(libraryFolder));
+  const read = manifestFiles.map(([appId]) => {
+    try {
+      return readSteamAppManifestSync(appId, [libraryFolder]);
+    } catch {
+      return undefined;
+    }
+  });
+  const { manifests, unreadable } = collectManifests(libraryFolder, manifestFiles, read);
+  return {
+    manifests,
+    unreadable,
+    missingInstallDirs: new Set(
+      manifests
+        .filter(manifest => isInstallExpected(manifest) && !existsSync(manifest.installDir))
+        .map(m => m.appId)
+    ),
+    entries: toSubfolderEntries(
+      LIBRARY_SUBFOLDERS.map(name => listDirectorySync(join(libraryFolder, name)))
+    ),
+  };
+}
+
+/**
+ * Pick the app manifests out of a library folder's entries, as app ID and file name
+ */
+function getManifestFiles(files: string[]): [string, string][] {
+  return files.flatMap(file => {
+    const appId = file.match(MANIFEST_PATTERN)?.[1];
+    return appId ? [[appId, file] as [string, string]] : [];
+  });
+}
+
+/**
+ * Sort the manifests read from a library from those that cannot be used
+ * @param read The manifest read for each file, undefined where it could not be parsed
+ */
+function collectManifests(
+  libraryFolder: string,
+  manifestFiles: [string, string][],
+  read: (SteamAppManifest | undefined)[]
+): LibraryManifests {
+  const manifests: SteamAppManifest[] = [];
+  const unreadable = new Map<string, string>();
+  manifestFiles.forEach(([appId, file], i) => {
+    const manifest = read[i];
+    if (manifest?.installDirName) {
+      manifests.push(manifest);
+    } else {
+      // Reported as an issue, Steam will repair or remove it
+      unreadable.set(appId, join(libraryFolder, file));
+    }
+  });
+  return { manifests, unreadable };
+}
+
+/**
+ * Whether a manifest's install folder should exist; queued installs have a manifest before
+ * their folder exists
+ */
+function isInstallExpected(
+  manifest: SteamAppManifest
+): manifest is SteamAppManifest & { installDir: string } {
+  return !!manifest.installDir && !manifest.isUpdating;
+}
+
+function toSubfolderEntries(entries: string[][]): Record<LibrarySubfolder, string[]> {
+  return Object.fromEntries(
+    LIBRARY_SUBFOLDERS.map((name, i) => [name, entries[i] ?? []])
+  ) as Record<LibrarySubfolder, string[]>;
+}
+
+/**
+ * Collect the apps with a manifest in any library, readable or not
+ */
+function getInstalledAppIds(contents: LibraryContents[]): Set<string> {
+  return new Set(
+    contents.flatMap(({ manifests, unreadable }) => [
+      ...manifests.map(m => m.appId),
+      ...unreadable.keys(),
+    ])
+  );
+}
+
+/**
+ * Find the issues in one library, before their size is measured
+ */
+function findLibraryIssues(
+  libraryFolder: string,
+  contents: LibraryContents | undefined,
+  installedAppIds: Set<string>
+): SteamLibraryIssue[] {
+  if (!contents) {
+    return [];
+  }
+  const { manifests, unreadable, missingInstallDirs, entries } = contents;
+  const issues: SteamLibraryIssue[] = [];
+  const toKey = (name: string): string => (platform() === 'win32' ? name.toLowerCase() : name);
+  const ownedDirs = new Set(
+    manifests.flatMap(m => (m.installDirName ? [toKey(m.installDirName)] : []))
+  );
+  const updatingAppIds = new Set(manifests.filter(m => m.isUpdating).map(m => m.appId));
+
+  for (const [appId, manifestPath] of unreadable) {
+    issues.push({ ...toIssue('unreadableManifest', manifestPath, appId), manifestPath });
+  }
+  // Any folder could belong to an unreadable manifest, so none is called orphaned
+  const commonDir = join(libraryFolder, 'common');
+  for (const name of unreadable.size > 0 ? [] : entries.common) {
+    if (!ownedDirs.has(toKey(name))) {
+      issues.push(toIssue('orphanedDirectory', join(commonDir, name)));
+    }
+  }
+  for (const manifest of manifests) {
+    if (manifest.installDir && missingInstallDirs.has(manifest.appId)) {
+      issues.push({
+        ...toIssue('missingInstallDir', manifest.installDir, manifest.appId),
+        manifestPath: manifest.manifestPath,
+      });
+    }
+  }
+  issues.push(
+    ...findLeftovers(
+      join(libraryFolder, 'downloading'),
+      entries.downloading,
+      'leftoverDownload',
+      updatingAppIds
+    ),
+    ...findLeftovers(join(libraryFolder, 'temp'), entries.temp, 'leftoverTemp', updatingAppIds),
+    ...findStaleAppEntries(
+      join(libraryFolder, 'shadercache'),
+      entries.shadercache,
+      'staleShaderCache',
+      installedAppIds
+    ),
+    ...findStaleAppEntries(
+      join(libraryFolder, 'compatdata'),
+      entries.compatdata,
+      'staleCompatData',
+      installedAppIds
+    )
+  );
+  return issues;
+}
+
+/**
+ * Whether fixing an issue frees the space its path takes; manifest issues free none
+ */
+function isMeasured(issue: SteamLibraryIssue): boolean {
+  return issue.type !== 'unreadableManifest' && issue.type !== 'missingInstallDir';
+}
+
+/**
+ * Build a library's report from its issues and their measured sizes
+ */
+function toLibraryHealth(
+  libraryFolder: string,
+  issues: SteamLibraryIssue[],
+  sizes: number[]
+): SteamLibraryHealth {
+  const measured = issues.map((issue, i) => ({ ...issue, sizeBytes: sizes[i] ?? 0 }));
+  return {
+    libraryFolder,
+    issues: measured,
+    reclaimableBytes: measured.reduce((total, issue) => total + issue.sizeBytes, 0),
+  };
+}
+
+/**
+ * Find entries of a staging folder, named by app ID (such as `downloading/570` and
+ * `downloading/state_570_571.patch`), that belong to no app being updated
+ */
+function findLeftovers(
+  dir: string,
+  names: string[],
+  type: SteamLibraryIssueType,
+  updatingAppIds: Set<string>
+): SteamLibraryIssue[] {
+  return names.flatMap(name => {
+    const appId = name.match(/^(?:state_)?(\d+)/)?.[1];
+    return appId && updatingAppIds.has(appId) ? [] : [toIssue(type, join(dir, name), appId)];
+  });
+}
+
+/**
+ * Find per-app folders of apps that are not installed in any library
+ */
+function findStaleAppEntries(
+  dir: string,
+  names: string[],
+  type: SteamLibraryIssueType,
+  installedAppIds: Set<string>
+): SteamLibraryIssue[] {
+  return names.flatMap(name => {
+    const isStale =
+      /^\d+$/.test(name) &&
+      name !== '0' &&
+      Number(name) < SHORTCUT_APP_ID_MIN &&
+      !installedAppIds.has(name);
+    return isStale ? [toIssue(type, join(dir, name), name)] : [];
+  });
+}
+
+function toIssue(type: SteamLibraryIssueType, path: string, appId?: string): SteamLibraryIssue {
+  return { type, path, appId, sizeBytes: 0 };
+}
+
+/**
+ * Total size in bytes of a file or folder, not following symlinks
+ */
+async function getDiskUsage(path: string): Promise<number> {
+  try {
+    const stats = await lstat(path);
+    if (!stats.isDirectory()) {
+      return stats.size;
+    }
+    const sizes = await Promise.all(
+      (await listDirectory(path)).map(name => getDiskUsage(join(path, name)))
+    );
+    return sizes.reduce((total, size) => total + size, 0);
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Synchronous version of getDiskUsage
+ */
+function getDiskUsageSync(path: string): number {
+  try {
+    const stats = lstatSync(path);
+    if (!stats.isDirectory()) {
+      return stats.size;
+    }
+    return listDirectorySync(path).reduce(
+      (total, name) => total + getDiskUsageSync(join(path, name)),
+      0
+    );
+  } catch {
+    return 0;
+  }
+}
@@ -1,41 +1,71 @@
 import { platform } from 'os';
 import { normalize } from 'path';
-import type { SteamLocation, SteamPlatform, SteamApp } from './types';
-import { findSteamPath, findSteamPathSync } from './steam-path';
-import { getLibraryFolders, getLibraryFoldersSync } from './steam-libraries';
+import type {
+  SteamDetectionOptions,
+  SteamLocation,
+  SteamPlatform,
+  SteamApp,
+  SteamAppManifest,
+  InstalledSteamAppsOptions,
+} from './types';
+import {
+  findSteamPath,
+  findSteamPathSync,
+  getSteamInstallation,
+  getSteamInstallationSync,
+} from './steam-path';
+import {
+  getAppSearchOrder,
+  getLibraryFolderIndex,
+  getLibraryFolderIndexSync,
+  getLibraryFolders,
+  getLibraryFoldersSync,
+} from './steam-libraries';
 import { isSteamRunning, isSteamRunningSync } from './steam-process';
 import { getSteamVersion, getSteamVersionSync } from './steam-version';
 import {
   findSteamAppInLibraries,
   findSteamAppInLibrariesSync,
+  findSteamAppsInLibraries,
+  findSteamAppsInLibrariesSync,
   getInstalledSteamAppsFromLibraries,
   getInstalledSteamAppsFromLibrariesSync,
+  readSteamAppManifest,
+  readSteamAppManifestSync,
 } from './steam-apps';
+import { attachAppUsage, attachAppUsageSync } from './steam-usage';
 import { SteamNotFoundError, SteamAppNotFoundError } from './errors';
 
 /**
  * Finds the Steam client installation location across platforms
+ * @param options Optional explicit path, environment override, extra candidates, home directory
+ * and preferred variant
  * @returns Promise resolving to Steam location information
  * @throws {SteamNotFoundError} When Steam installation cannot be found
  */
-export async function findSteamLocation(): Promise<SteamLocation> {
+export async function findSteamLocation(
+  options: SteamDetectionOptions = {}
+): Promise<SteamLocation> {
   const currentPlatform = platform() as SteamPlatform;
   try {
-    let steamPath = await findSteamPath();
+    let steamPath = await findSteamPath(options);
     let libraryFolders = await getLibraryFolders(steamPath).catch(() => []);
     // Normalize paths for Windows
     if (currentPlatform === 'win32') {
       steamPath = normalize(steamPath);
       libraryFolders = libraryFolders.map((p: string) => normalize(p));
     }
-    const isRunning = await isSteamRunning();
+    const isRunning = await isSteamRunning(steamPath);
     const version = await getSteamVersion(steamPath).catch(() => undefined);
+    const { variant, sandboxRoot } = await getSteamInstallation(steamPath);
     return {
       path: steamPath,
       isRunning,
       platform: currentPlatform,
       version,
       libraryFolders,
+      variant,
+      sandboxRoot,
     };
   } catch (error) {
     if (error instanceof SteamNotFoundError) {
@@ -50,27 +80,32 @@ export async function findSteamLocation(): Promise<SteamLocation> {
 
 /**
  * Synchronous version of findSteamLocation
+ * @param options Optional explicit path, environment override, extra candidates, home directory
+ * and preferred variant
  * @returns Steam location information
  * @throws {SteamNotFoundError} When Steam installation cannot be found
  */
-export function findSteamLocationSync(): SteamLocation {
+export function findSteamLocationSync(options: SteamDetectionOptions = {}): SteamLocation {
   const currentPlatform = platform() as SteamPlatform;
   try {
-    let steamPath = findSteamPathSync();
+    let steamPath = findSteamPathSync(options);
     let libraryFolders = getLibraryFoldersSync(steamPath);
     // Normalize paths for Windows
     if (currentPlatform === 'win32') {
       steamPath = normalize(steamPath);
       libraryFolders = libraryFolders.map((p: string) => normalize(p));
     }
-    const isRunning = isSteamRunningSync();
+    const isRunning = isSteamRunningSync(steamPath);
     const version = getSteamVersionSync(steamPath);
+    const { variant, sandboxRoot } = getSteamInstallationSync(steamPath);
     return {
       path: steamPath,
       isRunning,
       platform: currentPlatform,
       version,
       libraryFolders,
+      variant,
+      sandboxRoot,
     };
   } catch (error) {
     if (error instanceof SteamNotFoundError) {
@@ -94,8 +129,8 @@ export function findSteamLocationSync(): SteamLocation {
 export async function findSteamApp(appId: string, steamPath?: string): Promise<SteamApp> {
   try {
     const actualSteamPath = steamPath || (await findSteamPath());
-    const libraryFolders = await getLibraryFolders(actualSteamPath);
-    return findSteamAppInLibraries(appId, libraryFolders, actualSteamPath);
+    const { folders, index } = await getLibraryFolderIndex(actualSteamPath);
+    return await findSteamAppInLibraries(appId, folders, actualSteamPath, index);
   } catch (error) {
     if (error instanceof SteamAppNotFoundError || error instanceof SteamNotFoundError) {
       throw error;
@@ -115,8 +150,8 @@ export async function findSteamApp(appId: string, steamPath?: string): Promise<S
 export function findSteamAppSync(appId: string, steamPath?: string): SteamApp {
   try {
     const actualSteamPath = steamPath || findSteamPathSync();
-    const libraryFolders = getLibraryFoldersSync(actualSteamPath);
-    return findSteamAppInLibrariesSync(appId, libraryFolders, actualSteamPath);
+    const { folders, index } = getLibraryFolderIndexSync(actualSteamPath);
+    return findSteamAppInLibrariesSync(appId, folders, actualSteamPath, index);
   } catch (error) {
     if (error instanceof SteamAppNotFoundError || error instanceof SteamNotFoundError) {
       throw error;
@@ -125,17 +160,116 @@ export function findSteamAppSync(appId: string, steamPath?: string): SteamApp {
   }
 }
 
+/**
+ * Find several Steam apps/games by App ID in one pass over the libraries
+ * @param appIds Steam App IDs to search for
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to the apps that were found, by App ID
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function findSteamApps(
+  appIds: string[],
+  steamPath?: string
+): Promise<Map<string, SteamApp>> {
+  try {
+    const actualSteamPath = steamPath || (await findSteamPath());
+    const { folders, index } = await getLibraryFolderIndex(actualSteamPath);
+    return await findSteamAppsInLibraries(appIds, folders, actualSteamPath, index);
+  } catch (error) {
+    if (error instanceof SteamNotFoundError) {
+      throw error;
+    }
+    throw new SteamNotFoundError(`Error finding Steam apps: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Synchronous version of findSteamApps
+ * @param appIds Steam App IDs to search for
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns The apps that were found, by App ID
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function findSteamAppsSync(appIds: string[], steamPath?: string): Map<string, SteamApp> {
+  try {
+    const actualSteamPath = steamPath || findSteamPathSync();
+    const { folders, index } = getLibraryFolderIndexSync(actualSteamPath);
+    return findSteamAppsInLibrariesSync(appIds, folders, actualSteamPath, index);
+  } catch (error) {
+    if (error instanceof SteamNotFoundError) {
+      throw error;
+    }
+    throw new SteamNotFoundError(`Error finding Steam apps: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Read the full manifest of a Steam app, including its update state, build and depots
+ * @param appId Steam App ID to search for
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to the app's manifest
+ * @throws {SteamAppNotFoundError} When the app cannot be found
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getSteamAppManifest(
+  appId: string,
+  steamPath?: string
+): Promise<SteamAppManifest> {
+  try {
+    const actualSteamPath = steamPath || (await findSteamPath());
+    const { folders, index } = await getLibraryFolderIndex(actualSteamPath);
+    return await readSteamAppManifest(appId, getAppSearchOrder(appId, folders, index));
+  } catch (error) {
+    if (error instanceof SteamAppNotFoundError || error instanceof SteamNotFoundError) {
+      throw error;
+    }
+    throw new SteamAppNotFoundError(
+      appId,
+      `Error reading app manifest: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Synchronous version of getSteamAppManifest
+ * @param appId Steam App ID to search for
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns The app's manifest
+ * @throws {SteamAppNotFoundError} When the app cannot be found
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getSteamAppManifestSync(appId: string, steamPath?: string): SteamAppManifest {
+  try {
+    const actualSteamPath = steamPath || findSteamPathSync();
+    const { folders, index } = getLibraryFolderIndexSync(actualSteamPath);
+    return readSteamAppManifestSync(appId, getAppSearchOrder(appId, folders, index));
+  } catch (error) {
+    if (error instanceof SteamAppNotFoundError || error instanceof SteamNotFoundError) {
+      throw error;
+    }
+    throw new SteamAppNotFoundError(
+      appId,
+      `Error reading app manifest: ${(error as Error).message}`
+    );
+  }
+}
+
 /**
  * Get list of all installed Steam apps
  * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @param options Optional settings, such as attaching each app's usage by a user
  * @returns Promise resolving to array of installed Steam apps
  * @throws {SteamNotFoundError} When Steam installation cannot be found
  */
-export async function getInstalledSteamApps(steamPath?: string): Promise<SteamApp[]> {
+export async function getInstalledSteamApps(
+  steamPath?: string,
+  options: InstalledSteamAppsOptions = {}
+): Promise<SteamApp[]> {
   try {
     const actualSteamPath = steamPath || (await findSteamPath());
     const libraryFolders = await getLibraryFolders(actualSteamPath);
-    return getInstalledSteamAppsFromLibraries(libraryFolders);
+    const apps = await getInstalledSteamAppsFromLibraries(libraryFolders);
+    return options.includeUsage ? await attachAppUsage(apps, actualSteamPath, options) : apps;
   } catch (error) {
     if (error instanceof SteamNotFoundError) {
       throw error;
@@ -147,14 +281,19 @@ export async function getInstalledSteamApps(steamPath?: string): Promise<SteamAp
 /**
  * Synchronous version of getInstalledSteamApps
  * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @param options Optional settings, such as attaching each app's usage by a user
  * @returns Array of installed Steam apps
  * @throws {SteamNotFoundError} When Steam installation cannot be found
  */
-export function getInstalledSteamAppsSync(steamPath?: string): SteamApp[] {
+export function getInstalledSteamAppsSync(
+  steamPath?: string,
+  options: InstalledSteamAppsOptions = {}
+): SteamApp[] {
   try {
     const actualSteamPath = steamPath || findSteamPathSync();
     const libraryFolders = getLibraryFoldersSync(actualSteamPath);
-    return getInstalledSteamAppsFromLibrariesSync(libraryFolders);
+    const apps = getInstalledSteamAppsFromLibrariesSync(libraryFolders);
+    return options.includeUsage ? attachAppUsageSync(apps, actualSteamPath, options) : apps;
   } catch (error) {
     if (error instanceof SteamNotFoundError) {
       throw error;
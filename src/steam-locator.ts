@@ -0,0 +1,516 @@
+import { join, normalize } from 'path';
+import { existsSync, statSync } from 'fs';
+import { stat } from 'fs/promises';
+import { platform } from 'os';
+import type {
+  InstalledSteamAppsOptions,
+  SteamApp,
+  SteamAppManifest,
+  SteamInstallation,
+  SteamLibraryFolderIndex,
+  SteamLocation,
+  SteamLocatorOptions,
+  SteamPlatform,
+} from './types';
+import {
+  findSteamPath,
+  findSteamPathSync,
+  getSteamInstallation,
+  getSteamInstallationSync,
+} from './steam-path';
+import {
+  getAppSearchOrder,
+  getLibraryFolderIndex,
+  getLibraryFolderIndexSync,
+} from './steam-libraries';
+import { isSteamRunning, isSteamRunningSync } from './steam-process';
+import { getSteamVersion, getSteamVersionSourcePaths, getSteamVersionSync } from './steam-version';
+import {
+  dedupeInstalledApps,
+  readSteamAppManifest,
+  readSteamAppManifestSync,
+  toSteamApp,
+} from './steam-apps';
+import { attachAppUsage, attachAppUsageSync } from './steam-usage';
+import { listDirectory, listDirectorySync, mapWithConcurrency, pathExists } from './async-utils';
+import { SteamAppNotFoundError } from './errors';
+
+/** Maximum number of manifests checked at once by the async methods */
+const MANIFEST_READ_CONCURRENCY = 16;
+const MANIFEST_PATTERN = /^appmanifest_(\d+)\.acf$/;
+
+interface CacheEntry<T> {
+  /** What the value was read from, such as the modification time and size of a file */
+  stamp: string;
+  value: T;
+}
+
+interface InstallationDetails {
+  installation: SteamInstallation;
+  version: string | undefined;
+}
+
+/**
+ * Locates Steam, its libraries and apps like the free functions, but remembers what it has
+ * read. The Steam path is detected once, the installation details are re-read only when the
+ * client's version file changes, library folders only when libraryfolders.vdf changes and each
+ * manifest only when its own modification time or size changes, so a long-running process can query repeatedly for the cost of a few stat calls.
+ * Whether Steam is running and whether install directories exist are always checked live.
+ * Call clearCache() to pick up changes the file times cannot show, such as a library drive
+ * being reconnected
+ */
+export class SteamLocator {
+  private readonly options: SteamLocatorOptions;
+  private readonly configuredSteamPath: string | undefined;
+  private steamPath: string | undefined;
+  private details: CacheEntry<InstallationDetails> | undefined;
+  private libraries: CacheEntry<SteamLibraryFolderIndex> | undefined;
+  private readonly manifests = new Map<string, CacheEntry<SteamAppManifest>>();
+
+  constructor(options: SteamLocatorOptions = {}) {
+    this.options = options;
+    this.configuredSteamPath = options.steamPath || undefined;
+  }
+
+  /**
+   * Forget everything read so far, so the next call detects and reads from scratch
+   */
+  clearCache(): void {
+    this.steamPath = undefined;
+    this.details = undefined;
+    this.libraries = undefined;
+    this.manifests.clear();
+  }
+
+  /**
+   * Get the Steam installation path, detecting it again if the remembered one has disappeared
+   * @returns Promise resolving to the Steam installation path
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  async getSteamPath(): Promise<string> {
+    if (this.configuredSteamPath) {
+      return this.configuredSteamPath;
+    }
+    if (this.steamPath && (await pathExists(this.steamPath))) {
+      return this.steamPath;
+    }
+    this.clearCache();
+    this.steamPath = await findSteamPath(this.options);
+    return this.steamPath;
+  }
+
+  /**
+   * Synchronous version of getSteamPath
+   * @returns The Steam installation path
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  getSteamPathSync(): string {
+    if (this.configuredSteamPath) {
+      return this.configuredSteamPath;
+    }
+    if (this.steamPath && existsSync(this.steamPath)) {
+      return this.steamPath;
+    }
+    this.clearCache();
+    this.steamPath = findSteamPathSync(this.options);
+    return this.steamPath;
+  }
+
+  /**
+   * Find the Steam client installation location
+   * @returns Promise resolving to Steam location information
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  async findSteamLocation(): Promise<SteamLocation> {
+    const currentPlatform = platform() as SteamPlatform;
+    const steamPath = await this.getSteamPath();
+    const libraryFolders = await this.getLibraryFolders();
+    const stamp = await getDetailsStamp(steamPath);
+    if (this.details?.stamp !== stamp) {
+      const [installation, version] = await Promise.all([
+        getSteamInstallation(steamPath),
+        getSteamVersion(steamPath).catch(() => undefined),
+      ]);
+      this.details = { stamp, value: { installation, version } };
+    }
+    return toSteamLocation(
+      currentPlatform,
+      steamPath,
+      libraryFolders,
+      await isSteamRunning(steamPath),
+      this.details.value
+    );
+  }
+
+  /**
+   * Synchronous version of findSteamLocation
+   * @returns Steam location information
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  findSteamLocationSync(): SteamLocation {
+    const currentPlatform = platform() as SteamPlatform;
+    const steamPath = this.getSteamPathSync();
+    const libraryFolders = this.getLibraryFoldersSync();
+    const stamp = getDetailsStampSync(steamPath);
+    if (this.details?.stamp !== stamp) {
+      this.details = {
+        stamp,
+        value: {
+          installation: getSteamInstallationSync(steamPath),
+          version: getSteamVersionSync(steamPath),
+        },
+      };
+    }
+    return toSteamLocation(
+      currentPlatform,
+      steamPath,
+      libraryFolders,
+      isSteamRunningSync(steamPath),
+      this.details.value
+    );
+  }
+
+  /**
+   * Get the Steam library folders
+   * @returns Promise resolving to the steamapps folder of each library
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  async getLibraryFolders(): Promise<string[]> {
+    return [...(await this.getLibraryState()).folders];
+  }
+
+  /**
+   * Synchronous version of getLibraryFolders
+   * @returns The steamapps folder of each library
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  getLibraryFoldersSync(): string[] {
+    return [...this.getLibraryStateSync().folders];
+  }
+
+  /**
+   * Find a specific Steam app/game by App ID
+   * @param appId Steam App ID to search for
+   * @returns Promise resolving to Steam app information
+   * @throws {SteamAppNotFoundError} When the app cannot be found
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  async findSteamApp(appId: string): Promise<SteamApp> {
+    const manifest = await this.getSteamAppManifest(appId);
+    return toSteamApp(
+      manifest,
+      manifest.installDir ? await pathExists(manifest.installDir) : false
+    );
+  }
+
+  /**
+   * Synchronous version of findSteamApp
+   * @param appId Steam App ID to search for
+   * @returns Steam app information
+   * @throws {SteamAppNotFoundError} When the app cannot be found
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  findSteamAppSync(appId: string): SteamApp {
+    const manifest = this.getSteamAppManifestSync(appId);
+    return toSteamApp(manifest, manifest.installDir ? existsSync(manifest.installDir) : false);
+  }
+
+  /**
+   * Find several Steam apps/games by App ID
+   * @param appIds Steam App IDs to search for
+   * @returns Promise resolving to the apps that were found, by App ID
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  async findSteamApps(appIds: string[]): Promise<Map<string, SteamApp>> {
+    await this.getLibraryState();
+    const uniqueIds = [...new Set(appIds)];
+    const found = await mapWithConcurrency(uniqueIds, MANIFEST_READ_CONCURRENCY, appId =>
+      this.findSteamApp(appId).catch(() => undefined)
+    );
+    return toAppMap(found);
+  }
+
+  /**
+   * Synchronous version of findSteamApps
+   * @param appIds Steam App IDs to search for
+   * @returns The apps that were found, by App ID
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  findSteamAppsSync(appIds: string[]): Map<string, SteamApp> {
+    this.getLibraryStateSync();
+    const found = [...new Set(appIds)].map(appId => {
+      try {
+        return this.findSteamAppSync(appId);
+      } catch {
+        return undefined;
+      }
+    });
+    return toAppMap(found);
+  }
+
+  /**
+   * Read the full manifest of a Steam app, including its update state, build and depots
+   * @param appId Steam App ID to search for
+   * @returns Promise resolving to the app's manifest
+   * @throws {SteamAppNotFoundError} When the app cannot be found
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  async getSteamAppManifest(appId: string): Promise<SteamAppManifest> {
+    const { folders, index } = await this.getLibraryState();
+    for (const libraryFolder of getAppSearchOrder(appId, folders, index)) {
+      const manifest = await this.readManifest(appId, libraryFolder);
+      if (manifest) {
+        return manifest;
+      }
+    }
+    throw new SteamAppNotFoundError(appId);
+  }
+
+  /**
+   * Synchronous version of getSteamAppManifest
+   * @param appId Steam App ID to search for
+   * @returns The app's manifest
+   * @throws {SteamAppNotFoundError} When the app cannot be found
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  getSteamAppManifestSync(appId: string): SteamAppManifest {
+    const { folders, index } = this.getLibraryStateSync();
+    for (const libraryFolder of getAppSearchOrder(appId, folders, index)) {
+      const manifest = this.readManifestSync(appId, libraryFolder);
+      if (manifest) {
+        return manifest;
+      }
+    }
+    throw new SteamAppNotFoundError(appId);
+  }
+
+  /**
+   * Get list of all installed Steam apps
+   * @param options Optional settings, such as attaching each app's usage by a user
+   * @returns Promise resolving to array of installed Steam apps
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  async getInstalledSteamApps(options: InstalledSteamAppsOptions = {}): Promise<SteamApp[]> {
+    const steamPath = await this.getSteamPath();
+    const { folders } = await this.getLibraryState();
+    const manifests: [string, string][] = [];
+    for (const libraryFolder of folders) {
+      for (const appId of getManifestAppIds(await listDirectory(libraryFolder))) {
+        manifests.push([appId, libraryFolder]);
+      }
+    }
+    const apps = await mapWithConcurrency(
+      manifests,
+      MANIFEST_READ_CONCURRENCY,
+      async ([appId, libraryFolder]) => {
+        const manifest = await this.readManifest(appId, libraryFolder);
+        return manifest?.installDir && (await pathExists(manifest.installDir))
+          ? toSteamApp(manifest, true)
+          : undefined;
+      }
+    );
+    const installed = dedupeInstalledApps(apps);
+    return options.includeUsage ? await attachAppUsage(installed, steamPath, options) : installed;
+  }
+
+  /**
+   * Synchronous version of getInstalledSteamApps
+   * @param options Optional settings, such as attaching each app's usage by a user
+   * @returns Array of installed Steam apps
+   * @throws {SteamNotFoundError} When Steam installation cannot be found
+   */
+  getInstalledSteamAppsSync(options: InstalledSteamAppsOptions = {}): SteamApp[] {
+    const steamPath = this.getSteamPathSync();
+    const apps: (SteamApp | undefined)[] = [];
+    for (const libraryFolder of this.getLibraryStateSync().folders) {
+      for (const appId of getManifestAppIds(listDirectorySync(libraryFolder))) {
+        const manifest = this.readManifestSync(appId, libraryFolder);
+        if (manifest?.installDir && existsSync(manifest.installDir)) {
+          apps.push(toSteamApp(manifest, true));
+        }
+      }
+    }
+    const installed = dedupeInstalledApps(apps);
+    return options.includeUsage ? attachAppUsageSync(installed, steamPath, options) : installed;
+  }
+
+  /**
+   * Get the library folders and app index, re-reading them when libraryfolders.vdf changes
+   */
+  private async getLibraryState(): Promise<SteamLibraryFolderIndex> {
+    const steamPath = await this.getSteamPath();
+    const stamp = (await getFileStamp(getLibraryFoldersVdfPath(steamPath))) ?? '';
+    if (this.libraries?.stamp !== stamp) {
+      this.libraries = { stamp, value: await getLibraryFolderIndex(steamPath) };
+    }
+    return this.libraries.value;
+  }
+
+  /**
+   * Synchronous version of getLibraryState
+   */
+  private getLibraryStateSync(): SteamLibraryFolderIndex {
+    const steamPath = this.getSteamPathSync();
+    const stamp = getFileStampSync(getLibraryFoldersVdfPath(steamPath)) ?? '';
+    if (this.libraries?.stamp !== stamp) {
+      this.libraries = { stamp, value: getLibraryFolderIndexSync(steamPath) };
+    }
+    return this.libraries.value;
+  }
+
+  /**
+   * Read an app's manifest from a library, reusing the cached copy while the file is unchanged
+   * @returns Promise resolving to the manifest, or undefined if the library has no readable one
+   */
+  private async readManifest(
+    appId: string,
+    libraryFolder: string
+  ): Promise<SteamAppManifest | undefined> {
+    const manifestPath = getManifestPath(appId, libraryFolder);
+    const stamp = await getFileStamp(manifestPath);
+    const cached = this.getCachedManifest(manifestPath, stamp);
+    if (cached || !stamp) {
+      return cached;
+    }
+    const manifest = await readSteamAppManifest(appId, [libraryFolder]).catch(() => undefined);
+    return this.cacheManifest(manifestPath, stamp, manifest);
+  }
+
+  /**
+   * Synchronous version of readManifest
+   */
+  private readManifestSync(appId: string, libraryFolder: string): SteamAppManifest | undefined {
+    const manifestPath = getManifestPath(appId, libraryFolder);
+    const stamp = getFileStampSync(manifestPath);
+    const cached = this.getCachedManifest(manifestPath, stamp);
+    if (cached || !stamp) {
+      return cached;
+    }
+    let manifest: SteamAppManifest | undefined;
+    try {
+      manifest = readSteamAppManifestSync(appId, [libraryFolder]);
+    } catch {
+      // Unreadable manifest, leave it uncached
+    }
+    return this.cacheManifest(manifestPath, stamp, manifest);
+  }
+
+  /**
+   * Get a cached manifest if it was read from the file as it is now, dropping stale entries
+   */
+  private getCachedManifest(
+    manifestPath: string,
+    stamp: string | undefined
+  ): SteamAppManifest | undefined {
+    const cached = this.manifests.get(manifestPath);
+    if (cached && cached.stamp === stamp) {
+      return cached.value;
+    }
+    this.manifests.delete(manifestPath);
+    return undefined;
+  }
+
+  /**
+   * Remember a freshly read manifest
+   */
+  private cacheManifest(
+    manifestPath: string,
+    stamp: string,
+    manifest: SteamAppManifest | undefined
+  ): SteamAppManifest | undefined {
+    if (manifest) {
+      this.manifests.set(manifestPath, { stamp, value: manifest });
+    }
+    return manifest;
+  }
+}
+
+/**
+ * Get a file's modification time and size as a cache stamp
+ * @returns Promise resolving to the stamp, or undefined if the file does not exist
+ */
+async function getFileStamp(path: string): Promise<string | undefined> {
+  try {
+    const stats = await stat(path);
+    return `${stats.mtimeMs}:${stats.size}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Synchronous version of getFileStamp
+ */
+function getFileStampSync(path: string): string | undefined {
+  try {
+    const stats = statSync(path);
+    return `${stats.mtimeMs}:${stats.size}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Stamp for the installation details: the installation path and the modification time and size
+ * of each file the client version is read from, so an update of the client is picked up
+ * @returns Promise resolving to the stamp
+ */
+async function getDetailsStamp(steamPath: string): Promise<string> {
+  const stamps = await Promise.all(getSteamVersionSourcePaths(steamPath).map(getFileStamp));
+  return [steamPath, ...stamps.map(stamp => stamp ?? '')].join('|');
+}
+
+/**
+ * Synchronous version of getDetailsStamp
+ */
+function getDetailsStampSync(steamPath: string): string {
+  const stamps = getSteamVersionSourcePaths(steamPath).map(getFileStampSync);
+  return [steamPath, ...stamps.map(stamp => stamp ?? '')].join('|');
+}
+
+function getLibraryFoldersVdfPath(steamPath: string): string {
+  return join(steamPath, 'steamapps', 'libraryfolders.vdf');
+}
+
+function getManifestPath(appId: string, libraryFolder: string): string {
+  return join(libraryFolder, `appmanifest_${appId}.acf`);
+}
+
+/**
+ * App IDs of the manifests in a library folder listing
+ */
+function getManifestAppIds(files: string[]): string[] {
+  return files.flatMap(file => file.match(MANIFEST_PATTERN)?.[1] ?? []);
+}
+
+/**
+ * Build the location model, normalizing paths on Windows
+ */
+function toSteamLocation(
+  currentPlatform: SteamPlatform,
+  steamPath: string,
+  libraryFolders: string[],
+  isRunning: boolean,
+  { installation, version }: InstallationDetails
+): SteamLocation {
+  const isWin = currentPlatform === 'win32';
+  return {
+    path: isWin ? normalize(steamPath) : steamPath,
+    isRunning,
+    platform: currentPlatform,
+    version,
+    libraryFolders: isWin ? libraryFolders.map(folder => normalize(folder)) : libraryFolders,
+    variant: installation.variant,
+    sandboxRoot: installation.sandboxRoot,
+  };
+}
+
+function toAppMap(apps: (SteamApp | undefined)[]): Map<string, SteamApp> {
+  const found = new Map<string, SteamApp>();
+  for (const app of apps) {
+    if (app) {
+      found.set(app.appId, app);
+    }
+  }
+  return found;
+}
@@ -1,71 +1,278 @@
 import { platform, homedir } from 'os';
-import { existsSync } from 'fs';
+import { existsSync, readFileSync, realpathSync, statSync } from 'fs';
+import { readFile, realpath, stat } from 'fs/promises';
 import { resolve, normalize } from 'path';
 import { execSync } from 'child_process';
+import type { SteamDetectionOptions, SteamInstallation, SteamInstallationVariant } from './types';
 import { SteamNotFoundError } from './errors';
+import { execAsync, pathExists } from './async-utils';
+
+const WINDOWS_REGISTRY_QUERY =
+  'reg query "HKCU\\Software\\Valve\\Steam" /v SteamPath 2>nul || reg query "HKLM\\Software\\Valve\\Steam" /v InstallPath 2>nul';
+
+/** Environment variable that overrides detection unless options name another */
+const DEFAULT_STEAM_PATH_ENV = 'STEAM_PATH';
+const OS_RELEASE_PATH = '/etc/os-release';
+const FLATPAK_DATA_DIR = '/.var/app/com.valvesoftware.Steam';
+const SNAP_DATA_DIR = '/snap/steam';
+/** Files the client rewrites while in use, relative to the installation */
+const INSTALLATION_USAGE_FILES = ['config/loginusers.vdf', 'config/config.vdf'];
+/** Files the client rewrites while in use, relative to its home or sandbox directory */
+const HOME_USAGE_FILES = ['.steam/steam.pid', '.steam/registry.vdf'];
 
 /**
  * Finds Steam installation path by checking platform-specific locations
+ * @param options Optional explicit path, environment override, extra candidates, home directory
+ * and preferred variant
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
  */
-export async function findSteamPath(): Promise<string> {
-  return new Promise((resolve, reject) => {
-    try {
-      const path = findSteamPathSync();
-      resolve(path);
-    } catch (error) {
-      reject(error);
+export async function findSteamPath(options: SteamDetectionOptions = {}): Promise<string> {
+  const overridePath = getOverridePath(options);
+  if (overridePath && (await pathExists(overridePath))) {
+    return overridePath;
+  }
+  if (options.steamPath) {
+    throw new SteamNotFoundError(`No Steam installation found at ${options.steamPath}`);
+  }
+  if (options.preferredVariant) {
+    return pickPreferredInstallation(await findAllSteamInstallations(options), options);
+  }
+  for (const path of options.extraPaths ?? []) {
+    if (await pathExists(path)) {
+      return path;
     }
-  });
+  }
+  const currentPlatform = platform();
+
+  switch (currentPlatform) {
+    case 'win32':
+      return findSteamPathWindowsAsync();
+    case 'darwin':
+      return findFirstExistingPath(
+        [getMacOSSteamPath(options.homeDir)],
+        'Could not locate Steam installation on macOS'
+      );
+    case 'linux':
+      // Several installations can exist side by side; the one in use wins
+      return pickPreferredInstallation(await findAllSteamInstallations(options), options);
+    default:
+      throw new SteamNotFoundError(`Unsupported platform: ${currentPlatform}`, currentPlatform);
+  }
 }
 
 /**
  * Synchronous Steam path finder for all platforms
+ * @param options Optional explicit path, environment override, extra candidates, home directory
+ * and preferred variant
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
  */
-export function findSteamPathSync(): string {
+export function findSteamPathSync(options: SteamDetectionOptions = {}): string {
+  const overridePath = getOverridePath(options);
+  if (overridePath && existsSync(overridePath)) {
+    return overridePath;
+  }
+  if (options.steamPath) {
+    throw new SteamNotFoundError(`No Steam installation found at ${options.steamPath}`);
+  }
+  if (options.preferredVariant) {
+    return pickPreferredInstallation(findAllSteamInstallationsSync(options), options);
+  }
+  const extraPath = (options.extraPaths ?? []).find(path => existsSync(path));
+  if (extraPath) {
+    return extraPath;
+  }
   const currentPlatform = platform();
 
   switch (currentPlatform) {
     case 'win32':
       return findSteamPathWindows();
     case 'darwin':
-      return findSteamPathMacOS();
+      return findSteamPathMacOS(options.homeDir);
     case 'linux':
-      return findSteamPathLinux();
+      // Several installations can exist side by side; the one in use wins
+      return pickPreferredInstallation(findAllSteamInstallationsSync(options), options);
     default:
       throw new SteamNotFoundError(`Unsupported platform: ${currentPlatform}`, currentPlatform);
   }
 }
 
+/**
+ * Find every distinct Steam installation, such as both a native and a Flatpak install on Linux.
+ * Candidate paths are resolved through symlinks, so `~/.steam/steam` and the
+ * `~/.local/share/Steam` folder it points to are reported once. Explicit and extra paths come
+ * first; the platform's installations follow, the most recently used first, so a leftover
+ * Flatpak or Snap folder does not win over the installation in use
+ * @param options Optional explicit path, environment override, extra candidates and home directory
+ * @returns Promise resolving to the installations in order of preference, empty if none exist
+ */
+export async function findAllSteamInstallations(
+  options: SteamDetectionOptions = {}
+): Promise<SteamInstallation[]> {
+  const currentPlatform = platform();
+  const installations = new Map<string, SteamInstallation>();
+  const addInstallation = async (path: string): Promise<void> => {
+    try {
+      mergeInstallation(installations, await getSteamInstallation(path), currentPlatform);
+    } catch {
+      // Candidate does not exist
+    }
+  };
+  for (const path of getUserCandidatePaths(options)) {
+    await addInstallation(path);
+  }
+  if (currentPlatform === 'win32') {
+    const regOutput = await execAsync(WINDOWS_REGISTRY_QUERY, {
+      windowsHide: true,
+      timeout: 5000,
+    }).catch(() => '');
+    for (const path of getWindowsCandidatePaths(parseRegistrySteamPath(regOutput))) {
+      if (await pathExists(resolve(path, 'steam.exe'))) {
+        await addInstallation(path);
+      }
+    }
+  } else {
+    const found: SteamInstallation[] = [];
+    for (const path of getPlatformCandidatePaths(currentPlatform, options.homeDir)) {
+      try {
+        found.push(await getSteamInstallation(path));
+      } catch {
+        // Candidate does not exist
+      }
+    }
+    const lastUsed = await Promise.all(
+      found.map(installation => getLastUsedTime(installation, options.homeDir))
+    );
+    for (const installation of sortByLastUsed(found, lastUsed)) {
+      mergeInstallation(installations, installation, currentPlatform);
+    }
+  }
+  return [...installations.values()];
+}
+
+/**
+ * Synchronous version of findAllSteamInstallations
+ * @param options Optional explicit path, environment override, extra candidates and home directory
+ * @returns The installations in order of preference, empty if none exist
+ */
+export function findAllSteamInstallationsSync(
+  options: SteamDetectionOptions = {}
+): SteamInstallation[] {
+  const currentPlatform = platform();
+  const installations = new Map<string, SteamInstallation>();
+  const addInstallation = (path: string): void => {
+    try {
+      mergeInstallation(installations, getSteamInstallationSync(path), currentPlatform);
+    } catch {
+      // Candidate does not exist
+    }
+  };
+  for (const path of getUserCandidatePaths(options)) {
+    addInstallation(path);
+  }
+  if (currentPlatform === 'win32') {
+    let regOutput = '';
+    try {
+      regOutput = execSync(WINDOWS_REGISTRY_QUERY, {
+        encoding: 'utf8',
+        windowsHide: true,
+        timeout: 5000,
+      });
+    } catch {
+      // Registry lookup failed, fall back to common paths
+    }
+    for (const path of getWindowsCandidatePaths(parseRegistrySteamPath(regOutput))) {
+      if (existsSync(resolve(path, 'steam.exe'))) {
+        addInstallation(path);
+      }
+    }
+  } else {
+    const found: SteamInstallation[] = [];
+    for (const path of getPlatformCandidatePaths(currentPlatform, options.homeDir)) {
+      try {
+        found.push(getSteamInstallationSync(path));
+      } catch {
+        // Candidate does not exist
+      }
+    }
+    const lastUsed = found.map(installation => getLastUsedTimeSync(installation, options.homeDir));
+    for (const installation of sortByLastUsed(found, lastUsed)) {
+      mergeInstallation(installations, installation, currentPlatform);
+    }
+  }
+  return [...installations.values()];
+}
+
+/**
+ * Describe a Steam installation: how it was packaged and, for Flatpak and Snap, the sandbox's data
+ * directory. Symlinks are resolved first, so `~/.steam/steam` is classified by its target
+ * @param steamPath Steam installation path
+ * @returns Promise resolving to the installation
+ * @throws {SteamNotFoundError} When the path does not exist
+ */
+export async function getSteamInstallation(steamPath: string): Promise<SteamInstallation> {
+  let realPath: string;
+  try {
+    realPath = (await realpath(steamPath)) || steamPath;
+  } catch {
+    throw new SteamNotFoundError(`No Steam installation found at ${steamPath}`);
+  }
+  const currentPlatform = platform();
+  let osRelease = '';
+  if (needsOsRelease(currentPlatform, realPath)) {
+    try {
+      osRelease = (await readFile(OS_RELEASE_PATH, 'utf8')) || '';
+    } catch {
+      // Not a systemd-style distribution, classify by path alone
+    }
+  }
+  return toSteamInstallation(steamPath, realPath, currentPlatform, osRelease);
+}
+
+/**
+ * Synchronous version of getSteamInstallation
+ * @param steamPath Steam installation path
+ * @returns The installation
+ * @throws {SteamNotFoundError} When the path does not exist
+ */
+export function getSteamInstallationSync(steamPath: string): SteamInstallation {
+  let realPath: string;
+  try {
+    realPath = realpathSync(steamPath) || steamPath;
+  } catch {
+    throw new SteamNotFoundError(`No Steam installation found at ${steamPath}`);
+  }
+  const currentPlatform = platform();
+  let osRelease = '';
+  if (needsOsRelease(currentPlatform, realPath)) {
+    try {
+      osRelease = readFileSync(OS_RELEASE_PATH, 'utf8') || '';
+    } catch {
+      // Not a systemd-style distribution, classify by path alone
+    }
+  }
+  return toSteamInstallation(steamPath, realPath, currentPlatform, osRelease);
+}
+
 /**
  * Find Steam on Windows using registry and common paths
  */
 function findSteamPathWindows(): string {
   // Try reading from Windows Registry first
   try {
-    const regOutput = execSync(
-      'reg query "HKCU\\Software\\Valve\\Steam" /v SteamPath 2>nul || reg query "HKLM\\Software\\Valve\\Steam" /v InstallPath 2>nul',
-      { encoding: 'utf8', windowsHide: true, timeout: 5000 }
-    );
-    const pathMatch = regOutput.match(/(?:SteamPath|InstallPath)\s+REG_SZ\s+(.+)/);
-    if (pathMatch && pathMatch[1]) {
-      let steamPath = pathMatch[1].trim().replace(/\\/g, '\\');
-      steamPath = normalize(steamPath);
-      if (existsSync(steamPath) && existsSync(resolve(steamPath, 'steam.exe'))) {
-        return steamPath;
-      }
+    const regOutput = execSync(WINDOWS_REGISTRY_QUERY, {
+      encoding: 'utf8',
+      windowsHide: true,
+      timeout: 5000,
+    });
+    const steamPath = parseRegistrySteamPath(regOutput);
+    if (steamPath && existsSync(steamPath) && existsSync(resolve(steamPath, 'steam.exe'))) {
+      return steamPath;
     }
   } catch {
     // Registry lookup failed, continue to other methods
   }
   // Try common installation locations
-  const commonPaths = [
-    'C:\\Program Files (x86)\\Steam',
-    'C:\\Program Files\\Steam',
-    resolve(process.env.LOCALAPPDATA || '', 'Steam'),
-    resolve(process.env.APPDATA || '', 'Steam'),
-  ];
-  for (let path of commonPaths) {
-    path = normalize(path);
+  for (const path of getWindowsCommonPaths()) {
     if (existsSync(path) && existsSync(resolve(path, 'steam.exe'))) {
       return path;
     }
@@ -73,11 +280,66 @@ function findSteamPathWindows(): string {
   throw new SteamNotFoundError('Could not locate Steam installation on Windows');
 }
 
+/**
+ * Find Steam on Windows using registry and common paths, without blocking
+ */
+async function findSteamPathWindowsAsync(): Promise<string> {
+  try {
+    const regOutput = await execAsync(WINDOWS_REGISTRY_QUERY, { windowsHide: true, timeout: 5000 });
+    const steamPath = parseRegistrySteamPath(regOutput);
+    if (
+      steamPath &&
+      (await pathExists(steamPath)) &&
+      (await pathExists(resolve(steamPath, 'steam.exe')))
+    ) {
+      return steamPath;
+    }
+  } catch {
+    // Registry lookup failed, continue to other methods
+  }
+  for (const path of getWindowsCommonPaths()) {
+    if ((await pathExists(path)) && (await pathExists(resolve(path, 'steam.exe')))) {
+      return path;
+    }
+  }
+  throw new SteamNotFoundError('Could not locate Steam installation on Windows');
+}
+
+/**
+ * Extract the Steam path from `reg query` output
+ */
+function parseRegistrySteamPath(regOutput: string): string | undefined {
+  const pathMatch = regOutput.match(/(?:SteamPath|InstallPath)\s+REG_SZ\s+(.+)/);
+  if (pathMatch && pathMatch[1]) {
+    return normalize(pathMatch[1].trim().replace(/\\/g, '\\'));
+  }
+  return undefined;
+}
+
+/**
+ * Windows installation locations to check, starting with the one in the registry
+ */
+function getWindowsCandidatePaths(registryPath: string | undefined): string[] {
+  return registryPath ? [registryPath, ...getWindowsCommonPaths()] : getWindowsCommonPaths();
+}
+
+/**
+ * Common Steam installation locations on Windows
+ */
+function getWindowsCommonPaths(): string[] {
+  return [
+    'C:\\Program Files (x86)\\Steam',
+    'C:\\Program Files\\Steam',
+    resolve(process.env.LOCALAPPDATA || '', 'Steam'),
+    resolve(process.env.APPDATA || '', 'Steam'),
+  ].map(path => normalize(path));
+}
+
 /**
  * Find Steam on macOS
  */
-function findSteamPathMacOS(): string {
-  const steamPath = resolve(homedir(), 'Library/Application Support/Steam');
+function findSteamPathMacOS(homeDir?: string): string {
+  const steamPath = getMacOSSteamPath(homeDir);
   if (existsSync(steamPath)) {
     return steamPath;
   }
@@ -85,31 +347,250 @@ function findSteamPathMacOS(): string {
 }
 
 /**
- * Find Steam on Linux
+ * Steam installation location on macOS
+ */
+function getMacOSSteamPath(homeDir?: string): string {
+  return resolve(homeDir ?? homedir(), 'Library/Application Support/Steam');
+}
+
+/**
+ * Steam installation locations on Linux in order of preference when none shows signs of use:
+ * native, Flatpak, then Snap
  */
-function findSteamPathLinux(): string {
-  const home = homedir();
+function getLinuxCandidatePaths(homeDir?: string): string[] {
+  const home = homeDir ?? homedir();
   const snapDir = process.env.SNAP_USER_DATA
     ? resolve(process.env.SNAP_USER_DATA)
     : resolve(home, 'snap');
   const candidatePaths = [
-    resolve(home, '.var/app/com.valvesoftware.Steam/.local/share/Steam'),
-    resolve(home, '.var/app/com.valvesoftware.Steam/.steam/steam'),
-    resolve(home, '.var/app/com.valvesoftware.Steam/.steam/root'),
     resolve(home, '.local/share/Steam'),
     resolve(home, '.steam/steam'),
     resolve(home, '.steam/root'),
     resolve(home, '.steam/debian-installation'),
+    resolve(home, '.var/app/com.valvesoftware.Steam/.local/share/Steam'),
+    resolve(home, '.var/app/com.valvesoftware.Steam/.steam/steam'),
+    resolve(home, '.var/app/com.valvesoftware.Steam/.steam/root'),
     resolve(snapDir, 'steam/common/.local/share/Steam'),
     resolve(snapDir, 'steam/common/.steam/steam'),
     resolve(snapDir, 'steam/common/.steam/root'),
   ];
-  const seen = new Set<string>();
+  return [...new Set(candidatePaths)];
+}
+
+/**
+ * Return the first candidate path that exists, without blocking
+ */
+async function findFirstExistingPath(candidatePaths: string[], notFound: string): Promise<string> {
   for (const path of candidatePaths) {
-    if (!seen.has(path) && existsSync(path)) {
-      seen.add(path);
+    if (await pathExists(path)) {
       return path;
     }
   }
-  throw new SteamNotFoundError('Could not locate Steam installation on Linux');
+  throw new SteamNotFoundError(notFound);
+}
+
+/**
+ * When an installation was last used: the newest modification time of the files the client
+ * rewrites while running, 0 if there are none
+ */
+async function getLastUsedTime(installation: SteamInstallation, homeDir?: string): Promise<number> {
+  const times = await Promise.all(
+    getUsageFiles(installation, homeDir).map(async path => {
+      try {
+        return (await stat(path)).mtimeMs || 0;
+      } catch {
+        return 0;
+      }
+    })
+  );
+  return Math.max(0, ...times);
+}
+
+/**
+ * Synchronous version of getLastUsedTime
+ */
+function getLastUsedTimeSync(installation: SteamInstallation, homeDir?: string): number {
+  const times = getUsageFiles(installation, homeDir).map(path => {
+    try {
+      return statSync(path).mtimeMs || 0;
+    } catch {
+      return 0;
+    }
+  });
+  return Math.max(0, ...times);
+}
+
+/**
+ * Files whose modification time shows when an installation was last used. Sandboxed clients keep
+ * steam.pid and registry.vdf in the sandbox's data directory rather than the home directory
+ */
+function getUsageFiles(installation: SteamInstallation, homeDir?: string): string[] {
+  const home = installation.sandboxRoot ?? homeDir ?? homedir();
+  return [
+    ...INSTALLATION_USAGE_FILES.map(file => resolve(installation.realPath, file)),
+    ...HOME_USAGE_FILES.map(file => resolve(home, file)),
+  ];
+}
+
+/**
+ * Order installations by when they were last used, newest first, keeping the candidate order
+ * for ties
+ */
+function sortByLastUsed(
+  installations: SteamInstallation[],
+  lastUsed: number[]
+): SteamInstallation[] {
+  return installations
+    .map((installation, i) => ({ installation, time: lastUsed[i] ?? 0, i }))
+    .sort((a, b) => b.time - a.time || a.i - b.i)
+    .map(({ installation }) => installation);
+}
+
+/**
+ * Installation locations to check on macOS and Linux
+ */
+function getPlatformCandidatePaths(currentPlatform: NodeJS.Platform, homeDir?: string): string[] {
+  switch (currentPlatform) {
+    case 'darwin':
+      return [getMacOSSteamPath(homeDir)];
+    case 'linux':
+      return getLinuxCandidatePaths(homeDir);
+    default:
+      return [];
+  }
+}
+
+/**
+ * The explicit path, or the environment override if no explicit path is given
+ */
+function getOverridePath(options: SteamDetectionOptions): string | undefined {
+  if (options.steamPath) {
+    return options.steamPath;
+  }
+  const envPath = process.env[options.envVar ?? DEFAULT_STEAM_PATH_ENV]?.trim();
+  return envPath || undefined;
+}
+
+/**
+ * Paths the caller asked to check before the platform defaults
+ */
+function getUserCandidatePaths(options: SteamDetectionOptions): string[] {
+  const overridePath = getOverridePath(options);
+  return overridePath ? [overridePath, ...(options.extraPaths ?? [])] : (options.extraPaths ?? []);
+}
+
+/**
+ * Add an installation to those found, merging it into an installation with the same real path
+ */
+function mergeInstallation(
+  installations: Map<string, SteamInstallation>,
+  installation: SteamInstallation,
+  currentPlatform: NodeJS.Platform
+): void {
+  const key =
+    currentPlatform === 'win32' ? installation.realPath.toLowerCase() : installation.realPath;
+  const existing = installations.get(key);
+  if (!existing) {
+    installations.set(key, installation);
+  } else if (!existing.aliases.includes(installation.path)) {
+    existing.aliases.push(installation.path);
+  }
+}
+
+/**
+ * Whether /etc/os-release is needed to classify an installation, to tell SteamOS from other
+ * distributions. Sandboxed installations are classified by their sandbox
+ */
+function needsOsRelease(currentPlatform: NodeJS.Platform, realPath: string): boolean {
+  return (
+    currentPlatform === 'linux' && classifyInstallationPath(currentPlatform, realPath) === 'native'
+  );
+}
+
+/**
+ * Build the installation model from its resolved path and the contents of /etc/os-release
+ */
+function toSteamInstallation(
+  path: string,
+  realPath: string,
+  currentPlatform: NodeJS.Platform,
+  osRelease: string
+): SteamInstallation {
+  const variant = classifyInstallationPath(currentPlatform, realPath);
+  return {
+    path,
+    realPath,
+    aliases: [path],
+    variant: variant === 'native' && isSteamOSRelease(osRelease) ? 'steamos' : variant,
+    sandboxRoot: getSandboxRoot(realPath),
+  };
+}
+
+/**
+ * Classify an installation by platform and where it lives
+ */
+function classifyInstallationPath(
+  currentPlatform: NodeJS.Platform,
+  realPath: string
+): SteamInstallationVariant {
+  if (currentPlatform === 'win32') {
+    return 'windows';
+  }
+  if (currentPlatform === 'darwin') {
+    return 'macos';
+  }
+  const path = realPath.replace(/\\/g, '/');
+  if (path.includes(`${FLATPAK_DATA_DIR}/`)) {
+    return 'flatpak';
+  }
+  if (path.includes(`${SNAP_DATA_DIR}/`)) {
+    return 'snap';
+  }
+  // Debian's steam-installer package keeps the client here instead of ~/.local/share/Steam
+  if (path.includes('/.steam/debian-installation')) {
+    return 'debian';
+  }
+  return 'native';
+}
+
+/**
+ * Whether /etc/os-release describes SteamOS, as on the Steam Deck
+ */
+function isSteamOSRelease(osRelease: string): boolean {
+  return /^(?:ID=["']?steamos["']?|VARIANT_ID=["']?steamdeck["']?)\s*$/m.test(osRelease);
+}
+
+/**
+ * The data directory of the Flatpak or Snap sandbox an installation lives in, which stands in for
+ * the home directory inside the sandbox
+ */
+function getSandboxRoot(realPath: string): string | undefined {
+  const path = realPath.replace(/\\/g, '/');
+  const flatpak = path.indexOf(`${FLATPAK_DATA_DIR}/`);
+  if (flatpak !== -1) {
+    return realPath.slice(0, flatpak + FLATPAK_DATA_DIR.length);
+  }
+  const snap = path.indexOf(`${SNAP_DATA_DIR}/`);
+  if (snap !== -1) {
+    const common = `${SNAP_DATA_DIR}/common`;
+    const end = path.startsWith(`${common}/`, snap) ? common.length : SNAP_DATA_DIR.length;
+    return realPath.slice(0, snap + end);
+  }
+  return undefined;
+}
+
+/**
+ * Pick the first installation of the preferred variant, or the first installation if there is none
+ */
+function pickPreferredInstallation(
+  installations: SteamInstallation[],
+  options: SteamDetectionOptions
+): string {
+  const installation =
+    installations.find(candidate => candidate.variant === options.preferredVariant) ??
+    installations[0];
+  if (!installation) {
+    throw new SteamNotFoundError(`Could not locate Steam installation on ${platform()}`);
+  }
+  return installation.path;
 }
@@ -1,77 +1,396 @@
 import { execSync } from 'child_process';
-import { platform } from 'os';
+import { readdirSync, readFileSync, readlinkSync } from 'fs';
+import { readdir, readFile, readlink } from 'fs/promises';
+import { homedir, platform } from 'os';
+import { join } from 'path';
+import type { SteamProcessInfo } from './types';
+import { execAsync } from './async-utils';
+
+const WINDOWS_PROCESS_QUERY =
+  "powershell -NoProfile -Command \"Get-CimInstance Win32_Process | Where-Object Name -eq 'steam.exe' | Select-Object ProcessId, ExecutablePath, CommandLine, @{ Name = 'StartTime'; Expression = { $_.CreationDate.ToString('o') } } | ConvertTo-Json\"";
+/** Lists steam.exe only, much cheaper than the CIM query when just a yes or no is needed */
+const WINDOWS_TASKLIST_QUERY = 'tasklist /FI "IMAGENAME eq steam.exe" /FO CSV /NH';
+const MACOS_PROCESS_QUERY = 'ps -Ao pid=,lstart=,args=';
+
+/** The Linux client binary, as opposed to the steam.sh launcher or anything else named steam */
+const LINUX_CLIENT_PATTERN = /[\\/]ubuntu12_32[\\/]steam$/;
+/**
+ * The macOS client binary and its arguments. The client runs from paths with spaces such as
+ * `~/Library/Application Support/Steam/Steam.AppBundle/Steam/Contents/MacOS/steam_osx`, so spaces
+ * are allowed in the path unless they start another path or an option
+ */
+const MACOS_CLIENT_PATTERN = /^(\/(?:[^ ]| (?![/-]))*\/steam_osx)(?:\s+(.*))?$/;
+/** `ps -o lstart` prints a fixed-width date such as `Mon Oct 19 09:41:07 2026` */
+const MACOS_PS_LINE_PATTERN = /^\s*(\d+)\s+(\w{3} \w{3}\s+\d+ \d{2}:\d{2}:\d{2} \d{4})\s+(.*)$/;
+/** Launch options that start the client in Big Picture or the Steam Deck's gamepad UI */
+const BIG_PICTURE_ARGS = ['-gamepadui', '-bigpicture', '-tenfoot'];
+/** Clock ticks per second used by /proc/<pid>/stat, fixed at 100 on the platforms Steam supports */
+const LINUX_CLOCK_TICKS = 100;
+
+interface LinuxProcessFiles {
+  comm: string;
+  cmdline: string;
+  stat: string;
+  exe: string | undefined;
+}
 
 /**
  * Checks if Steam is currently running
+ * @param steamPath Optional Steam installation path whose steam.pid is checked first on Linux
  * @returns Promise resolving to true if Steam is running
  */
-export async function isSteamRunning(): Promise<boolean> {
-  return new Promise(resolve => {
+export async function isSteamRunning(steamPath?: string): Promise<boolean> {
+  if (platform() === 'win32') {
     try {
-      const currentPlatform = platform();
-      let command: string;
-      switch (currentPlatform) {
-        case 'win32':
-          command = 'tasklist /FI "IMAGENAME eq steam.exe" /FO CSV /NH';
-          break;
-        case 'darwin':
-          command = 'pgrep -f "Steam.app"';
-          break;
-        case 'linux':
-          command = 'pgrep -f steam';
-          break;
-        default:
-          resolve(false);
-          return;
-      }
-      const output = execSync(command, {
-        encoding: 'utf8',
-        windowsHide: true,
-        timeout: 5000,
-      });
-      if (currentPlatform === 'win32') {
-        resolve(output.includes('steam.exe'));
-      } else {
-        resolve(output.trim().length > 0);
-      }
+      const output = await execAsync(WINDOWS_TASKLIST_QUERY, { windowsHide: true, timeout: 5000 });
+      return isSteamInTasklist(output);
     } catch {
-      resolve(false);
+      return false;
     }
-  });
+  }
+  return (await getSteamProcessInfo(steamPath)) !== undefined;
 }
 
 /**
  * Synchronous version of isSteamRunning
+ * @param steamPath Optional Steam installation path whose steam.pid is checked first on Linux
  * @returns true if Steam is running
  */
-export function isSteamRunningSync(): boolean {
+export function isSteamRunningSync(steamPath?: string): boolean {
+  if (platform() === 'win32') {
+    try {
+      return isSteamInTasklist(
+        execSync(WINDOWS_TASKLIST_QUERY, { encoding: 'utf8', windowsHide: true, timeout: 5000 })
+      );
+    } catch {
+      return false;
+    }
+  }
+  return getSteamProcessInfoSync(steamPath) !== undefined;
+}
+
+/**
+ * Get details of the running Steam client process. Only the client itself is matched, not the
+ * launcher script or other processes that mention Steam on their command line. On Linux the PID
+ * in steam.pid is checked first and /proc is scanned if it is stale
+ * @param steamPath Optional Steam installation path whose steam.pid is checked first on Linux
+ * @returns Promise resolving to the process, or undefined if Steam is not running
+ */
+export async function getSteamProcessInfo(
+  steamPath?: string
+): Promise<SteamProcessInfo | undefined> {
+  try {
+    switch (platform()) {
+      case 'win32':
+        return parseWindowsProcesses(
+          await execAsync(WINDOWS_PROCESS_QUERY, { windowsHide: true, timeout: 10000 })
+        );
+      case 'darwin':
+        return parseMacOSProcesses(await execAsync(MACOS_PROCESS_QUERY, { timeout: 5000 }));
+      case 'linux':
+        return await findLinuxSteamProcess(steamPath);
+      default:
+        return undefined;
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Synchronous version of getSteamProcessInfo
+ * @param steamPath Optional Steam installation path whose steam.pid is checked first on Linux
+ * @returns The process, or undefined if Steam is not running
+ */
+export function getSteamProcessInfoSync(steamPath?: string): SteamProcessInfo | undefined {
   try {
-    const currentPlatform = platform();
-    let command: string;
-    switch (currentPlatform) {
+    switch (platform()) {
       case 'win32':
-        command = 'tasklist /FI "IMAGENAME eq steam.exe" /FO CSV /NH';
-        break;
+        return parseWindowsProcesses(
+          execSync(WINDOWS_PROCESS_QUERY, { encoding: 'utf8', windowsHide: true, timeout: 10000 })
+        );
       case 'darwin':
-        command = 'pgrep -f "Steam.app"';
-        break;
+        return parseMacOSProcesses(
+          execSync(MACOS_PROCESS_QUERY, { encoding: 'utf8', timeout: 5000 })
+        );
       case 'linux':
-        command = 'pgrep -f steam';
-        break;
+        return findLinuxSteamProcessSync(steamPath);
       default:
-        return false;
-    }
-    const output = execSync(command, {
-      encoding: 'utf8',
-      windowsHide: true,
-      timeout: 5000,
-    });
-    if (currentPlatform === 'win32') {
-      return output.includes('steam.exe');
-    } else {
-      return output.trim().length > 0;
+        return undefined;
     }
   } catch {
-    return false;
+    return undefined;
+  }
+}
+
+/**
+ * Find the Linux client process, trying the PIDs in steam.pid before scanning /proc
+ */
+async function findLinuxSteamProcess(steamPath?: string): Promise<SteamProcessInfo | undefined> {
+  const pids: string[] = [];
+  for (const pidFile of getPidFilePaths(steamPath)) {
+    try {
+      pids.push((await readFile(pidFile, 'utf8')).trim());
+    } catch {
+      // No pid file here
+    }
+  }
+  let bootTime: number | undefined;
+  const inspect = async (pid: string): Promise<SteamProcessInfo | undefined> => {
+    const files = await readLinuxProcessFiles(pid);
+    if (!files || !isLinuxSteamClient(files)) {
+      return undefined;
+    }
+    bootTime ??= await readFile('/proc/stat', 'utf8').then(parseBootTime, () => undefined);
+    return toLinuxProcessInfo(pid, files, bootTime);
+  };
+  for (const pid of pids.filter(isPid)) {
+    const info = await inspect(pid);
+    if (info) {
+      return info;
+    }
+  }
+  for (const pid of (await readdir('/proc')).filter(isPid)) {
+    const info = await inspect(pid);
+    if (info) {
+      return info;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Synchronous version of findLinuxSteamProcess
+ */
+function findLinuxSteamProcessSync(steamPath?: string): SteamProcessInfo | undefined {
+  const pids: string[] = [];
+  for (const pidFile of getPidFilePaths(steamPath)) {
+    try {
+      pids.push(readFileSync(pidFile, 'utf8').trim());
+    } catch {
+      // No pid file here
+    }
+  }
+  let bootTime: number | undefined;
+  const inspect = (pid: string): SteamProcessInfo | undefined => {
+    const files = readLinuxProcessFilesSync(pid);
+    if (!files || !isLinuxSteamClient(files)) {
+      return undefined;
+    }
+    if (bootTime === undefined) {
+      try {
+        bootTime = parseBootTime(readFileSync('/proc/stat', 'utf8'));
+      } catch {
+        // Start time is left unset
+      }
+    }
+    return toLinuxProcessInfo(pid, files, bootTime);
+  };
+  for (const pid of pids.filter(isPid)) {
+    const info = inspect(pid);
+    if (info) {
+      return info;
+    }
+  }
+  for (const pid of readdirSync('/proc').filter(isPid)) {
+    const info = inspect(pid);
+    if (info) {
+      return info;
+    }
   }
+  return undefined;
+}
+
+/**
+ * Read the /proc entries used to identify a process, skipping processes that are not named steam
+ * @returns Promise resolving to the entries, or undefined if the process is not a candidate
+ */
+async function readLinuxProcessFiles(pid: string): Promise<LinuxProcessFiles | undefined> {
+  try {
+    const comm = (await readFile(join('/proc', pid, 'comm'), 'utf8')).trim();
+    if (comm !== 'steam') {
+      return undefined;
+    }
+    const [cmdline, stat, exe] = await Promise.all([
+      readFile(join('/proc', pid, 'cmdline'), 'utf8'),
+      readFile(join('/proc', pid, 'stat'), 'utf8').catch(() => ''),
+      readlink(join('/proc', pid, 'exe')).catch(() => undefined),
+    ]);
+    return { comm, cmdline, stat, exe };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Synchronous version of readLinuxProcessFiles
+ */
+function readLinuxProcessFilesSync(pid: string): LinuxProcessFiles | undefined {
+  try {
+    const comm = readFileSync(join('/proc', pid, 'comm'), 'utf8').trim();
+    if (comm !== 'steam') {
+      return undefined;
+    }
+    const cmdline = readFileSync(join('/proc', pid, 'cmdline'), 'utf8');
+    return {
+      comm,
+      cmdline,
+      stat: readOptional(() => readFileSync(join('/proc', pid, 'stat'), 'utf8')) ?? '',
+      exe: readOptional(() => readlinkSync(join('/proc', pid, 'exe'))),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a process is the client binary, by its executable or, if that cannot be read, argv[0]
+ */
+function isLinuxSteamClient(files: LinuxProcessFiles): boolean {
+  return LINUX_CLIENT_PATTERN.test(getLinuxExecutablePath(files));
+}
+
+/**
+ * Build the process model from its /proc entries
+ */
+function toLinuxProcessInfo(
+  pid: string,
+  files: LinuxProcessFiles,
+  bootTime: number | undefined
+): SteamProcessInfo {
+  const args = files.cmdline.split('\0').filter(arg => arg.length > 0);
+  // starttime is the 22nd field, counted after the parenthesized name that may hold spaces
+  const fields = files.stat.slice(files.stat.lastIndexOf(')') + 2).split(' ');
+  const startTicks = Number(fields[19]);
+  return toProcessInfo(
+    Number(pid),
+    getLinuxExecutablePath(files),
+    bootTime !== undefined && Number.isFinite(startTicks)
+      ? new Date((bootTime + startTicks / LINUX_CLOCK_TICKS) * 1000)
+      : undefined,
+    args.slice(1)
+  );
+}
+
+function getLinuxExecutablePath(files: LinuxProcessFiles): string {
+  if (files.exe) {
+    return files.exe.replace(/ \(deleted\)$/, '');
+  }
+  return files.cmdline.split('\0')[0] ?? '';
+}
+
+/**
+ * Read the boot time in seconds since the epoch from /proc/stat
+ */
+function parseBootTime(procStat: string): number | undefined {
+  const match = procStat.match(/^btime\s+(\d+)$/m);
+  return match?.[1] ? Number(match[1]) : undefined;
+}
+
+/**
+ * Files that may hold the PID of the running client. steam.sh writes ~/.steam/steam.pid
+ * before replacing itself with the client, so the PID is the client's own
+ */
+function getPidFilePaths(steamPath?: string): string[] {
+  const pidFiles = [join(homedir(), '.steam', 'steam.pid')];
+  if (steamPath) {
+    pidFiles.push(join(steamPath, 'steam.pid'));
+  }
+  return pidFiles;
+}
+
+/**
+ * Run a read that may fail, such as for another user's process
+ */
+function readOptional(read: () => string): string | undefined {
+  try {
+    return read();
+  } catch {
+    return undefined;
+  }
+}
+
+function isPid(name: string): boolean {
+  return /^\d+$/.test(name);
+}
+
+/**
+ * Parse the JSON printed by the Windows process query, which is an object for one match and an
+ * array for several
+ */
+function parseWindowsProcesses(output: string): SteamProcessInfo | undefined {
+  if (!output.trim()) {
+    return undefined;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output);
+  } catch {
+    return undefined;
+  }
+  const entries = (Array.isArray(parsed) ? parsed : [parsed]) as Record<string, unknown>[];
+  const entry = entries.find(candidate => typeof candidate?.ProcessId === 'number');
+  if (!entry) {
+    return undefined;
+  }
+  const executablePath =
+    typeof entry.ExecutablePath === 'string' ? entry.ExecutablePath : undefined;
+  const startTime = typeof entry.StartTime === 'string' ? new Date(entry.StartTime) : undefined;
+  const commandLine = typeof entry.CommandLine === 'string' ? entry.CommandLine : '';
+  return toProcessInfo(
+    entry.ProcessId as number,
+    executablePath,
+    startTime && !isNaN(startTime.getTime()) ? startTime : undefined,
+    splitWindowsArgs(commandLine)
+  );
+}
+
+/**
+ * Check the CSV printed by tasklist for steam.exe, which prints an info line when nothing matches
+ */
+function isSteamInTasklist(output: string): boolean {
+  return output.toLowerCase().includes('"steam.exe"');
+}
+
+/**
+ * Split a Windows command line into its arguments, dropping the executable
+ */
+function splitWindowsArgs(commandLine: string): string[] {
+  const args = commandLine.match(/"[^"]*"|\S+/g) ?? [];
+  return args.slice(1).map(arg => arg.replace(/^"(.*)"$/, '$1'));
+}
+
+/**
+ * Find the client in the output of `ps -Ao pid=,lstart=,args=`
+ */
+function parseMacOSProcesses(output: string): SteamProcessInfo | undefined {
+  for (const line of output.split('\n')) {
+    const match = line.match(MACOS_PS_LINE_PATTERN);
+    const client = match?.[3]?.match(MACOS_CLIENT_PATTERN);
+    if (match && client) {
+      const startTime = new Date(match[2] ?? '');
+      return toProcessInfo(
+        Number(match[1]),
+        client[1],
+        isNaN(startTime.getTime()) ? undefined : startTime,
+        client[2]?.split(/\s+/) ?? []
+      );
+    }
+  }
+  return undefined;
+}
+
+function toProcessInfo(
+  pid: number,
+  executablePath: string | undefined,
+  startTime: Date | undefined,
+  args: string[]
+): SteamProcessInfo {
+  return {
+    pid,
+    executablePath: executablePath || undefined,
+    startTime,
+    args,
+    isBigPicture: args.some(arg => BIG_PICTURE_ARGS.includes(arg.toLowerCase())),
+  };
 }
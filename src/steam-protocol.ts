@@ -0,0 +1,126 @@
+import { spawn } from 'child_process';
+import { platform } from 'os';
+import { join } from 'path';
+import { setImmediate } from 'timers';
+import type { SteamAction, SteamActionCommand, SteamActionOptions } from './types';
+import { findSteamPath, getSteamInstallation } from './steam-path';
+
+/** A command followed by its arguments */
+type CommandLine = [string, ...string[]];
+
+/**
+ * Build the steam:// URI for an action
+ * @param action The action and its parameters
+ * @returns The URI, such as `steam://run/570` or `steam://nav/games/details/570`
+ * @throws {Error} When the app ID is not numeric
+ */
+export function buildSteamUri(action: SteamAction): string {
+  const appId = String(action.appId);
+  if (!/^\d+$/.test(appId)) {
+    throw new Error(`Invalid app ID for steam://${action.type}: ${appId}`);
+  }
+  switch (action.type) {
+    case 'run': {
+      // Launch options follow an empty segment and are passed to the game as typed
+      const args = action.args?.length ? `//${encodeURIComponent(action.args.join(' '))}/` : '';
+      return `steam://run/${appId}${args}`;
+    }
+    case 'install':
+      return `steam://install/${appId}`;
+    case 'uninstall':
+      return `steam://uninstall/${appId}`;
+    case 'validate':
+      return `steam://validate/${appId}`;
+    case 'store':
+      return `steam://store/${appId}`;
+    case 'library':
+      return `steam://nav/games/details/${appId}`;
+  }
+}
+
+/**
+ * Trigger a Steam action by opening its steam:// URI, through the platform's URI opener or the
+ * Steam client itself. Steam hands the URI to the running client, starting it if needed. The
+ * command is started detached and not waited for
+ * @param action The action and its parameters
+ * @param options Whether to dispatch through the opener or Steam, and whether to only return the
+ * command (dryRun)
+ * @returns Promise resolving to the command that was run, or would be run in dry-run mode
+ * @throws {SteamNotFoundError} When dispatching through Steam and Steam cannot be found
+ */
+export async function executeSteamAction(
+  action: SteamAction,
+  options: SteamActionOptions = {}
+): Promise<SteamActionCommand> {
+  const uri = buildSteamUri(action);
+  const [command, ...args] =
+    options.via === 'steam'
+      ? await getSteamClientCommand(uri, options.steamPath)
+      : getOpenerCommand(uri);
+  const result: SteamActionCommand = { uri, command, args, executed: false };
+  if (options.dryRun) {
+    return result;
+  }
+  await spawnDetached(result.command, result.args);
+  return { ...result, executed: true };
+}
+
+/**
+ * The platform's command for opening a URI with its registered handler
+ */
+function getOpenerCommand(uri: string): CommandLine {
+  switch (platform()) {
+    case 'win32':
+      return ['explorer.exe', uri];
+    case 'darwin':
+      return ['open', uri];
+    default:
+      return ['xdg-open', uri];
+  }
+}
+
+/**
+ * The command for passing a URI to the Steam client, run the way the installation was packaged
+ */
+async function getSteamClientCommand(uri: string, steamPath?: string): Promise<CommandLine> {
+  const actualSteamPath = steamPath || (await findSteamPath());
+  switch (platform()) {
+    case 'win32':
+      return [join(actualSteamPath, 'steam.exe'), uri];
+    case 'darwin':
+      return ['open', '-a', 'Steam', uri];
+    default:
+      break;
+  }
+  const { variant } = await getSteamInstallation(actualSteamPath);
+  switch (variant) {
+    case 'flatpak':
+      return ['flatpak', 'run', 'com.valvesoftware.Steam', uri];
+    case 'snap':
+      return ['snap', 'run', 'steam', uri];
+    default:
+      return [join(actualSteamPath, 'steam.sh'), uri];
+  }
+}
+
+/**
+ * Start a command without waiting for it or keeping the process alive
+ * @returns Promise resolving once the command has started, rejecting if it cannot be started
+ */
+function spawnDetached(command: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { detached: true, stdio: 'ignore', windowsHide: true });
+    let failed = false;
+    child.once('error', error => {
+      failed = true;
+      reject(error);
+    });
+    // A failed spawn emits 'error' on the next tick; the 'spawn' event is missing before Node 15.1
+    setImmediate(() => {
+      if (!failed) {
+        child.unref();
+        resolve();
+      }
+    });
+  });
+}
@@ -0,0 +1,193 @@
+import { execSync } from 'child_process';
+import { readdirSync, readFileSync } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import { platform } from 'os';
+import { join } from 'path';
+import type { SteamApp, SteamRunningApp } from './types';
+import { getInstalledSteamApps, getInstalledSteamAppsSync } from './steam-locate-api';
+import { execAsync, mapWithConcurrency } from './async-utils';
+
+const WINDOWS_RUNNING_APP_QUERY = 'reg query "HKCU\\Software\\Valve\\Steam" /v RunningAppID';
+/** Maximum number of processes inspected at once by the async scan */
+const PROCESS_READ_CONCURRENCY = 16;
+/** Non-Steam shortcuts carry their app ID in the upper 32 bits of SteamGameId */
+const SHORTCUT_GAME_ID_SHIFT = 2 ** 32;
+
+/**
+ * Get the Steam apps that are currently running. On Linux every process is checked for the
+ * SteamAppId or SteamGameId that Steam sets for a game and its children, and for the app ID on
+ * the command line of Steam's reaper, so each app lists all of its PIDs. On Windows the app comes
+ * from RunningAppID in the registry, which holds a single app and no PIDs. Running apps are
+ * matched to the installed apps; apps that are not installed, such as non-Steam shortcuts, have
+ * no `app`
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to the running apps, empty if none are running
+ */
+export async function getRunningSteamApps(steamPath?: string): Promise<SteamRunningApp[]> {
+  let pidsByApp: Map<string, number[]>;
+  switch (platform()) {
+    case 'linux':
+      pidsByApp = await scanLinuxProcesses();
+      break;
+    case 'win32':
+      pidsByApp = parseRunningAppId(
+        await execAsync(WINDOWS_RUNNING_APP_QUERY, { windowsHide: true, timeout: 5000 }).catch(
+          () => ''
+        )
+      );
+      break;
+    default:
+      return [];
+  }
+  if (pidsByApp.size === 0) {
+    return [];
+  }
+  const installed = await getInstalledSteamApps(steamPath).catch((): SteamApp[] => []);
+  return toRunningApps(pidsByApp, installed);
+}
+
+/**
+ * Synchronous version of getRunningSteamApps
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns The running apps, empty if none are running
+ */
+export function getRunningSteamAppsSync(steamPath?: string): SteamRunningApp[] {
+  let pidsByApp: Map<string, number[]>;
+  switch (platform()) {
+    case 'linux':
+      pidsByApp = scanLinuxProcessesSync();
+      break;
+    case 'win32': {
+      let output = '';
+      try {
+        output = execSync(WINDOWS_RUNNING_APP_QUERY, {
+          encoding: 'utf8',
+          windowsHide: true,
+          timeout: 5000,
+        });
+      } catch {
+        // Value missing, Steam has not run a game yet
+      }
+      pidsByApp = parseRunningAppId(output);
+      break;
+    }
+    default:
+      return [];
+  }
+  if (pidsByApp.size === 0) {
+    return [];
+  }
+  let installed: SteamApp[] = [];
+  try {
+    installed = getInstalledSteamAppsSync(steamPath);
+  } catch {
+    // Steam installation not found, report the app IDs alone
+  }
+  return toRunningApps(pidsByApp, installed);
+}
+
+/**
+ * Group the PIDs of Linux processes by the Steam app they belong to
+ */
+async function scanLinuxProcesses(): Promise<Map<string, number[]>> {
+  let entries: string[];
+  try {
+    entries = await readdir('/proc');
+  } catch {
+    return new Map();
+  }
+  const pids = entries.filter(entry => /^\d+$/.test(entry));
+  const appIds = await mapWithConcurrency(pids, PROCESS_READ_CONCURRENCY, async pid => {
+    const [environ, cmdline] = await Promise.all([
+      readFile(join('/proc', pid, 'environ'), 'utf8').catch(() => ''),
+      readFile(join('/proc', pid, 'cmdline'), 'utf8').catch(() => ''),
+    ]);
+    return getProcessAppId(environ, cmdline);
+  });
+  return groupPids(pids, appIds);
+}
+
+/**
+ * Synchronous version of scanLinuxProcesses
+ */
+function scanLinuxProcessesSync(): Map<string, number[]> {
+  let pids: string[];
+  try {
+    pids = readdirSync('/proc').filter(entry => /^\d+$/.test(entry));
+  } catch {
+    return new Map();
+  }
+  const readProcFile = (pid: string, name: string): string => {
+    try {
+      return readFileSync(join('/proc', pid, name), 'utf8');
+    } catch {
+      // Process exited or belongs to another user
+      return '';
+    }
+  };
+  const appIds = pids.map(pid =>
+    getProcessAppId(readProcFile(pid, 'environ'), readProcFile(pid, 'cmdline'))
+  );
+  return groupPids(pids, appIds);
+}
+
+/**
+ * Get the app a process runs for, from its environment or a reaper command line such as
+ * `reaper SteamLaunch AppId=570 -- ...`
+ */
+function getProcessAppId(environ: string, cmdline: string): string | undefined {
+  const env = new Map<string, string>();
+  for (const entry of environ.split('\0')) {
+    const separator = entry.indexOf('=');
+    if (separator > 0) {
+      env.set(entry.slice(0, separator), entry.slice(separator + 1));
+    }
+  }
+  const steamAppId = env.get('SteamAppId');
+  if (steamAppId && /^\d+$/.test(steamAppId) && steamAppId !== '0') {
+    return steamAppId;
+  }
+  const gameId = env.get('SteamGameId');
+  if (gameId && /^\d+$/.test(gameId) && gameId !== '0') {
+    const id = Number(gameId);
+    return id >= SHORTCUT_GAME_ID_SHIFT ? String(Math.floor(id / SHORTCUT_GAME_ID_SHIFT)) : gameId;
+  }
+  const args = cmdline.split('\0');
+  if (args.includes('SteamLaunch')) {
+    const appIdArg = args.find(arg => /^AppId=\d+$/.test(arg));
+    return appIdArg?.slice('AppId='.length);
+  }
+  return undefined;
+}
+
+function groupPids(pids: string[], appIds: (string | undefined)[]): Map<string, number[]> {
+  const pidsByApp = new Map<string, number[]>();
+  pids.forEach((pid, i) => {
+    const appId = appIds[i];
+    if (appId) {
+      pidsByApp.set(appId, [...(pidsByApp.get(appId) ?? []), Number(pid)]);
+    }
+  });
+  return pidsByApp;
+}
+
+/**
+ * Read RunningAppID from `reg query` output, which is 0 when no game is running
+ */
+function parseRunningAppId(regOutput: string): Map<string, number[]> {
+  const match = regOutput.match(/RunningAppID\s+REG_DWORD\s+0x([0-9a-f]+)/i);
+  const appId = match?.[1] ? parseInt(match[1], 16) : 0;
+  return appId > 0 ? new Map([[String(appId), []]]) : new Map();
+}
+
+/**
+ * Match running app IDs to the installed apps
+ */
+function toRunningApps(pidsByApp: Map<string, number[]>, installed: SteamApp[]): SteamRunningApp[] {
+  const installedById = new Map(installed.map(app => [app.appId, app]));
+  return [...pidsByApp].map(([appId, pids]) => ({
+    appId,
+    pids: pids.sort((a, b) => a - b),
+    app: installedById.get(appId),
+  }));
+}
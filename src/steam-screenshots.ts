@@ -0,0 +1,446 @@
+import { dirname, extname, join } from 'path';
+import { closeSync, existsSync, openSync, readSync, statSync } from 'fs';
+import { open, stat } from 'fs/promises';
+import type {
+  SteamApp,
+  SteamAppScreenshots,
+  SteamScreenshot,
+  SteamScreenshotOptions,
+  VdfObject,
+} from './types';
+import { getSteamUserDataPath, getSteamUserDataPathSync } from './steam-users';
+import { getInstalledSteamApps, getInstalledSteamAppsSync } from './steam-locate-api';
+import { getVdfNumber, getVdfObject, getVdfString } from './vdf';
+import {
+  listDirectory,
+  listDirectorySync,
+  mapWithConcurrency,
+  pathExists,
+  readVdfFile,
+  readVdfFileSync,
+} from './async-utils';
+
+/** Screenshot manager data, under the user's userdata folder */
+const SCREENSHOTS_APP_ID = '760';
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png'];
+/** Steam names screenshots after their capture time, such as 20240115183042_1.jpg */
+const TIMESTAMP_NAME_PATTERN = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})_\d+\./;
+/** Uncompressed copies carry the app ID as well, such as 570_20240115183042_1.png */
+const EXTERNAL_NAME_PATTERN = /^(\d+)_(\d{14}_\d+\.(?:png|jpe?g))$/i;
+/** Bytes read to find the dimensions of an image; JPEG frame headers can follow a large EXIF block */
+const IMAGE_HEADER_BYTES = 256 * 1024;
+/** Maximum number of images read at once by the async function */
+const IMAGE_READ_CONCURRENCY = 16;
+
+interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/** An image found on disk, before its thumbnail, dimensions and capture time are resolved */
+interface ScreenshotCandidate {
+  appId: string;
+  path: string;
+  /** File name the capture time is read from */
+  timestampName: string;
+  /** What screenshots.vdf records about the image */
+  entry?: VdfObject | undefined;
+  thumbnailPath?: string | undefined;
+  source: 'steam' | 'external';
+}
+
+/**
+ * List a user's screenshots, grouped by app. Images in the user's screenshot library
+ * (`userdata/<id>/760/remote/<appId>/screenshots`) are combined with the thumbnails, dimensions,
+ * capture times, captions and locations recorded in `760/screenshots.vdf`; images Steam has not
+ * recorded yet get their dimensions from the file and their capture time from the file name.
+ * Uncompressed copies in the external folder set in the overlay settings are listed too. Apps
+ * are named from the installed apps and the non-Steam shortcut names
+ * @param options User to read (defaults to the most recent user), Steam path and app to list
+ * @returns Promise resolving to the screenshots of each app
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getSteamScreenshots(
+  options: SteamScreenshotOptions = {}
+): Promise<SteamAppScreenshots[]> {
+  const userDataPath = await getSteamUserDataPath(options);
+  const screenshotsPath = join(userDataPath, SCREENSHOTS_APP_ID);
+  const remotePath = join(screenshotsPath, 'remote');
+  const recorded = getRecordedScreenshots(
+    await readVdfFile(join(screenshotsPath, 'screenshots.vdf'))
+  );
+  const onlyAppId = options.appId !== undefined ? String(options.appId) : undefined;
+
+  const appIds = getScreenshotAppIds(
+    recorded,
+    onlyAppId ? [] : await listDirectory(remotePath),
+    onlyAppId
+  );
+  const appFiles = await Promise.all(
+    appIds.map(appId => listDirectory(join(remotePath, appId, 'screenshots')))
+  );
+  const candidates = appIds.flatMap((appId, i) =>
+    toAppCandidates(remotePath, appId, getVdfObject(recorded, appId), appFiles[i] ?? [])
+  );
+  const externalPath = getExternalScreenshotsPath(
+    await readVdfFile(join(userDataPath, 'config', 'localconfig.vdf'))
+  );
+  if (externalPath && (await pathExists(externalPath))) {
+    candidates.push(
+      ...toExternalCandidates(externalPath, await listDirectory(externalPath)).filter(
+        c => !onlyAppId || c.appId === onlyAppId
+      )
+    );
+  }
+  const screenshots = await mapWithConcurrency(
+    candidates,
+    IMAGE_READ_CONCURRENCY,
+    describeScreenshot
+  );
+
+  let installed: SteamApp[] = [];
+  try {
+    installed = await getInstalledSteamApps(options.steamPath || dirname(dirname(userDataPath)));
+  } catch {
+    // Libraries unreadable, report the app IDs alone
+  }
+  return groupScreenshots(screenshots, recorded, installed);
+}
+
+/**
+ * Synchronous version of getSteamScreenshots
+ * @param options User to read (defaults to the most recent user), Steam path and app to list
+ * @returns The screenshots of each app
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getSteamScreenshotsSync(
+  options: SteamScreenshotOptions = {}
+): SteamAppScreenshots[] {
+  const userDataPath = getSteamUserDataPathSync(options);
+  const screenshotsPath = join(userDataPath, SCREENSHOTS_APP_ID);
+  const remotePath = join(screenshotsPath, 'remote');
+  const recorded = getRecordedScreenshots(
+    readVdfFileSync(join(screenshotsPath, 'screenshots.vdf'))
+  );
+  const onlyAppId = options.appId !== undefined ? String(options.appId) : undefined;
+
+  const appIds = getScreenshotAppIds(
+    recorded,
+    onlyAppId ? [] : listDirectorySync(remotePath),
+    onlyAppId
+  );
+  const candidates = appIds.flatMap(appId =>
+    toAppCandidates(
+      remotePath,
+      appId,
+      getVdfObject(recorded, appId),
+      listDirectorySync(join(remotePath, appId, 'screenshots'))
+    )
+  );
+  const externalPath = getExternalScreenshotsPath(
+    readVdfFileSync(join(userDataPath, 'config', 'localconfig.vdf'))
+  );
+  if (externalPath && existsSync(externalPath)) {
+    candidates.push(
+      ...toExternalCandidates(externalPath, listDirectorySync(externalPath)).filter(
+        c => !onlyAppId || c.appId === onlyAppId
+      )
+    );
+  }
+  const screenshots = candidates.map(describeScreenshotSync);
+
+  let installed: SteamApp[] = [];
+  try {
+    installed = getInstalledSteamAppsSync(options.steamPath || dirname(dirname(userDataPath)));
+  } catch {
+    // Libraries unreadable, report the app IDs alone
+  }
+  return groupScreenshots(screenshots, recorded, installed);
+}
+
+/**
+ * Get the per-app sections of screenshots.vdf
+ */
+function getRecordedScreenshots(document: VdfObject | undefined): VdfObject {
+  return getVdfObject(document, 'Screenshots') ?? document ?? {};
+}
+
+/**
+ * List the apps to read: the one asked for, or every app screenshots.vdf or the remote folder
+ * knows of
+ */
+function getScreenshotAppIds(
+  recorded: VdfObject,
+  remoteFolders: string[],
+  onlyAppId: string | undefined
+): string[] {
+  const appIds = onlyAppId
+    ? [onlyAppId]
+    : [...new Set([...Object.keys(recorded), ...remoteFolders])];
+  return appIds.filter(id => /^\d+$/.test(id));
+}
+
+/**
+ * Match the images in an app's screenshot folder with what screenshots.vdf records about them
+ */
+function toAppCandidates(
+  remotePath: string,
+  appId: string,
+  recorded: VdfObject | undefined,
+  files: string[]
+): ScreenshotCandidate[] {
+  const entries = new Map<string, VdfObject>();
+  for (const key of Object.keys(recorded ?? {})) {
+    const entry = getVdfObject(recorded, key);
+    const filename = getVdfString(entry, 'filename');
+    if (entry && filename) {
+      entries.set(filename.replace(/\\/g, '/').toLowerCase(), entry);
+    }
+  }
+  const folder = join(remotePath, appId, 'screenshots');
+  return files
+    .filter(file => IMAGE_EXTENSIONS.includes(extname(file).toLowerCase()))
+    .map(file => {
+      const entry = entries.get(`${appId}/screenshots/${file}`.toLowerCase());
+      const thumbnail = getVdfString(entry, 'thumbnail');
+      return {
+        appId,
+        path: join(folder, file),
+        timestampName: file,
+        entry,
+        thumbnailPath: thumbnail
+          ? join(remotePath, ...thumbnail.split(/[\\/]/))
+          : join(folder, 'thumbnails', file),
+        source: 'steam' as const,
+      };
+    });
+}
+
+/**
+ * Pick the uncompressed copies out of the external screenshot folder
+ */
+function toExternalCandidates(externalPath: string, files: string[]): ScreenshotCandidate[] {
+  return files.flatMap(file => {
+    const match = file.match(EXTERNAL_NAME_PATTERN);
+    if (!match?.[1] || !match[2]) {
+      return [];
+    }
+    return [
+      {
+        appId: match[1],
+        path: join(externalPath, file),
+        timestampName: match[2],
+        source: 'external' as const,
+      },
+    ];
+  });
+}
+
+/**
+ * Fill in a screenshot's thumbnail, dimensions and capture time, reading the image only for
+ * what screenshots.vdf and the file name do not tell
+ */
+async function describeScreenshot(candidate: ScreenshotCandidate): Promise<SteamScreenshot> {
+  const recordedSize = getRecordedSize(candidate.entry);
+  const recordedTime = getRecordedTime(candidate);
+  return toScreenshot(candidate, {
+    hasThumbnail: candidate.thumbnailPath ? await pathExists(candidate.thumbnailPath) : false,
+    size: recordedSize ?? parseImageSize(await readImageHeader(candidate.path)),
+    createdAt: recordedTime ?? (await getModifiedTime(candidate.path)),
+  });
+}
+
+/**
+ * Synchronous version of describeScreenshot
+ */
+function describeScreenshotSync(candidate: ScreenshotCandidate): SteamScreenshot {
+  const recordedSize = getRecordedSize(candidate.entry);
+  const recordedTime = getRecordedTime(candidate);
+  return toScreenshot(candidate, {
+    hasThumbnail: candidate.thumbnailPath ? existsSync(candidate.thumbnailPath) : false,
+    size: recordedSize ?? parseImageSize(readImageHeaderSync(candidate.path)),
+    createdAt: recordedTime ?? getModifiedTimeSync(candidate.path),
+  });
+}
+
+function toScreenshot(
+  candidate: ScreenshotCandidate,
+  facts: { hasThumbnail: boolean; size: ImageSize | undefined; createdAt: Date | undefined }
+): SteamScreenshot {
+  const { appId, path, entry } = candidate;
+  if (candidate.source === 'external') {
+    return {
+      appId,
+      path,
+      width: facts.size?.width,
+      height: facts.size?.height,
+      createdAt: facts.createdAt,
+      source: 'external',
+    };
+  }
+  const publishedFileId = getVdfString(entry, 'publishedfileid');
+  return {
+    appId,
+    path,
+    thumbnailPath: facts.hasThumbnail ? candidate.thumbnailPath : undefined,
+    width: facts.size?.width,
+    height: facts.size?.height,
+    createdAt: facts.createdAt,
+    caption: getVdfString(entry, 'caption') || undefined,
+    location: getVdfString(entry, 'location') || undefined,
+    publishedFileId: publishedFileId && publishedFileId !== '0' ? publishedFileId : undefined,
+    source: 'steam',
+  };
+}
+
+/**
+ * Group screenshots by app, named from the installed apps and the non-Steam shortcut names
+ */
+function groupScreenshots(
+  screenshots: SteamScreenshot[],
+  recorded: VdfObject,
+  installed: SteamApp[]
+): SteamAppScreenshots[] {
+  const names = new Map<string, string>();
+  const shortcutNames = getVdfObject(recorded, 'shortcutnames');
+  for (const appId of Object.keys(shortcutNames ?? {})) {
+    const name = getVdfString(shortcutNames, appId);
+    if (name) {
+      names.set(appId, name);
+    }
+  }
+  for (const app of installed) {
+    if (app.name) {
+      names.set(app.appId, app.name);
+    }
+  }
+
+  const byApp = new Map<string, SteamScreenshot[]>();
+  for (const screenshot of screenshots) {
+    byApp.set(screenshot.appId, [...(byApp.get(screenshot.appId) ?? []), screenshot]);
+  }
+  return [...byApp]
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([appId, appScreenshots]) => ({
+      appId,
+      name: names.get(appId),
+      screenshots: appScreenshots.sort(
+        (a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0)
+      ),
+    }));
+}
+
+/**
+ * Get the folder the overlay saves uncompressed copies to, from the user's localconfig.vdf
+ */
+function getExternalScreenshotsPath(localConfig: VdfObject | undefined): string | undefined {
+  const system = getVdfObject(localConfig, 'UserLocalConfigStore', 'system');
+  if (getVdfString(system, 'InGameOverlayScreenshotSaveUncompressed') === '0') {
+    return undefined;
+  }
+  return getVdfString(system, 'InGameOverlayScreenshotSaveUncompressedPath') || undefined;
+}
+
+function getRecordedSize(entry: VdfObject | undefined): ImageSize | undefined {
+  const width = getVdfNumber(entry, 'width');
+  const height = getVdfNumber(entry, 'height');
+  return width && height ? { width, height } : undefined;
+}
+
+/**
+ * Get the capture time screenshots.vdf records, or else the one in a name such as
+ * 20240115183042_1.jpg, in local time
+ */
+function getRecordedTime(candidate: ScreenshotCandidate): Date | undefined {
+  const creation = getVdfNumber(candidate.entry, 'creation');
+  if (creation) {
+    return new Date(creation * 1000);
+  }
+  const match = candidate.timestampName.match(TIMESTAMP_NAME_PATTERN);
+  if (match) {
+    const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+    return new Date(year ?? 0, (month ?? 1) - 1, day, hours, minutes, seconds);
+  }
+  return undefined;
+}
+
+async function getModifiedTime(path: string): Promise<Date | undefined> {
+  try {
+    return (await stat(path)).mtime;
+  } catch {
+    return undefined;
+  }
+}
+
+function getModifiedTimeSync(path: string): Date | undefined {
+  try {
+    return statSync(path).mtime;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the start of an image, where its dimensions are
+ */
+async function readImageHeader(path: string): Promise<Buffer | undefined> {
+  try {
+    const handle = await open(path, 'r');
+    try {
+      const buffer = Buffer.alloc(IMAGE_HEADER_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, IMAGE_HEADER_BYTES, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Synchronous version of readImageHeader
+ */
+function readImageHeaderSync(path: string): Buffer | undefined {
+  try {
+    const fd = openSync(path, 'r');
+    try {
+      const buffer = Buffer.alloc(IMAGE_HEADER_BYTES);
+      return buffer.subarray(0, readSync(fd, buffer, 0, IMAGE_HEADER_BYTES, 0));
+    } finally {
+      closeSync(fd);
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the dimensions of a PNG or JPEG image from its header
+ */
+function parseImageSize(header: Buffer | undefined): ImageSize | undefined {
+  if (!header) {
+    return undefined;
+  }
+  // PNG: the IHDR chunk follows the 8-byte signature
+  if (header.length >= 24 && header.readUInt32BE(0) === 0x89504e47) {
+    return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+  }
+  if (header.length < 4 || header.readUInt16BE(0) !== 0xffd8) {
+    return undefined;
+  }
+  // JPEG: walk the segments to the start-of-frame marker holding the dimensions
+  let offset = 2;
+  while (offset + 9 <= header.length && header[offset] === 0xff) {
+    const marker = header[offset + 1] ?? 0;
+    const isStartOfFrame =
+      marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return { width: header.readUInt16BE(offset + 7), height: header.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + header.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
@@ -0,0 +1,402 @@
+import { dirname, join } from 'path';
+import { copyFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { SteamRunningError } from './errors';
+import type {
+  BinaryVdfObject,
+  BinaryVdfValue,
+  SteamShortcut,
+  SteamShortcutInput,
+  SteamUserOptions,
+} from './types';
+import { copyFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { getSteamUserDataPath, getSteamUserDataPathSync } from './steam-users';
+import { isSteamRunning, isSteamRunningSync } from './steam-process';
+import { pathExists } from './async-utils';
+import { parseBinaryVdf, serializeBinaryVdf } from './vdf-binary';
+import { findVdfKey } from './vdf';
+
+let crcTable: number[] | undefined;
+
+/**
+ * Get the non-Steam games in a user's library
+ * @param options User to read (defaults to the most recent user) and Steam path
+ * @returns Promise resolving to the user's shortcuts
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getSteamShortcuts(options: SteamUserOptions = {}): Promise<SteamShortcut[]> {
+  return toSteamShortcuts(await readShortcutsFile(await getShortcutsPath(options)));
+}
+
+/**
+ * Synchronous version of getSteamShortcuts
+ * @param options User to read (defaults to the most recent user) and Steam path
+ * @returns The user's shortcuts
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getSteamShortcutsSync(options: SteamUserOptions = {}): SteamShortcut[] {
+  return toSteamShortcuts(readShortcutsFileSync(getShortcutsPathSync(options)));
+}
+
+/**
+ * Add a non-Steam game to a user's library. shortcuts.vdf is backed up before its first edit
+ * @param shortcut Shortcut to add
+ * @param options User to modify (defaults to the most recent user) and Steam path
+ * @returns Promise resolving to the added shortcut
+ * @throws {SteamRunningError} When the Steam client is running
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ */
+export async function addSteamShortcut(
+  shortcut: SteamShortcutInput,
+  options: SteamUserOptions = {}
+): Promise<SteamShortcut> {
+  await ensureSteamClosed();
+  const shortcutsPath = await getShortcutsPath(options);
+  const document = await readShortcutsFile(shortcutsPath);
+  const entry = addShortcutEntry(document, shortcut);
+  await writeShortcutsFile(shortcutsPath, document);
+  return toSteamShortcut(entry);
+}
+
+/**
+ * Synchronous version of addSteamShortcut
+ * @param shortcut Shortcut to add
+ * @param options User to modify (defaults to the most recent user) and Steam path
+ * @returns The added shortcut
+ * @throws {SteamRunningError} When the Steam client is running
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ */
+export function addSteamShortcutSync(
+  shortcut: SteamShortcutInput,
+  options: SteamUserOptions = {}
+): SteamShortcut {
+  ensureSteamClosedSync();
+  const shortcutsPath = getShortcutsPathSync(options);
+  const document = readShortcutsFileSync(shortcutsPath);
+  const entry = addShortcutEntry(document, shortcut);
+  writeShortcutsFileSync(shortcutsPath, document);
+  return toSteamShortcut(entry);
+}
+
+/**
+ * Remove a non-Steam game from a user's library. shortcuts.vdf is backed up before its first edit
+ * @param appId Shortcut app ID as returned by getSteamShortcuts
+ * @param options User to modify (defaults to the most recent user) and Steam path
+ * @returns Promise resolving to true if a shortcut was removed
+ * @throws {SteamRunningError} When the Steam client is running
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ */
+export async function removeSteamShortcut(
+  appId: string | number,
+  options: SteamUserOptions = {}
+): Promise<boolean> {
+  await ensureSteamClosed();
+  const shortcutsPath = await getShortcutsPath(options);
+  const document = await readShortcutsFile(shortcutsPath);
+  if (!removeShortcutEntry(document, String(appId))) {
+    return false;
+  }
+  await writeShortcutsFile(shortcutsPath, document);
+  return true;
+}
+
+/**
+ * Synchronous version of removeSteamShortcut
+ * @param appId Shortcut app ID as returned by getSteamShortcuts
+ * @param options User to modify (defaults to the most recent user) and Steam path
+ * @returns true if a shortcut was removed
+ * @throws {SteamRunningError} When the Steam client is running
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ */
+export function removeSteamShortcutSync(
+  appId: string | number,
+  options: SteamUserOptions = {}
+): boolean {
+  ensureSteamClosedSync();
+  const shortcutsPath = getShortcutsPathSync(options);
+  const document = readShortcutsFileSync(shortcutsPath);
+  if (!removeShortcutEntry(document, String(appId))) {
+    return false;
+  }
+  writeShortcutsFileSync(shortcutsPath, document);
+  return true;
+}
+
+/**
+ * Compute the 32-bit app ID Steam assigns to a shortcut, used for grid artwork file names
+ * @param exe Executable path as stored in shortcuts.vdf, including quotes
+ * @param appName Display name of the shortcut
+ */
+export function getShortcutAppId(exe: string, appName: string): string {
+  return String((crc32(Buffer.from(exe + appName, 'utf8')) | 0x80000000) >>> 0);
+}
+
+/**
+ * Compute the 64-bit game ID of a shortcut from its 32-bit app ID, as used by steam://rungameid/
+ */
+export function getShortcutGameId(appId: string | number): string {
+  return ((BigInt(appId) << BigInt(32)) | BigInt(0x02000000)).toString();
+}
+
+/**
+ * Throw if the Steam client is running, since it overwrites shortcuts.vdf on exit
+ */
+async function ensureSteamClosed(): Promise<void> {
+  if (await isSteamRunning()) {
+    throw steamRunning();
+  }
+}
+
+/**
+ * Synchronous version of ensureSteamClosed
+ */
+function ensureSteamClosedSync(): void {
+  if (isSteamRunningSync()) {
+    throw steamRunning();
+  }
+}
+
+function steamRunning(): SteamRunningError {
+  return new SteamRunningError('Steam must be closed before modifying shortcuts.vdf');
+}
+
+/**
+ * Get the path of a user's shortcuts.vdf
+ */
+async function getShortcutsPath(options: SteamUserOptions): Promise<string> {
+  return join(await getSteamUserDataPath(options), 'config', 'shortcuts.vdf');
+}
+
+/**
+ * Synchronous version of getShortcutsPath
+ */
+function getShortcutsPathSync(options: SteamUserOptions): string {
+  return join(getSteamUserDataPathSync(options), 'config', 'shortcuts.vdf');
+}
+
+/**
+ * Read shortcuts.vdf, returning an empty document if the user has no shortcuts
+ */
+async function readShortcutsFile(shortcutsPath: string): Promise<BinaryVdfObject> {
+  if (!(await pathExists(shortcutsPath))) {
+    return { shortcuts: {} };
+  }
+  return parseBinaryVdf(await readFile(shortcutsPath));
+}
+
+/**
+ * Synchronous version of readShortcutsFile
+ */
+function readShortcutsFileSync(shortcutsPath: string): BinaryVdfObject {
+  if (!existsSync(shortcutsPath)) {
+    return { shortcuts: {} };
+  }
+  return parseBinaryVdf(readFileSync(shortcutsPath));
+}
+
+/**
+ * Write shortcuts.vdf through a temporary file. The version from before the first write is kept
+ * as shortcuts.vdf.bak, so later writes do not replace it with an already edited copy
+ */
+async function writeShortcutsFile(shortcutsPath: string, document: BinaryVdfObject): Promise<void> {
+  await mkdir(dirname(shortcutsPath), { recursive: true });
+  const backupPath = `${shortcutsPath}.bak`;
+  if ((await pathExists(shortcutsPath)) && !(await pathExists(backupPath))) {
+    await copyFile(shortcutsPath, backupPath);
+  }
+  const tempPath = `${shortcutsPath}.tmp`;
+  await writeFile(tempPath, serializeBinaryVdf(document));
+  await rename(tempPath, shortcutsPath);
+}
+
+/**
+ * Synchronous version of writeShortcutsFile
+ */
+function writeShortcutsFileSync(shortcutsPath: string, document: BinaryVdfObject): void {
+  mkdirSync(dirname(shortcutsPath), { recursive: true });
+  const backupPath = `${shortcutsPath}.bak`;
+  if (existsSync(shortcutsPath) && !existsSync(backupPath)) {
+    copyFileSync(shortcutsPath, backupPath);
+  }
+  const tempPath = `${shortcutsPath}.tmp`;
+  writeFileSync(tempPath, serializeBinaryVdf(document));
+  renameSync(tempPath, shortcutsPath);
+}
+
+/**
+ * List the shortcuts in a shortcuts.vdf document
+ */
+function toSteamShortcuts(document: BinaryVdfObject): SteamShortcut[] {
+  const shortcuts = getShortcutsSection(document);
+  return Object.keys(shortcuts)
+    .map(key => shortcuts[key])
+    .filter((entry): entry is BinaryVdfObject => typeof entry === 'object')
+    .map(toSteamShortcut);
+}
+
+/**
+ * Append a shortcut to a shortcuts.vdf document
+ * @returns The entry added
+ * @throws {Error} When the document already holds a shortcut with the same app ID
+ */
+function addShortcutEntry(
+  document: BinaryVdfObject,
+  shortcut: SteamShortcutInput
+): BinaryVdfObject {
+  const shortcuts = getShortcutsSection(document);
+
+  const exe = quotePath(shortcut.exe);
+  const appId = getShortcutAppId(exe, shortcut.appName);
+  if (
+    Object.values(shortcuts).some(entry => typeof entry === 'object' && getAppId(entry) === appId)
+  ) {
+    throw new Error(`A shortcut for ${shortcut.exe} named ${shortcut.appName} already exists`);
+  }
+
+  const entry: BinaryVdfObject = {
+    appid: Number(appId),
+    AppName: shortcut.appName,
+    Exe: exe,
+    StartDir: quotePath(shortcut.startDir ?? dirname(shortcut.exe)),
+    icon: shortcut.icon ?? '',
+    ShortcutPath: '',
+    LaunchOptions: shortcut.launchOptions ?? '',
+    IsHidden: shortcut.isHidden ? 1 : 0,
+    AllowDesktopConfig: shortcut.allowDesktopConfig === false ? 0 : 1,
+    AllowOverlay: shortcut.allowOverlay === false ? 0 : 1,
+    OpenVR: shortcut.openVR ? 1 : 0,
+    Devkit: 0,
+    DevkitGameID: '',
+    DevkitOverrideAppID: 0,
+    LastPlayTime: 0,
+    FlatpakAppID: '',
+    tags: Object.fromEntries((shortcut.tags ?? []).map((tag, i) => [String(i), tag])),
+  };
+  // Keys may have gaps if another tool removed an entry, so count on from the highest
+  const keys = Object.keys(shortcuts).filter(key => /^\d+$/.test(key));
+  shortcuts[String(keys.reduce((next, key) => Math.max(next, Number(key) + 1), 0))] = entry;
+  return entry;
+}
+
+/**
+ * Remove a shortcut from a shortcuts.vdf document
+ * @returns true if a shortcut was removed
+ */
+function removeShortcutEntry(document: BinaryVdfObject, appId: string): boolean {
+  const shortcuts = getShortcutsSection(document);
+  const entries = Object.keys(shortcuts).map(key => shortcuts[key] as BinaryVdfValue);
+  const remaining = entries.filter(entry => typeof entry !== 'object' || getAppId(entry) !== appId);
+  if (remaining.length === entries.length) {
+    return false;
+  }
+  // Entries are keyed by position, so renumber them after removal
+  for (const key of Object.keys(shortcuts)) {
+    delete shortcuts[key];
+  }
+  remaining.forEach((entry, i) => {
+    shortcuts[String(i)] = entry;
+  });
+  return true;
+}
+
+/**
+ * Get the shortcuts section of the document, creating it if missing
+ */
+function getShortcutsSection(document: BinaryVdfObject): BinaryVdfObject {
+  const key = findVdfKey(document, 'shortcuts') ?? 'shortcuts';
+  const section = document[key];
+  if (typeof section === 'object') {
+    return section;
+  }
+  const created: BinaryVdfObject = {};
+  document[key] = created;
+  return created;
+}
+
+/**
+ * Convert a shortcuts.vdf entry to a shortcut
+ */
+function toSteamShortcut(entry: BinaryVdfObject): SteamShortcut {
+  const appId = getAppId(entry);
+  const tags = field(entry, 'tags');
+  const lastPlayTime = Number(field(entry, 'LastPlayTime') ?? 0);
+  return {
+    appId,
+    gameId: getShortcutGameId(appId),
+    appName: stringField(entry, 'AppName') ?? '',
+    exe: unquotePath(stringField(entry, 'Exe') ?? ''),
+    startDir: unquotePath(stringField(entry, 'StartDir') ?? ''),
+    launchOptions: stringField(entry, 'LaunchOptions') || undefined,
+    icon: stringField(entry, 'icon') || undefined,
+    shortcutPath: stringField(entry, 'ShortcutPath') || undefined,
+    tags: typeof tags === 'object' ? Object.values(tags).map(String) : [],
+    isHidden: Number(field(entry, 'IsHidden') ?? 0) !== 0,
+    allowOverlay: Number(field(entry, 'AllowOverlay') ?? 1) !== 0,
+    allowDesktopConfig: Number(field(entry, 'AllowDesktopConfig') ?? 1) !== 0,
+    openVR: Number(field(entry, 'OpenVR') ?? 0) !== 0,
+    lastPlayTime: lastPlayTime > 0 ? new Date(lastPlayTime * 1000) : undefined,
+  };
+}
+
+/**
+ * Get the unsigned app ID of an entry, computing it for entries written by older clients
+ */
+function getAppId(entry: BinaryVdfObject): string {
+  const appId = field(entry, 'appid');
+  if (typeof appId === 'number') {
+    return String(appId >>> 0);
+  }
+  return getShortcutAppId(stringField(entry, 'Exe') ?? '', stringField(entry, 'AppName') ?? '');
+}
+
+/**
+ * Look up a field case-insensitively, since older clients write lowercase keys
+ */
+function field(entry: BinaryVdfObject, key: string): BinaryVdfValue | undefined {
+  const actualKey = findVdfKey(entry, key);
+  return actualKey !== undefined ? entry[actualKey] : undefined;
+}
+
+/**
+ * Look up a string field case-insensitively
+ */
+function stringField(entry: BinaryVdfObject, key: string): string | undefined {
+  const value = field(entry, key);
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Wrap a path in quotes as Steam stores it, unless already quoted
+ */
+function quotePath(path: string): string {
+  return /^".*"$/.test(path) ? path : `"${path}"`;
+}
+
+/**
+ * Strip the quotes Steam stores around paths
+ */
+function unquotePath(path: string): string {
+  return path.replace(/^"(.*)"$/, '$1');
+}
+
+/**
+ * Standard CRC-32 checksum, as used to derive shortcut app IDs
+ */
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (crcTable[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,170 @@
+import { basename, join } from 'path';
+import type {
+  InstalledSteamAppsOptions,
+  SteamApp,
+  SteamAppUsage,
+  SteamUserOptions,
+  VdfObject,
+} from './types';
+import { getSteamUserDataPath, getSteamUserDataPathSync } from './steam-users';
+import { getVdfNumber, getVdfObject, getVdfString } from './vdf';
+import { readVdfFile, readVdfFileSync } from './async-utils';
+
+/**
+ * Get a user's usage of a Steam app
+ * @param appId Steam App ID to look up
+ * @param options User to read (defaults to the most recent user) and Steam path
+ * @returns Promise resolving to the usage, or undefined if the user has never run the app
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getAppUsage(
+  appId: string,
+  options: SteamUserOptions = {}
+): Promise<SteamAppUsage | undefined> {
+  const userDataPath = await getSteamUserDataPath(options);
+  const entry = getVdfObject(
+    getLocalConfigApps(await readVdfFile(localConfigPath(userDataPath))),
+    appId
+  );
+  return entry ? toAppUsage(appId, Number(basename(userDataPath)), entry) : undefined;
+}
+
+/**
+ * Synchronous version of getAppUsage
+ * @param appId Steam App ID to look up
+ * @param options User to read (defaults to the most recent user) and Steam path
+ * @returns The usage, or undefined if the user has never run the app
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getAppUsageSync(
+  appId: string,
+  options: SteamUserOptions = {}
+): SteamAppUsage | undefined {
+  const userDataPath = getSteamUserDataPathSync(options);
+  const entry = getVdfObject(
+    getLocalConfigApps(readVdfFileSync(localConfigPath(userDataPath))),
+    appId
+  );
+  return entry ? toAppUsage(appId, Number(basename(userDataPath)), entry) : undefined;
+}
+
+/**
+ * Get a user's usage of every Steam app recorded in their local configuration
+ * @param options User to read (defaults to the most recent user) and Steam path
+ * @returns Promise resolving to the usage of each app
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getAllAppUsage(options: SteamUserOptions = {}): Promise<SteamAppUsage[]> {
+  const userDataPath = await getSteamUserDataPath(options);
+  return toAllAppUsage(userDataPath, await readVdfFile(localConfigPath(userDataPath)));
+}
+
+/**
+ * Synchronous version of getAllAppUsage
+ * @param options User to read (defaults to the most recent user) and Steam path
+ * @returns The usage of each app
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getAllAppUsageSync(options: SteamUserOptions = {}): SteamAppUsage[] {
+  const userDataPath = getSteamUserDataPathSync(options);
+  return toAllAppUsage(userDataPath, readVdfFileSync(localConfigPath(userDataPath)));
+}
+
+/**
+ * Attach a user's usage to installed apps, leaving it unset when the user has no data
+ * @param apps Installed apps
+ * @param steamPath Steam installation path
+ * @param options Installed-apps options, naming the user to read (defaults to the most recent)
+ * @returns Promise resolving to the apps with their usage
+ */
+export async function attachAppUsage(
+  apps: SteamApp[],
+  steamPath: string,
+  options: InstalledSteamAppsOptions
+): Promise<SteamApp[]> {
+  const usage = await getAllAppUsage(usageOptions(steamPath, options)).catch(() => []);
+  return attachUsage(apps, usage);
+}
+
+/**
+ * Synchronous version of attachAppUsage
+ * @param apps Installed apps
+ * @param steamPath Steam installation path
+ * @param options Installed-apps options, naming the user to read (defaults to the most recent)
+ * @returns The apps with their usage
+ */
+export function attachAppUsageSync(
+  apps: SteamApp[],
+  steamPath: string,
+  options: InstalledSteamAppsOptions
+): SteamApp[] {
+  let usage: SteamAppUsage[] = [];
+  try {
+    usage = getAllAppUsageSync(usageOptions(steamPath, options));
+  } catch {
+    // No user data available, leave usage unset
+  }
+  return attachUsage(apps, usage);
+}
+
+/**
+ * Build the user options for reading usage alongside installed apps
+ */
+function usageOptions(steamPath: string, options: InstalledSteamAppsOptions): SteamUserOptions {
+  return options.userId !== undefined ? { steamPath, userId: options.userId } : { steamPath };
+}
+
+/**
+ * Attach usage entries to the apps they belong to
+ */
+function attachUsage(apps: SteamApp[], usage: SteamAppUsage[]): SteamApp[] {
+  const usageByApp = new Map(usage.map(entry => [entry.appId, entry]));
+  return apps.map(app => ({ ...app, usage: usageByApp.get(app.appId) }));
+}
+
+function localConfigPath(userDataPath: string): string {
+  return join(userDataPath, 'config', 'localconfig.vdf');
+}
+
+/**
+ * Get the per-app section of a user's localconfig.vdf
+ */
+function getLocalConfigApps(localConfig: VdfObject | undefined): VdfObject | undefined {
+  return getVdfObject(localConfig, 'UserLocalConfigStore', 'Software', 'Valve', 'Steam', 'apps');
+}
+
+/**
+ * Convert every app entry of a user's localconfig.vdf to usage information
+ */
+function toAllAppUsage(userDataPath: string, localConfig: VdfObject | undefined): SteamAppUsage[] {
+  const accountId = Number(basename(userDataPath));
+  const apps = getLocalConfigApps(localConfig);
+  const usage: SteamAppUsage[] = [];
+  for (const appId of Object.keys(apps ?? {})) {
+    const entry = getVdfObject(apps, appId);
+    if (entry && /^\d+$/.test(appId)) {
+      usage.push(toAppUsage(appId, accountId, entry));
+    }
+  }
+  return usage;
+}
+
+/**
+ * Convert an app's localconfig.vdf entry to usage information
+ */
+function toAppUsage(appId: string, accountId: number, entry: VdfObject): SteamAppUsage {
+  const lastPlayed = getVdfNumber(entry, 'LastPlayed');
+  return {
+    appId,
+    accountId,
+    playtimeMinutes: getVdfNumber(entry, 'Playtime') ?? 0,
+    playtimeTwoWeeksMinutes: getVdfNumber(entry, 'Playtime2wks') ?? 0,
+    lastPlayed: lastPlayed ? new Date(lastPlayed * 1000) : undefined,
+    launchOptions: getVdfString(entry, 'LaunchOptions'),
+    cloudSyncState: getVdfString(entry, 'cloud', 'last_sync_state'),
+  };
+}
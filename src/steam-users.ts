@@ -0,0 +1,255 @@
+import { join } from 'path';
+import { existsSync } from 'fs';
+import { SteamUserNotFoundError } from './errors';
+import type { SteamUser, SteamUserOptions, VdfObject } from './types';
+import { findSteamPath, findSteamPathSync } from './steam-path';
+import { getVdfNumber, getVdfObject, getVdfString } from './vdf';
+import { pathExists, readVdfFile, readVdfFileSync } from './async-utils';
+
+const STEAM_ID64_INDIVIDUAL_BASE = BigInt('76561197960265728');
+const ACCOUNT_ID_MASK = BigInt(0xffffffff);
+
+/**
+ * Get the Steam accounts that have signed in to the client
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to the accounts listed in config/loginusers.vdf
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getSteamUsers(steamPath?: string): Promise<SteamUser[]> {
+  const actualSteamPath = steamPath || (await findSteamPath());
+  const loginUsers = await readVdfFile(join(actualSteamPath, 'config', 'loginusers.vdf'));
+  return Promise.all(
+    getUserEntries(loginUsers).map(async ([steamId64, entry]) => {
+      const userDataPath = getUserDataDir(actualSteamPath, steamId64);
+      return toSteamUser(
+        steamId64,
+        entry,
+        (await pathExists(userDataPath)) ? userDataPath : undefined
+      );
+    })
+  );
+}
+
+/**
+ * Synchronous version of getSteamUsers
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns The accounts listed in config/loginusers.vdf
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getSteamUsersSync(steamPath?: string): SteamUser[] {
+  const actualSteamPath = steamPath || findSteamPathSync();
+  const loginUsers = readVdfFileSync(join(actualSteamPath, 'config', 'loginusers.vdf'));
+  return getUserEntries(loginUsers).map(([steamId64, entry]) => {
+    const userDataPath = getUserDataDir(actualSteamPath, steamId64);
+    return toSteamUser(steamId64, entry, existsSync(userDataPath) ? userDataPath : undefined);
+  });
+}
+
+/**
+ * Get the account that most recently signed in to the client
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to the account, or undefined if no account has signed in
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getMostRecentSteamUser(steamPath?: string): Promise<SteamUser | undefined> {
+  return pickMostRecentUser(await getSteamUsers(steamPath));
+}
+
+/**
+ * Synchronous version of getMostRecentSteamUser
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns The account, or undefined if no account has signed in
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getMostRecentSteamUserSync(steamPath?: string): SteamUser | undefined {
+  return pickMostRecentUser(getSteamUsersSync(steamPath));
+}
+
+/**
+ * Get the userdata directory of a Steam user
+ * @param options User to look up (defaults to the most recent user) and Steam path
+ * @returns Promise resolving to the path of userdata/<accountId>
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getSteamUserDataPath(options: SteamUserOptions = {}): Promise<string> {
+  const steamPath = options.steamPath || (await findSteamPath());
+  const accountId =
+    options.userId !== undefined
+      ? toRequestedAccountId(options.userId)
+      : toMostRecentAccountId(await getMostRecentSteamUser(steamPath));
+  const userDataPath = join(steamPath, 'userdata', String(accountId));
+  if (!(await pathExists(userDataPath))) {
+    throw missingUserData(accountId);
+  }
+  return userDataPath;
+}
+
+/**
+ * Synchronous version of getSteamUserDataPath
+ * @param options User to look up (defaults to the most recent user) and Steam path
+ * @returns The path of userdata/<accountId>
+ * @throws {SteamUserNotFoundError} When the user has no userdata directory
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getSteamUserDataPathSync(options: SteamUserOptions = {}): string {
+  const steamPath = options.steamPath || findSteamPathSync();
+  const accountId =
+    options.userId !== undefined
+      ? toRequestedAccountId(options.userId)
+      : toMostRecentAccountId(getMostRecentSteamUserSync(steamPath));
+  const userDataPath = join(steamPath, 'userdata', String(accountId));
+  if (!existsSync(userDataPath)) {
+    throw missingUserData(accountId);
+  }
+  return userDataPath;
+}
+
+/**
+ * Convert a 64-bit SteamID to its 32-bit account ID
+ * @throws {TypeError} When the SteamID is malformed
+ */
+export function steamId64ToAccountId(steamId64: string): number {
+  if (!/^\d+$/.test(steamId64)) {
+    throw new TypeError(`Invalid SteamID64: ${steamId64}`);
+  }
+  return Number(BigInt(steamId64) & ACCOUNT_ID_MASK);
+}
+
+/**
+ * Convert a 32-bit account ID to the 64-bit SteamID of the individual account
+ * @throws {TypeError} When the account ID is out of range
+ */
+export function accountIdToSteamId64(accountId: number | string): string {
+  const id = Number(accountId);
+  if (!Number.isInteger(id) || id < 0 || id > 0xffffffff) {
+    throw new TypeError(`Invalid account ID: ${accountId}`);
+  }
+  return (STEAM_ID64_INDIVIDUAL_BASE + BigInt(id)).toString();
+}
+
+/**
+ * Convert a 64-bit SteamID to SteamID3 form, such as [U:1:22202]
+ * @throws {TypeError} When the SteamID is malformed
+ */
+export function steamId64ToSteamId3(steamId64: string): string {
+  const accountId = steamId64ToAccountId(steamId64);
+  const universe = Number((BigInt(steamId64) >> BigInt(56)) & BigInt(0xff));
+  return `[U:${universe}:${accountId}]`;
+}
+
+/**
+ * Convert a SteamID3 such as [U:1:22202] to a 64-bit SteamID
+ * @throws {TypeError} When the SteamID3 is malformed or not an individual account
+ */
+export function steamId3ToSteamId64(steamId3: string): string {
+  const match = steamId3.trim().match(/^\[?U:(\d+):(\d+)\]?$/);
+  const accountId = Number(match?.[2]);
+  if (!match || accountId > 0xffffffff) {
+    throw new TypeError(`Invalid SteamID3: ${steamId3}`);
+  }
+  // Universe, account type (individual) and instance (desktop) occupy the upper 32 bits
+  const upper =
+    (BigInt(match[1] as string) << BigInt(56)) |
+    (BigInt(1) << BigInt(52)) |
+    (BigInt(1) << BigInt(32));
+  return (upper | BigInt(accountId)).toString();
+}
+
+/**
+ * Resolve a user identifier given as an account ID, SteamID64 or SteamID3 to an account ID
+ * @throws {TypeError} When the identifier is malformed
+ */
+export function toSteamAccountId(userId: string | number): number {
+  const value = String(userId).trim();
+  if (/^\[?U:/.test(value)) {
+    return steamId64ToAccountId(steamId3ToSteamId64(value));
+  }
+  if (/^\d+$/.test(value)) {
+    return BigInt(value) > ACCOUNT_ID_MASK ? steamId64ToAccountId(value) : Number(value);
+  }
+  throw new TypeError(`Invalid Steam user ID: ${userId}`);
+}
+
+/**
+ * List the accounts in loginusers.vdf by SteamID64
+ */
+function getUserEntries(loginUsers: VdfObject | undefined): [string, VdfObject][] {
+  const users = getVdfObject(loginUsers, 'users');
+  return Object.keys(users ?? {}).flatMap(steamId64 => {
+    const entry = getVdfObject(users, steamId64);
+    return entry && /^\d+$/.test(steamId64) ? [[steamId64, entry] as [string, VdfObject]] : [];
+  });
+}
+
+function getUserDataDir(steamPath: string, steamId64: string): string {
+  return join(steamPath, 'userdata', String(steamId64ToAccountId(steamId64)));
+}
+
+/**
+ * Build the account model from its loginusers.vdf entry
+ */
+function toSteamUser(
+  steamId64: string,
+  entry: VdfObject,
+  userDataPath: string | undefined
+): SteamUser {
+  const timestamp = getVdfNumber(entry, 'Timestamp');
+  return {
+    steamId64,
+    accountId: steamId64ToAccountId(steamId64),
+    steamId3: steamId64ToSteamId3(steamId64),
+    accountName: getVdfString(entry, 'AccountName'),
+    personaName: getVdfString(entry, 'PersonaName'),
+    mostRecent: getVdfString(entry, 'MostRecent') === '1',
+    rememberPassword: getVdfString(entry, 'RememberPassword') === '1',
+    wantsOfflineMode: getVdfString(entry, 'WantsOfflineMode') === '1',
+    timestamp: timestamp ? new Date(timestamp * 1000) : undefined,
+    userDataPath,
+  };
+}
+
+/**
+ * Pick the account with the MostRecent flag, falling back to the latest sign-in
+ */
+function pickMostRecentUser(users: SteamUser[]): SteamUser | undefined {
+  return (
+    users.find(user => user.mostRecent) ??
+    users.reduce<SteamUser | undefined>(
+      (latest, user) =>
+        !latest || (user.timestamp?.getTime() ?? 0) > (latest.timestamp?.getTime() ?? 0)
+          ? user
+          : latest,
+      undefined
+    )
+  );
+}
+
+/**
+ * Resolve the user asked for to an account ID
+ * @throws {SteamUserNotFoundError} When the identifier is malformed
+ */
+function toRequestedAccountId(userId: string | number): number {
+  try {
+    return toSteamAccountId(userId);
+  } catch (error) {
+    throw new SteamUserNotFoundError(String(userId), (error as Error).message);
+  }
+}
+
+/**
+ * @throws {SteamUserNotFoundError} When no account has signed in
+ */
+function toMostRecentAccountId(user: SteamUser | undefined): number {
+  if (!user) {
+    throw new SteamUserNotFoundError('', 'No Steam user has signed in to this installation');
+  }
+  return user.accountId;
+}
+
+function missingUserData(accountId: number): SteamUserNotFoundError {
+  return new SteamUserNotFoundError(
+    String(accountId),
+    `No userdata directory for Steam user ${accountId}`
+  );
+}
@@ -1,20 +1,41 @@
 import { join } from 'path';
 import { existsSync, readFileSync } from 'fs';
+import { readFile } from 'fs/promises';
 import { platform } from 'os';
 import { execSync } from 'child_process';
+import { execAsync, pathExists } from './async-utils';
 
 /**
  * Get Steam version from installation
  */
 export async function getSteamVersion(steamPath: string): Promise<string | undefined> {
-  return new Promise(resolve => {
-    try {
-      const version = getSteamVersionSync(steamPath);
-      resolve(version);
-    } catch {
-      resolve(undefined);
+  try {
+    const steamExePath = join(steamPath, 'steam.exe');
+    if (platform() === 'win32' && (await pathExists(steamExePath))) {
+      try {
+        const output = await execAsync(getFileVersionCommand(steamExePath), {
+          timeout: 5000,
+          windowsHide: true,
+        });
+        return output.trim();
+      } catch {
+        // Fall back to package info
+      }
+    }
+    for (const versionPath of getVersionFilePaths(steamPath)) {
+      try {
+        const content = (await readFile(versionPath, 'utf8')).trim();
+        if (content && content.length > 0) {
+          return content;
+        }
+      } catch {
+        continue;
+      }
     }
-  });
+    return undefined;
+  } catch {
+    return undefined;
+  }
 }
 
 /**
@@ -28,14 +49,11 @@ export function getSteamVersionSync(steamPath: string): string | undefined {
       const steamExePath = join(steamPath, 'steam.exe');
       if (existsSync(steamExePath)) {
         try {
-          const output = execSync(
-            `powershell -Command "(Get-Item '${steamExePath}').VersionInfo.FileVersion"`,
-            {
-              encoding: 'utf8',
-              timeout: 5000,
-              windowsHide: true,
-            }
-          );
+          const output = execSync(getFileVersionCommand(steamExePath), {
+            encoding: 'utf8',
+            timeout: 5000,
+            windowsHide: true,
+          });
           return output.trim();
         } catch {
           // Fall back to package info
@@ -43,13 +61,7 @@ export function getSteamVersionSync(steamPath: string): string | undefined {
       }
     }
     // Try to read from package/version files
-    const versionPaths = [
-      join(steamPath, 'package', 'steam_client_win32'),
-      join(steamPath, 'steam_client_win32'),
-      join(steamPath, 'version.txt'),
-      join(steamPath, 'package', 'version.txt'),
-    ];
-    for (const versionPath of versionPaths) {
+    for (const versionPath of getVersionFilePaths(steamPath)) {
       if (existsSync(versionPath)) {
         try {
           const content = readFileSync(versionPath, 'utf8').trim();
@@ -66,3 +78,35 @@ export function getSteamVersionSync(steamPath: string): string | undefined {
     return undefined;
   }
 }
+
+/**
+ * Files getSteamVersion may read the version from: steam.exe on Windows, then the client's
+ * package and version files
+ * @param steamPath Steam installation path
+ * @returns The paths, in order of preference
+ */
+export function getSteamVersionSourcePaths(steamPath: string): string[] {
+  return [
+    ...(platform() === 'win32' ? [join(steamPath, 'steam.exe')] : []),
+    ...getVersionFilePaths(steamPath),
+  ];
+}
+
+/**
+ * PowerShell command printing the file version of steam.exe
+ */
+function getFileVersionCommand(steamExePath: string): string {
+  return `powershell -Command "(Get-Item '${steamExePath}').VersionInfo.FileVersion"`;
+}
+
+/**
+ * Files that may hold the client version, in order of preference
+ */
+function getVersionFilePaths(steamPath: string): string[] {
+  return [
+    join(steamPath, 'package', 'steam_client_win32'),
+    join(steamPath, 'steam_client_win32'),
+    join(steamPath, 'version.txt'),
+    join(steamPath, 'package', 'version.txt'),
+  ];
+}
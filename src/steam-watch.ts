@@ -0,0 +1,309 @@
+import { EventEmitter } from 'events';
+import { join } from 'path';
+import { existsSync, watch, type FSWatcher } from 'fs';
+import { clearTimeout, setTimeout } from 'timers';
+import type { SteamAppManifest, SteamWatchEvent, SteamWatchOptions } from './types';
+import { findSteamPathSync } from './steam-path';
+import { getLibraryFoldersSync } from './steam-libraries';
+import { readSteamAppManifestSync } from './steam-apps';
+import { listDirectorySync } from './async-utils';
+
+const DEFAULT_DEBOUNCE_MS = 500;
+const MANIFEST_PATTERN = /^appmanifest_(\d+)\.acf$/;
+
+/**
+ * Watch a Steam installation for apps being installed, updated or removed and library folders
+ * being added or removed. Only the manifests that changed are re-read
+ * @param options Steam path, debounce interval and whether to keep the process running
+ * @returns A watcher emitting typed events, also usable as an async iterator; call close() to stop
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function watchSteam(options: SteamWatchOptions = {}): SteamWatcher {
+  return new SteamWatcher(options.steamPath || findSteamPathSync(), options);
+}
+
+/**
+ * Watches the steamapps folder of every library and libraryfolders.vdf. Each SteamWatchEvent is
+ * emitted under its type (`appInstalled`, `appUninstalled`, `appUpdated`, `appStateChanged`,
+ * `libraryAdded`, `libraryRemoved`) and under `change`. `error` is emitted when a library can no
+ * longer be watched, and `close` when the watcher is closed
+ */
+export class SteamWatcher extends EventEmitter implements AsyncIterable<SteamWatchEvent> {
+  private readonly steamPath: string;
+  private readonly debounceMs: number;
+  private readonly persistent: boolean;
+  private readonly watchers = new Map<string, FSWatcher>();
+  private readonly apps = new Map<string, Map<string, SteamAppManifest>>();
+  private readonly pending = new Map<string, Set<string> | undefined>();
+  private librariesChanged = false;
+  private timer: NodeJS.Timeout | undefined;
+  private closed = false;
+
+  constructor(steamPath: string, options: SteamWatchOptions = {}) {
+    super();
+    this.steamPath = steamPath;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    this.persistent = options.persistent ?? true;
+    for (const libraryFolder of getLibraryFoldersSync(steamPath)) {
+      this.apps.set(libraryFolder, readLibraryManifests(libraryFolder));
+      this.watchLibrary(libraryFolder);
+    }
+  }
+
+  /**
+   * Library folders currently being watched
+   */
+  get libraryFolders(): string[] {
+    return [...this.apps.keys()];
+  }
+
+  /**
+   * Stop watching. Pending changes are discarded and async iterators finish
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.pending.clear();
+    this.emit('close');
+  }
+
+  /**
+   * Iterate over events emitted after iteration starts, until the watcher is closed
+   */
+  [Symbol.asyncIterator](): AsyncIterator<SteamWatchEvent> {
+    const buffered: SteamWatchEvent[] = [];
+    const waiting: ((result: IteratorResult<SteamWatchEvent>) => void)[] = [];
+    const onChange = (event: SteamWatchEvent): void => {
+      const next = waiting.shift();
+      if (next) {
+        next({ done: false, value: event });
+      } else {
+        buffered.push(event);
+      }
+    };
+    const finish = (): void => {
+      this.off('change', onChange);
+      this.off('close', finish);
+      for (const next of waiting.splice(0)) {
+        next({ done: true, value: undefined });
+      }
+    };
+    this.on('change', onChange);
+    this.on('close', finish);
+    if (this.closed) {
+      finish();
+    }
+
+    return {
+      next: () => {
+        const event = buffered.shift();
+        if (event) {
+          return Promise.resolve({ done: false, value: event });
+        }
+        if (this.closed) {
+          return Promise.resolve({ done: true, value: undefined });
+        }
+        return new Promise(resolve => waiting.push(resolve));
+      },
+      return: () => {
+        finish();
+        buffered.length = 0;
+        return Promise.resolve({ done: true, value: undefined });
+      },
+    };
+  }
+
+  /**
+   * Start watching a library's steamapps folder
+   */
+  private watchLibrary(libraryFolder: string): void {
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(libraryFolder, { persistent: this.persistent }, (_eventType, filename) =>
+        this.onLibraryChange(libraryFolder, filename ? String(filename) : undefined)
+      );
+    } catch {
+      return;
+    }
+    // The folder going away (such as an unmounted drive) surfaces as an error on some platforms
+    watcher.on('error', error => {
+      this.unwatchLibrary(libraryFolder);
+      this.librariesChanged = true;
+      this.schedule();
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', error);
+      }
+    });
+    this.watchers.set(libraryFolder, watcher);
+  }
+
+  /**
+   * Stop watching a library's steamapps folder
+   */
+  private unwatchLibrary(libraryFolder: string): void {
+    this.watchers.get(libraryFolder)?.close();
+    this.watchers.delete(libraryFolder);
+  }
+
+  /**
+   * Record a file change in a library and schedule processing
+   */
+  private onLibraryChange(libraryFolder: string, filename: string | undefined): void {
+    if (filename === undefined) {
+      // Without a file name the whole library has to be rescanned
+      this.pending.set(libraryFolder, undefined);
+    } else if (filename.toLowerCase() === 'libraryfolders.vdf') {
+      this.librariesChanged = true;
+    } else {
+      const appId = filename.match(MANIFEST_PATTERN)?.[1];
+      if (!appId) {
+        return;
+      }
+      const appIds = this.pending.has(libraryFolder)
+        ? this.pending.get(libraryFolder)
+        : new Set<string>();
+      appIds?.add(appId);
+      this.pending.set(libraryFolder, appIds);
+    }
+    this.schedule();
+  }
+
+  /**
+   * Process recorded changes once they have settled for the debounce interval
+   */
+  private schedule(): void {
+    if (this.closed) {
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  /**
+   * Re-read the changed manifests and library list, emitting an event for each difference
+   */
+  private flush(): void {
+    this.timer = undefined;
+    if (this.librariesChanged) {
+      this.librariesChanged = false;
+      this.refreshLibraries();
+    }
+    const pending = [...this.pending];
+    this.pending.clear();
+    for (const [libraryFolder, appIds] of pending) {
+      if (this.apps.has(libraryFolder)) {
+        this.rescanLibrary(libraryFolder, appIds);
+      }
+    }
+  }
+
+  /**
+   * Compare the library list against the watched libraries
+   */
+  private refreshLibraries(): void {
+    const libraryFolders = getLibraryFoldersSync(this.steamPath);
+    for (const [libraryFolder, known] of [...this.apps]) {
+      if (libraryFolders.includes(libraryFolder)) {
+        continue;
+      }
+      this.unwatchLibrary(libraryFolder);
+      this.apps.delete(libraryFolder);
+      for (const [appId, previous] of known) {
+        this.publish({ type: 'appUninstalled', appId, libraryFolder, previous });
+      }
+      this.publish({ type: 'libraryRemoved', libraryFolder });
+    }
+    for (const libraryFolder of libraryFolders) {
+      if (this.apps.has(libraryFolder)) {
+        continue;
+      }
+      const manifests = readLibraryManifests(libraryFolder);
+      this.apps.set(libraryFolder, manifests);
+      this.watchLibrary(libraryFolder);
+      this.publish({ type: 'libraryAdded', libraryFolder });
+      for (const [appId, manifest] of manifests) {
+        this.publish({ type: 'appInstalled', appId, libraryFolder, manifest });
+      }
+    }
+  }
+
+  /**
+   * Re-read the given manifests of a library, or all of them
+   */
+  private rescanLibrary(libraryFolder: string, appIds: Set<string> | undefined): void {
+    const known = this.apps.get(libraryFolder) ?? new Map<string, SteamAppManifest>();
+    const candidates = appIds ?? new Set([...known.keys(), ...listManifestAppIds(libraryFolder)]);
+    for (const appId of candidates) {
+      const previous = known.get(appId);
+      if (!existsSync(join(libraryFolder, `appmanifest_${appId}.acf`))) {
+        if (previous) {
+          known.delete(appId);
+          this.publish({ type: 'appUninstalled', appId, libraryFolder, previous });
+        }
+        continue;
+      }
+      let manifest: SteamAppManifest;
+      try {
+        manifest = readSteamAppManifestSync(appId, [libraryFolder]);
+      } catch {
+        // Partially written; the write completing triggers another change
+        continue;
+      }
+      known.set(appId, manifest);
+      if (!previous) {
+        this.publish({ type: 'appInstalled', appId, libraryFolder, manifest });
+        continue;
+      }
+      if (manifest.stateFlags !== previous.stateFlags) {
+        this.publish({ type: 'appStateChanged', appId, libraryFolder, manifest, previous });
+      }
+      if (manifest.buildId !== previous.buildId) {
+        this.publish({ type: 'appUpdated', appId, libraryFolder, manifest, previous });
+      }
+    }
+  }
+
+  /**
+   * Emit an event under its type and under `change`
+   */
+  private publish(event: SteamWatchEvent): void {
+    this.emit(event.type, event);
+    this.emit('change', event);
+  }
+}
+
+/**
+ * Read every manifest in a library, keyed by app ID
+ */
+function readLibraryManifests(libraryFolder: string): Map<string, SteamAppManifest> {
+  const manifests = new Map<string, SteamAppManifest>();
+  for (const appId of listManifestAppIds(libraryFolder)) {
+    try {
+      manifests.set(appId, readSteamAppManifestSync(appId, [libraryFolder]));
+    } catch {
+      // Skip invalid manifests
+    }
+  }
+  return manifests;
+}
+
+/**
+ * List the app IDs of the manifests in a library
+ */
+function listManifestAppIds(libraryFolder: string): string[] {
+  return listDirectorySync(libraryFolder)
+    .map(file => file.match(MANIFEST_PATTERN)?.[1])
+    .filter((appId): appId is string => appId !== undefined);
+}
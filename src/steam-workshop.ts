@@ -0,0 +1,151 @@
+import { join } from 'path';
+import { existsSync } from 'fs';
+import { SteamAppNotFoundError } from './errors';
+import type { SteamWorkshopItem, VdfObject } from './types';
+import { findSteamPath, findSteamPathSync } from './steam-path';
+import { getLibraryFolders, getLibraryFoldersSync } from './steam-libraries';
+import { getAppLibraryFolder, getAppLibraryFolderSync } from './steam-apps';
+import { getVdfNumber, getVdfObject, getVdfString } from './vdf';
+import {
+  listDirectory,
+  listDirectorySync,
+  pathExists,
+  readVdfFile,
+  readVdfFileSync,
+} from './async-utils';
+
+/**
+ * Get the Workshop items subscribed to or installed for an app
+ * @param appId Steam App ID of the game
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns Promise resolving to the app's Workshop items
+ * @throws {SteamAppNotFoundError} When no library holds the app
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export async function getWorkshopItems(
+  appId: string,
+  steamPath?: string
+): Promise<SteamWorkshopItem[]> {
+  const actualSteamPath = steamPath || (await findSteamPath());
+  const libraryFolders = await getLibraryFolders(actualSteamPath);
+  let libraryFolder = await getAppLibraryFolder(appId, libraryFolders);
+  if (!libraryFolder) {
+    const found = await Promise.all(
+      libraryFolders.map(folder => pathExists(getWorkshopManifestPath(folder, appId)))
+    );
+    libraryFolder = libraryFolders.find((_, i) => found[i]);
+  }
+  if (!libraryFolder) {
+    throw new SteamAppNotFoundError(appId);
+  }
+  const contentDir = getWorkshopContentDir(libraryFolder, appId);
+  const [manifest, contentIds] = await Promise.all([
+    readVdfFile(getWorkshopManifestPath(libraryFolder, appId)),
+    listDirectory(contentDir),
+  ]);
+  const publishedFileIds = getPublishedFileIds(manifest, contentIds);
+  const installed = await Promise.all(
+    publishedFileIds.map(publishedFileId => pathExists(join(contentDir, publishedFileId)))
+  );
+  return toWorkshopItems(appId, contentDir, manifest, publishedFileIds, installed);
+}
+
+/**
+ * Synchronous version of getWorkshopItems
+ * @param appId Steam App ID of the game
+ * @param steamPath Optional Steam installation path (will auto-detect if not provided)
+ * @returns The app's Workshop items
+ * @throws {SteamAppNotFoundError} When no library holds the app
+ * @throws {SteamNotFoundError} When Steam installation cannot be found
+ */
+export function getWorkshopItemsSync(appId: string, steamPath?: string): SteamWorkshopItem[] {
+  const actualSteamPath = steamPath || findSteamPathSync();
+  const libraryFolders = getLibraryFoldersSync(actualSteamPath);
+  const libraryFolder =
+    getAppLibraryFolderSync(appId, libraryFolders) ??
+    libraryFolders.find(folder => existsSync(getWorkshopManifestPath(folder, appId)));
+  if (!libraryFolder) {
+    throw new SteamAppNotFoundError(appId);
+  }
+  const contentDir = getWorkshopContentDir(libraryFolder, appId);
+  const manifest = readVdfFileSync(getWorkshopManifestPath(libraryFolder, appId));
+  const publishedFileIds = getPublishedFileIds(manifest, listDirectorySync(contentDir));
+  const installed = publishedFileIds.map(publishedFileId =>
+    existsSync(join(contentDir, publishedFileId))
+  );
+  return toWorkshopItems(appId, contentDir, manifest, publishedFileIds, installed);
+}
+
+/**
+ * Collect the items named by the appworkshop manifest or present in the content folder
+ * @param contentIds Entries of the content folder, empty when no content has been downloaded
+ */
+function getPublishedFileIds(manifest: VdfObject | undefined, contentIds: string[]): string[] {
+  const workshop = getWorkshopSection(manifest);
+  return [
+    ...new Set([
+      ...Object.keys(getVdfObject(workshop, 'WorkshopItemsInstalled') ?? {}),
+      ...Object.keys(getVdfObject(workshop, 'WorkshopItemDetails') ?? {}),
+      ...contentIds.filter(name => /^\d+$/.test(name)),
+    ]),
+  ];
+}
+
+/**
+ * Build the Workshop items of an app from its appworkshop manifest
+ * @param installed Whether each item's content folder exists, by position in publishedFileIds
+ */
+function toWorkshopItems(
+  appId: string,
+  contentDir: string,
+  manifest: VdfObject | undefined,
+  publishedFileIds: string[],
+  installed: boolean[]
+): SteamWorkshopItem[] {
+  const workshop = getWorkshopSection(manifest);
+  const installedItems = getVdfObject(workshop, 'WorkshopItemsInstalled');
+  const details = getVdfObject(workshop, 'WorkshopItemDetails');
+  const items: SteamWorkshopItem[] = [];
+  publishedFileIds.forEach((publishedFileId, i) => {
+    const installedEntry = getVdfObject(installedItems, publishedFileId);
+    const detailsEntry = getVdfObject(details, publishedFileId);
+    const installPath = join(contentDir, publishedFileId);
+    const isInstalled = installed[i] ?? false;
+    const timeUpdated =
+      getVdfNumber(installedEntry, 'timeupdated') ?? getVdfNumber(detailsEntry, 'timeupdated');
+    const manifestId =
+      getVdfString(installedEntry, 'manifest') ?? getVdfString(detailsEntry, 'manifest');
+    const latestManifestId = getVdfString(detailsEntry, 'latest_manifest');
+    const latestTimeUpdated = getVdfNumber(detailsEntry, 'latest_timeupdated');
+    items.push({
+      publishedFileId,
+      appId,
+      installPath: isInstalled ? installPath : undefined,
+      isInstalled,
+      sizeOnDisk: getVdfNumber(installedEntry, 'size'),
+      timeUpdated: timeUpdated ? new Date(timeUpdated * 1000) : undefined,
+      manifestId,
+      subscribedBy: getVdfString(detailsEntry, 'subscribedby'),
+      needsUpdate:
+        (latestManifestId !== undefined && latestManifestId !== manifestId) ||
+        (latestTimeUpdated !== undefined && latestTimeUpdated > (timeUpdated ?? 0)) ||
+        (!isInstalled && detailsEntry !== undefined),
+    });
+  });
+  return items;
+}
+
+function getWorkshopSection(manifest: VdfObject | undefined): VdfObject | undefined {
+  return getVdfObject(manifest, 'AppWorkshop') ?? manifest;
+}
+
+function getWorkshopContentDir(libraryFolder: string, appId: string): string {
+  return join(libraryFolder, 'workshop', 'content', appId);
+}
+
+/**
+ * Get the path of an app's appworkshop manifest in a library
+ */
+function getWorkshopManifestPath(libraryFolder: string, appId: string): string {
+  return join(libraryFolder, 'workshop', `appworkshop_${appId}.acf`);
+}
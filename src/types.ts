@@ -3,6 +3,34 @@
  */
 export type SteamPlatform = 'win32' | 'darwin' | 'linux';
 
+/**
+ * The running Steam client process
+ */
+export interface SteamProcessInfo {
+  /** Process ID */
+  pid: number;
+  /** Path to the client executable, if it can be read */
+  executablePath?: string | undefined;
+  /** When the process started, if it can be read */
+  startTime?: Date | undefined;
+  /** Command-line arguments after the executable */
+  args: string[];
+  /** Whether the client was started in Big Picture mode or the Steam Deck's gamepad UI */
+  isBigPicture: boolean;
+}
+
+/**
+ * A Steam app that is currently running
+ */
+export interface SteamRunningApp {
+  /** Steam App ID, or the app ID of a non-Steam shortcut */
+  appId: string;
+  /** IDs of the game's processes, empty when the platform does not report them (Windows) */
+  pids: number[];
+  /** The installed app, if the app is installed in a library */
+  app?: SteamApp | undefined;
+}
+
 /**
  * Result of Steam location detection
  */
@@ -17,6 +45,10 @@ export interface SteamLocation {
   version?: string | undefined;
   /** List of Steam library folders */
   libraryFolders: string[];
+  /** How the installation was packaged */
+  variant: SteamInstallationVariant;
+  /** Data directory of the Flatpak or Snap sandbox Steam runs in, if any */
+  sandboxRoot?: string | undefined;
 }
 
 /**
@@ -35,4 +67,899 @@ export interface SteamApp {
   isInstalled: boolean;
   /** Last updated timestamp */
   lastUpdated?: Date | undefined;
+  /** Usage by the selected user, when requested */
+  usage?: SteamAppUsage | undefined;
+}
+
+/**
+ * A state bit from an app manifest's StateFlags
+ */
+export type SteamAppStateFlag =
+  | 'uninstalled'
+  | 'updateRequired'
+  | 'fullyInstalled'
+  | 'encrypted'
+  | 'locked'
+  | 'filesMissing'
+  | 'appRunning'
+  | 'filesCorrupt'
+  | 'updateRunning'
+  | 'updatePaused'
+  | 'updateStarted'
+  | 'uninstalling'
+  | 'backupRunning'
+  | 'reconfiguring'
+  | 'validating'
+  | 'addingFiles'
+  | 'preallocating'
+  | 'downloading'
+  | 'staging'
+  | 'committing'
+  | 'updateStopping';
+
+/**
+ * A depot installed for an app, from the InstalledDepots section of its manifest
+ */
+export interface SteamAppDepot {
+  /** Depot ID */
+  depotId: string;
+  /** ID of the depot manifest that is installed */
+  manifestId: string;
+  /** Size of the depot in bytes */
+  size?: number | undefined;
+  /** App ID of the DLC the depot belongs to, if any */
+  dlcAppId?: string | undefined;
+}
+
+/**
+ * Full contents of an app manifest (appmanifest_<appId>.acf)
+ */
+export interface SteamAppManifest {
+  /** Steam App ID */
+  appId: string;
+  /** Display name of the app */
+  name?: string | undefined;
+  /** Path to the manifest file */
+  manifestPath: string;
+  /** Library steamapps folder holding the manifest */
+  libraryFolder: string;
+  /** Name of the folder under steamapps/common the app installs to */
+  installDirName?: string | undefined;
+  /** Full installation directory path, whether or not it exists */
+  installDir?: string | undefined;
+  /** Raw StateFlags bitmask */
+  stateFlags: number;
+  /** Decoded StateFlags */
+  state: SteamAppStateFlag[];
+  /** Whether Steam considers the app fully installed and up to date */
+  isFullyInstalled: boolean;
+  /** Whether an update is pending or in progress */
+  isUpdating: boolean;
+  /** Build ID that is installed */
+  buildId?: number | undefined;
+  /** Build ID an update is moving to */
+  targetBuildId?: number | undefined;
+  /** Last updated timestamp */
+  lastUpdated?: Date | undefined;
+  /** SteamID64 of the account that last owned the app on this machine */
+  lastOwner?: string | undefined;
+  /** Size on disk in bytes */
+  sizeOnDisk?: number | undefined;
+  /** Bytes the pending update needs to download */
+  bytesToDownload?: number | undefined;
+  /** Bytes of the pending update downloaded so far */
+  bytesDownloaded?: number | undefined;
+  /** Bytes the pending update needs to stage */
+  bytesToStage?: number | undefined;
+  /** Bytes of the pending update staged so far */
+  bytesStaged?: number | undefined;
+  /**
+   * Update setting: 0 keeps the app up to date, 1 updates only on launch and 2 gives it
+   * high priority
+   */
+  autoUpdateBehavior?: number | undefined;
+  /** Depots installed for the app and its DLC */
+  installedDepots: SteamAppDepot[];
+  /** Depots shared from other apps, by depot ID, with the app ID providing each */
+  sharedDepots: Record<string, string>;
+  /** Beta branch the app is on, if not the default branch */
+  betaKey?: string | undefined;
+  /** Language the app is installed in */
+  language?: string | undefined;
+  /** The AppState section of the manifest */
+  data: VdfObject;
+}
+
+/**
+ * A value in a KeyValues (VDF) document: either a string or a nested section
+ */
+export type VdfValue = string | VdfObject;
+
+/**
+ * A section of a KeyValues (VDF) document
+ */
+export interface VdfObject {
+  [key: string]: VdfValue;
+}
+
+/**
+ * Options for parsing text KeyValues (VDF) documents
+ */
+export interface VdfParseOptions {
+  /** Whether to process escape sequences such as `\\` and `\"` in quoted strings (default: true) */
+  escapes?: boolean;
+  /**
+   * How to handle a key that appears more than once in the same section (compared
+   * case-insensitively). `merge` (default) merges repeated sections and keeps the last
+   * string value, `first` keeps the first value and `last` replaces it with the last one
+   */
+  duplicateKeys?: 'merge' | 'first' | 'last';
+  /**
+   * Returns the contents of a file referenced by an `#include` or `#base` directive.
+   * Directives are skipped when no resolver is given or it returns undefined
+   */
+  resolveInclude?: (file: string) => string | undefined;
+}
+
+/**
+ * Options for serializing text KeyValues (VDF) documents
+ */
+export interface VdfStringifyOptions {
+  /** Whether to escape backslashes, quotes and control characters in strings (default: true) */
+  escapes?: boolean;
+  /** Indentation used for each nesting level (default: a tab) */
+  indent?: string;
+}
+
+/**
+ * A value in a binary KeyValues document. Integers are numbers, 64-bit integers are bigints
+ */
+export type BinaryVdfValue = string | number | bigint | BinaryVdfObject;
+
+/**
+ * A section of a binary KeyValues document
+ */
+export interface BinaryVdfObject {
+  [key: string]: BinaryVdfValue;
+}
+
+/**
+ * Options for parsing binary KeyValues documents
+ */
+export interface BinaryVdfParseOptions {
+  /** Key names for documents that store keys as indices into a string table (appinfo.vdf v29) */
+  stringTable?: string[];
+}
+
+/**
+ * Operating systems an app or launch option can target
+ */
+export type SteamAppOS = 'windows' | 'macos' | 'linux';
+
+/**
+ * Type of a Steam app as reported by appinfo.vdf
+ */
+export type SteamAppType =
+  | 'game'
+  | 'application'
+  | 'tool'
+  | 'dlc'
+  | 'demo'
+  | 'music'
+  | 'video'
+  | 'config'
+  | 'beta'
+  | 'other';
+
+/**
+ * A launch option of a Steam app
+ */
+export interface SteamLaunchConfig {
+  /** Key of the launch option within the app's launch section */
+  id: string;
+  /** Executable path relative to the install directory */
+  executable?: string | undefined;
+  /** Command-line arguments passed to the executable */
+  arguments?: string | undefined;
+  /** Working directory relative to the install directory */
+  workingDir?: string | undefined;
+  /** Description shown when Steam asks which option to launch */
+  description?: string | undefined;
+  /** Launch type, such as default, option1 or server */
+  type?: string | undefined;
+  /** Operating systems this option applies to (all if empty) */
+  os: SteamAppOS[];
+  /** CPU architecture this option applies to, such as 32 or 64 */
+  arch?: string | undefined;
+  /** Beta branch this option is restricted to */
+  betaKey?: string | undefined;
+}
+
+/**
+ * Metadata about a Steam app from the client's appinfo.vdf cache
+ */
+export interface SteamAppInfo {
+  /** Steam App ID */
+  appId: string;
+  /** Display name of the app */
+  name?: string | undefined;
+  /** App type */
+  type?: SteamAppType | undefined;
+  /** Developer names, comma separated */
+  developer?: string | undefined;
+  /** Publisher names, comma separated */
+  publisher?: string | undefined;
+  /** Operating systems the app supports */
+  supportedOS: SteamAppOS[];
+  /** Launch options defined for the app */
+  launchConfigs: SteamLaunchConfig[];
+  /** App ID of the parent app for DLC, demos and tools */
+  parentAppId?: string | undefined;
+  /** Name of the folder under steamapps/common the app installs to */
+  installDir?: string | undefined;
+  /** PICS change number the cached data was taken from */
+  changeNumber: number;
+  /** When the cached data was last updated */
+  lastUpdated: Date;
+  /** All appinfo sections, with numbers converted to strings */
+  data: VdfObject;
+}
+
+/**
+ * A Steam account that has signed in to the client
+ */
+export interface SteamUser {
+  /** 64-bit SteamID */
+  steamId64: string;
+  /** 32-bit account ID, used for the userdata folder name */
+  accountId: number;
+  /** SteamID3 form, such as [U:1:22202] */
+  steamId3: string;
+  /** Login name */
+  accountName?: string | undefined;
+  /** Display name at the time of the last sign-in */
+  personaName?: string | undefined;
+  /** Whether this was the most recent account to sign in */
+  mostRecent: boolean;
+  /** Whether the client remembers the account's credentials */
+  rememberPassword: boolean;
+  /** Whether the account prefers to start in offline mode */
+  wantsOfflineMode: boolean;
+  /** Time of the last sign-in */
+  timestamp?: Date | undefined;
+  /** Path to the account's userdata directory if it exists */
+  userDataPath?: string | undefined;
+}
+
+/**
+ * Options selecting the Steam user whose data is read
+ */
+export interface SteamUserOptions {
+  /** Account ID, SteamID64 or SteamID3 of the user (defaults to the most recent user) */
+  userId?: string | number;
+  /** Steam installation path (will auto-detect if not provided) */
+  steamPath?: string;
+}
+
+/**
+ * Options for listing installed apps
+ */
+export interface InstalledSteamAppsOptions {
+  /** Whether to attach each app's usage from the user's localconfig.vdf */
+  includeUsage?: boolean;
+  /** Account ID, SteamID64 or SteamID3 of the user whose usage is attached */
+  userId?: string | number;
+}
+
+/**
+ * A user's usage of a Steam app from userdata/<accountId>/config/localconfig.vdf
+ */
+export interface SteamAppUsage {
+  /** Steam App ID */
+  appId: string;
+  /** Account ID of the user */
+  accountId: number;
+  /** Total playtime in minutes */
+  playtimeMinutes: number;
+  /** Playtime over the last two weeks in minutes */
+  playtimeTwoWeeksMinutes: number;
+  /** When the user last played the app */
+  lastPlayed?: Date | undefined;
+  /** Launch options set by the user */
+  launchOptions?: string | undefined;
+  /** Steam Cloud sync state, such as synchronized or conflict */
+  cloudSyncState?: string | undefined;
+}
+
+/**
+ * A non-Steam game added to a user's library, from userdata/<accountId>/config/shortcuts.vdf
+ */
+export interface SteamShortcut {
+  /** 32-bit app ID used for grid artwork file names */
+  appId: string;
+  /** 64-bit game ID used by steam://rungameid/ */
+  gameId: string;
+  /** Display name */
+  appName: string;
+  /** Executable path, without surrounding quotes */
+  exe: string;
+  /** Working directory, without surrounding quotes */
+  startDir: string;
+  /** Command-line arguments */
+  launchOptions?: string | undefined;
+  /** Path to the icon image */
+  icon?: string | undefined;
+  /** Path to the .desktop or .lnk file the shortcut was created from */
+  shortcutPath?: string | undefined;
+  /** Collections the shortcut belongs to */
+  tags: string[];
+  /** Whether the shortcut is hidden from the library */
+  isHidden: boolean;
+  /** Whether the Steam overlay is enabled */
+  allowOverlay: boolean;
+  /** Whether Steam Input desktop configuration is enabled */
+  allowDesktopConfig: boolean;
+  /** Whether the shortcut is shown in the VR library */
+  openVR: boolean;
+  /** When the shortcut was last launched */
+  lastPlayTime?: Date | undefined;
+}
+
+/**
+ * A non-Steam game to add to a user's library
+ */
+export interface SteamShortcutInput {
+  /** Display name */
+  appName: string;
+  /** Executable path */
+  exe: string;
+  /** Working directory (defaults to the executable's directory) */
+  startDir?: string;
+  /** Command-line arguments */
+  launchOptions?: string;
+  /** Path to the icon image */
+  icon?: string;
+  /** Collections to add the shortcut to */
+  tags?: string[];
+  /** Whether to hide the shortcut from the library (default: false) */
+  isHidden?: boolean;
+  /** Whether to enable the Steam overlay (default: true) */
+  allowOverlay?: boolean;
+  /** Whether to enable Steam Input desktop configuration (default: true) */
+  allowDesktopConfig?: boolean;
+  /** Whether to show the shortcut in the VR library (default: false) */
+  openVR?: boolean;
+}
+
+/**
+ * A compatibility tool Steam can run Windows apps with, such as Proton
+ */
+export interface SteamCompatTool {
+  /** Internal name used in CompatToolMapping, such as proton_9 or GE-Proton9-5 */
+  name: string;
+  /** Name shown in the Steam client */
+  displayName?: string | undefined;
+  /** Directory holding the tool */
+  path: string;
+  /** Whether the tool is an app installed through Steam or a custom build in compatibilitytools.d */
+  source: 'steam' | 'custom';
+  /** App ID of tools installed through Steam */
+  appId?: string | undefined;
+  /** Operating system of the apps the tool runs */
+  fromOS?: string | undefined;
+  /** Operating system the tool runs on */
+  toOS?: string | undefined;
+}
+
+/**
+ * A compatibility tool assignment from CompatToolMapping in config/config.vdf
+ */
+export interface SteamCompatToolAssignment {
+  /** App ID the tool is assigned to, or 0 for the default tool */
+  appId: string;
+  /** Internal name of the assigned tool */
+  name: string;
+  /** Extra tool configuration */
+  config?: string | undefined;
+  /** Priority of the assignment; user choices override those made by Steam */
+  priority?: number | undefined;
+}
+
+/**
+ * A Steam Workshop item subscribed to or installed for an app
+ */
+export interface SteamWorkshopItem {
+  /** Published file ID of the item */
+  publishedFileId: string;
+  /** App ID the item belongs to */
+  appId: string;
+  /** Directory holding the item's content, if downloaded */
+  installPath?: string | undefined;
+  /** Whether the item's content is on disk */
+  isInstalled: boolean;
+  /** Size on disk in bytes */
+  sizeOnDisk?: number | undefined;
+  /** When the installed version was published */
+  timeUpdated?: Date | undefined;
+  /** Manifest ID of the installed version */
+  manifestId?: string | undefined;
+  /** Account ID of the user subscribed to the item */
+  subscribedBy?: string | undefined;
+  /** Whether a newer version is waiting to be downloaded */
+  needsUpdate: boolean;
+}
+
+/**
+ * Options for watching a Steam installation
+ */
+export interface SteamWatchOptions {
+  /** Steam installation path (will auto-detect if not provided) */
+  steamPath?: string;
+  /** Milliseconds to wait for file changes to settle before emitting events (default: 500) */
+  debounceMs?: number;
+  /** Whether the watcher keeps the process running while open (default: true) */
+  persistent?: boolean;
+}
+
+/**
+ * An app appearing in, changing in or being updated in a library
+ */
+export interface SteamAppChangeEvent {
+  /**
+   * `appInstalled` when a manifest appears (downloads start with a manifest, so check
+   * `manifest.isFullyInstalled`), `appUpdated` when the build ID changes and
+   * `appStateChanged` when StateFlags change
+   */
+  type: 'appInstalled' | 'appUpdated' | 'appStateChanged';
+  /** Steam App ID */
+  appId: string;
+  /** Library steamapps folder holding the app */
+  libraryFolder: string;
+  /** The app's manifest after the change */
+  manifest: SteamAppManifest;
+  /** The app's manifest before the change, except for `appInstalled` */
+  previous?: SteamAppManifest | undefined;
+}
+
+/**
+ * An app's manifest being removed from a library, or its library going away
+ */
+export interface SteamAppRemovedEvent {
+  type: 'appUninstalled';
+  /** Steam App ID */
+  appId: string;
+  /** Library steamapps folder that held the app */
+  libraryFolder: string;
+  /** The app's last known manifest */
+  previous: SteamAppManifest;
+}
+
+/**
+ * A library folder being added to or removed from libraryfolders.vdf
+ */
+export interface SteamLibraryChangeEvent {
+  type: 'libraryAdded' | 'libraryRemoved';
+  /** Library steamapps folder */
+  libraryFolder: string;
+}
+
+/**
+ * An event emitted by watchSteam
+ */
+export type SteamWatchEvent = SteamAppChangeEvent | SteamAppRemovedEvent | SteamLibraryChangeEvent;
+
+/**
+ * Name of an event emitted by watchSteam
+ */
+export type SteamWatchEventType = SteamWatchEvent['type'];
+
+/**
+ * The library folders and app-to-library map read together from libraryfolders.vdf
+ */
+export interface SteamLibraryFolderIndex {
+  /** Library steamapps folders that exist, Steam's own first */
+  folders: string[];
+  /** Library steamapps folder by app ID, from the `apps` sections */
+  index: Map<string, string>;
+}
+
+/**
+ * A Steam library folder with the metadata from libraryfolders.vdf and its disk space
+ */
+export interface SteamLibrary {
+  /** Library root directory, as listed in libraryfolders.vdf */
+  path: string;
+  /** The library's steamapps folder, as returned by getLibraryFolders */
+  steamAppsPath: string;
+  /** Key of the library in libraryfolders.vdf */
+  index: string;
+  /** Label given to the library in the Storage Manager */
+  label?: string | undefined;
+  /** Content ID Steam assigns to the library */
+  contentId?: string | undefined;
+  /** Total size Steam recorded for the library's drive in bytes (0 when not known) */
+  totalSize?: number | undefined;
+  /** Bytes Steam counts as cleanly updated in this library */
+  updateCleanBytesTally?: number | undefined;
+  /** Installed apps and their sizes in bytes, by app ID */
+  apps: Record<string, number>;
+  /** Sum of the installed app sizes in bytes */
+  appsSizeOnDisk: number;
+  /** Free space available on the library's filesystem in bytes, if it can be read */
+  freeBytes?: number | undefined;
+  /** Total size of the library's filesystem in bytes, if it can be read */
+  totalBytes?: number | undefined;
+  /** Whether the library's steamapps folder exists, such as when its drive is connected */
+  isAvailable: boolean;
+  /** Whether this is the Steam folder's own library, the default install target */
+  isDefault: boolean;
+}
+
+/**
+ * Options for adding a library folder
+ */
+export interface SteamLibraryAddOptions {
+  /** Steam installation path (will auto-detect if not provided) */
+  steamPath?: string | undefined;
+  /** Label shown for the library in the Storage Manager */
+  label?: string | undefined;
+}
+
+/**
+ * Options for removing a library folder
+ */
+export interface SteamLibraryRemoveOptions {
+  /** Steam installation path (will auto-detect if not provided) */
+  steamPath?: string | undefined;
+  /** Remove the library even if it still holds installed apps */
+  force?: boolean;
+}
+
+/**
+ * Options for creating a SteamLocator. Without a steamPath, Steam is detected with these options
+ * and detected again if the installation disappears
+ */
+export interface SteamLocatorOptions extends SteamDetectionOptions {}
+
+/**
+ * How a Steam installation was packaged: the standard Windows or macOS install, Valve's native
+ * Linux package, Flatpak, Snap, Debian's steam-installer package or SteamOS (Steam Deck)
+ */
+export type SteamInstallationVariant =
+  | 'windows'
+  | 'macos'
+  | 'native'
+  | 'flatpak'
+  | 'snap'
+  | 'debian'
+  | 'steamos';
+
+/**
+ * Options for detecting the Steam installation
+ */
+export interface SteamDetectionOptions {
+  /** Steam installation path to use instead of detecting one */
+  steamPath?: string;
+  /** Environment variable holding a path that overrides detection (default: STEAM_PATH) */
+  envVar?: string;
+  /** Extra installation paths to check before the platform's default locations */
+  extraPaths?: string[];
+  /** Home directory the default locations are relative to (default: os.homedir()) */
+  homeDir?: string;
+  /** Variant to pick when several installations exist, such as native and Flatpak on Linux */
+  preferredVariant?: SteamInstallationVariant;
+}
+
+/**
+ * A distinct Steam installation found on the machine
+ */
+export interface SteamInstallation {
+  /** Installation path, as first found among the candidate locations */
+  path: string;
+  /** Installation path with symlinks resolved */
+  realPath: string;
+  /** Every candidate location that resolved to this installation */
+  aliases: string[];
+  /** How the installation was packaged */
+  variant: SteamInstallationVariant;
+  /** Data directory of the Flatpak or Snap sandbox, which stands in for the home directory */
+  sandboxRoot?: string | undefined;
+}
+
+/**
+ * A Steam action triggered through a steam:// URI
+ */
+export type SteamAction =
+  | {
+      /** Launch an app, installing it first if needed */
+      type: 'run';
+      appId: string | number;
+      /** Launch options passed to the game */
+      args?: string[];
+    }
+  | {
+      /** Open the install dialog for an app */
+      type: 'install';
+      appId: string | number;
+    }
+  | {
+      /** Open the uninstall confirmation for an app */
+      type: 'uninstall';
+      appId: string | number;
+    }
+  | {
+      /** Verify the integrity of an app's files */
+      type: 'validate';
+      appId: string | number;
+    }
+  | {
+      /** Open an app's store page in the client */
+      type: 'store';
+      appId: string | number;
+    }
+  | {
+      /** Open an app's details page in the library */
+      type: 'library';
+      appId: string | number;
+    };
+
+/**
+ * Options for executing a Steam action
+ */
+export interface SteamActionOptions {
+  /** Dispatch through the platform's URI opener or the Steam client itself (default: opener) */
+  via?: 'opener' | 'steam';
+  /** Steam installation path used when dispatching through Steam (will auto-detect if not provided) */
+  steamPath?: string;
+  /** Return the command without running it */
+  dryRun?: boolean;
+}
+
+/**
+ * The command used to trigger a Steam action
+ */
+export interface SteamActionCommand {
+  /** The steam:// URI of the action */
+  uri: string;
+  /** Program that is run */
+  command: string;
+  /** Arguments passed to the program */
+  args: string[];
+  /** Whether the command was started, false in dry-run mode */
+  executed: boolean;
+}
+
+/**
+ * A kind of problem found in a Steam library
+ */
+export type SteamLibraryIssueType =
+  | 'orphanedDirectory'
+  | 'missingInstallDir'
+  | 'unreadableManifest'
+  | 'leftoverDownload'
+  | 'leftoverTemp'
+  | 'staleShaderCache'
+  | 'staleCompatData';
+
+/**
+ * A leftover or broken install found in a Steam library
+ */
+export interface SteamLibraryIssue {
+  /** What kind of problem this is */
+  type: SteamLibraryIssueType;
+  /**
+   * The folder or file concerned; for missingInstallDir, the folder that should exist, and for
+   * unreadableManifest, the manifest
+   */
+  path: string;
+  /** App the problem belongs to, if known */
+  appId?: string | undefined;
+  /** Manifest of the app, for missingInstallDir and unreadableManifest */
+  manifestPath?: string | undefined;
+  /** Bytes freed by removing the path */
+  sizeBytes: number;
+}
+
+/**
+ * Health report of a Steam library
+ */
+export interface SteamLibraryHealth {
+  /** The library's steamapps folder */
+  libraryFolder: string;
+  /** Problems found in the library */
+  issues: SteamLibraryIssue[];
+  /** Bytes freed by cleaning up every issue */
+  reclaimableBytes: number;
+}
+
+/**
+ * Options for cleaning up library issues
+ */
+export interface SteamLibraryCleanupOptions {
+  /** Report what would be removed without removing anything */
+  dryRun?: boolean;
+  /**
+   * Steam installation whose libraryfolders.vdf lists the apps of missing installs (will
+   * auto-detect if not provided)
+   */
+  steamPath?: string | undefined;
+}
+
+/**
+ * Result of cleaning up library issues
+ */
+export interface SteamLibraryCleanupResult {
+  /** Issues that were fixed, or would be in a dry run */
+  removed: SteamLibraryIssue[];
+  /** Bytes freed, or that would be freed in a dry run */
+  reclaimedBytes: number;
+  /** Whether this was a dry run */
+  dryRun: boolean;
+}
+
+/**
+ * Stage of moving an app between libraries
+ */
+export type SteamAppMovePhase = 'copy' | 'verify' | 'remove';
+
+/**
+ * Progress of moving an app between libraries, reported after each file
+ */
+export interface SteamAppMoveProgress {
+  /** Stage the move is in */
+  phase: SteamAppMovePhase;
+  /** File or folder just processed */
+  path: string;
+  /** Bytes processed so far in this stage */
+  processedBytes: number;
+  /** Bytes to process in each stage */
+  totalBytes: number;
+}
+
+/**
+ * Options for moving an app between libraries
+ */
+export interface SteamAppMoveOptions {
+  /** Steam installation path (will auto-detect if not provided) */
+  steamPath?: string | undefined;
+  /** Report what would be moved without touching any files */
+  dryRun?: boolean;
+  /** Called as files are copied, verified and removed */
+  onProgress?: ((progress: SteamAppMoveProgress) => void) | undefined;
+}
+
+/**
+ * Result of moving an app between libraries
+ */
+export interface SteamAppMoveResult {
+  /** Steam App ID */
+  appId: string;
+  /** Library steamapps folder the app was in */
+  sourceLibrary: string;
+  /** Library steamapps folder the app is now in */
+  targetLibrary: string;
+  /** Files and folders moved: the install folder, Workshop content and manifests */
+  paths: { from: string; to: string }[];
+  /** Bytes moved */
+  totalBytes: number;
+  /** Whether this was a dry run, in which case nothing was moved */
+  dryRun: boolean;
+}
+
+/**
+ * CPU architecture an executable is built for; macOS universal binaries hold several
+ */
+export type SteamExecutableArch = 'x86' | 'x64' | 'arm' | 'arm64' | 'universal';
+
+/**
+ * Binary format of an executable: Linux ELF, Windows PE, macOS Mach-O or a script
+ */
+export type SteamExecutableFormat = 'elf' | 'pe' | 'macho' | 'script';
+
+/**
+ * A candidate launch target of an installed app
+ */
+export interface SteamAppExecutable {
+  /** Full path of the executable, or of the bundle for macOS apps */
+  path: string;
+  /** Path relative to the app's install directory */
+  relativePath: string;
+  /** Operating system the executable runs on, if it can be told */
+  os?: SteamAppOS | undefined;
+  /** CPU architecture the executable is built for, if it can be told */
+  arch?: SteamExecutableArch | undefined;
+  /** Binary format, read from the file header */
+  format?: SteamExecutableFormat | undefined;
+  /** Whether the target comes from the app's launch options or from scanning its files */
+  source: 'launchConfig' | 'scan';
+  /** The launch option the target comes from */
+  launchConfig?: SteamLaunchConfig | undefined;
+}
+
+/**
+ * Options for listing a user's screenshots
+ */
+export interface SteamScreenshotOptions extends SteamUserOptions {
+  /** Only list the screenshots of this app */
+  appId?: string | number;
+}
+
+/**
+ * A screenshot taken with the Steam overlay
+ */
+export interface SteamScreenshot {
+  /** Steam App ID of the game the screenshot was taken in */
+  appId: string;
+  /** Full path of the image */
+  path: string;
+  /** Full path of the thumbnail Steam made for the image */
+  thumbnailPath?: string | undefined;
+  /** Width in pixels */
+  width?: number | undefined;
+  /** Height in pixels */
+  height?: number | undefined;
+  /** When the screenshot was taken */
+  createdAt?: Date | undefined;
+  /** Caption added in the screenshot manager */
+  caption?: string | undefined;
+  /** Location in the game, as reported by the game */
+  location?: string | undefined;
+  /** Published file ID, once the screenshot is uploaded to the Steam Community */
+  publishedFileId?: string | undefined;
+  /**
+   * Where the image is stored: Steam's screenshot library in userdata, or the external folder
+   * uncompressed copies are saved to
+   */
+  source: 'steam' | 'external';
+}
+
+/**
+ * The screenshots of one app
+ */
+export interface SteamAppScreenshots {
+  /** Steam App ID */
+  appId: string;
+  /** Name of the app, from the installed apps or the non-Steam shortcut names */
+  name?: string | undefined;
+  /** Screenshots, oldest first */
+  screenshots: SteamScreenshot[];
+}
+
+/**
+ * Kind of library artwork: the wide store header, the portrait library capsule, the hero banner
+ * behind the app page, the logo drawn over the hero, and the small icon
+ */
+export type SteamAppAssetType = 'header' | 'capsule' | 'hero' | 'logo' | 'icon';
+
+/**
+ * A library artwork image found on disk
+ */
+export interface SteamAppAsset {
+  /** Full path of the image */
+  path: string;
+  /**
+   * Where the image comes from: artwork the user set in userdata/<id>/config/grid, the client's
+   * appcache/librarycache, or the icon set on a non-Steam shortcut
+   */
+  source: 'custom' | 'librarycache' | 'shortcut';
+}
+
+/**
+ * The library artwork of an app, as the client would show it
+ */
+export interface SteamAppAssets {
+  /** Steam App ID, or the 32-bit app ID of a non-Steam shortcut */
+  appId: string;
+  /** Wide header image */
+  header?: SteamAppAsset | undefined;
+  /** Portrait library capsule */
+  capsule?: SteamAppAsset | undefined;
+  /** Hero banner */
+  hero?: SteamAppAsset | undefined;
+  /** Logo drawn over the hero */
+  logo?: SteamAppAsset | undefined;
+  /** Small icon */
+  icon?: SteamAppAsset | undefined;
+  /** Kinds of artwork with no image on disk */
+  missing: SteamAppAssetType[];
 }
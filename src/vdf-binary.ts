@@ -0,0 +1,190 @@
+import { VdfParseError } from './errors';
+import type { BinaryVdfObject, BinaryVdfParseOptions, BinaryVdfValue, VdfObject } from './types';
+
+const TYPE_SECTION = 0x00;
+const TYPE_STRING = 0x01;
+const TYPE_INT32 = 0x02;
+const TYPE_FLOAT32 = 0x03;
+const TYPE_POINTER = 0x04;
+const TYPE_WIDE_STRING = 0x05;
+const TYPE_COLOR = 0x06;
+const TYPE_UINT64 = 0x07;
+const TYPE_END = 0x08;
+const TYPE_INT64 = 0x0a;
+const TYPE_ALTERNATE_END = 0x0b;
+
+/**
+ * Parse a binary KeyValues document, as used by appinfo.vdf and shortcuts.vdf
+ * @param buffer Document contents
+ * @param options Parsing options
+ * @returns Root section of the document
+ * @throws {VdfParseError} When the document is truncated or contains an unknown type
+ */
+export function parseBinaryVdf(
+  buffer: Buffer,
+  options: BinaryVdfParseOptions = {}
+): BinaryVdfObject {
+  const { stringTable } = options;
+  let offset = 0;
+
+  const ensure = (length: number) => {
+    if (offset + length > buffer.length) {
+      throw new VdfParseError(`Unexpected end of binary VDF data at offset ${offset}`);
+    }
+  };
+
+  const readString = (): string => {
+    const end = buffer.indexOf(0, offset);
+    if (end === -1) {
+      throw new VdfParseError(`Unterminated string at offset ${offset}`);
+    }
+    const value = buffer.toString('utf8', offset, end);
+    offset = end + 1;
+    return value;
+  };
+
+  const readWideString = (): string => {
+    let end = offset;
+    while (end + 1 < buffer.length && (buffer[end] !== 0 || buffer[end + 1] !== 0)) {
+      end += 2;
+    }
+    ensure(end + 2 - offset);
+    const value = buffer.toString('utf16le', offset, end);
+    offset = end + 2;
+    return value;
+  };
+
+  const readKey = (): string => {
+    if (!stringTable) {
+      return readString();
+    }
+    ensure(4);
+    const index = buffer.readUInt32LE(offset);
+    offset += 4;
+    const key = stringTable[index];
+    if (key === undefined) {
+      throw new VdfParseError(`String table index ${index} out of range`);
+    }
+    return key;
+  };
+
+  const readSection = (nested: boolean): BinaryVdfObject => {
+    const section: BinaryVdfObject = {};
+    while (offset < buffer.length) {
+      const typeOffset = offset;
+      const type = buffer[offset++];
+      if (type === TYPE_END || type === TYPE_ALTERNATE_END) {
+        return section;
+      }
+      const key = readKey();
+      switch (type) {
+        case TYPE_SECTION:
+          section[key] = readSection(true);
+          break;
+        case TYPE_STRING:
+          section[key] = readString();
+          break;
+        case TYPE_WIDE_STRING:
+          section[key] = readWideString();
+          break;
+        case TYPE_INT32:
+        case TYPE_POINTER:
+        case TYPE_COLOR:
+          ensure(4);
+          section[key] = buffer.readInt32LE(offset);
+          offset += 4;
+          break;
+        case TYPE_FLOAT32:
+          ensure(4);
+          section[key] = buffer.readFloatLE(offset);
+          offset += 4;
+          break;
+        case TYPE_UINT64:
+          ensure(8);
+          section[key] = buffer.readBigUInt64LE(offset);
+          offset += 8;
+          break;
+        case TYPE_INT64:
+          ensure(8);
+          section[key] = buffer.readBigInt64LE(offset);
+          offset += 8;
+          break;
+        default:
+          throw new VdfParseError(
+            `Unknown binary VDF type 0x${type?.toString(16)} at offset ${typeOffset}`
+          );
+      }
+    }
+    if (nested) {
+      throw new VdfParseError('Unexpected end of binary VDF data, expected end of section');
+    }
+    return section;
+  };
+
+  return readSection(false);
+}
+
+/**
+ * Convert a binary KeyValues section to the text model, turning numbers into strings
+ */
+export function binaryVdfToObject(data: BinaryVdfObject): VdfObject {
+  const result: VdfObject = {};
+  for (const key of Object.keys(data)) {
+    const value = data[key] as BinaryVdfValue;
+    result[key] = typeof value === 'object' ? binaryVdfToObject(value) : String(value);
+  }
+  return result;
+}
+
+/**
+ * Serialize a section as a binary KeyValues document. Integers are written as 32-bit
+ * values, other numbers as floats and bigints as 64-bit values
+ * @param data Root section to serialize
+ * @returns Document contents
+ */
+export function serializeBinaryVdf(data: BinaryVdfObject): Buffer {
+  const parts: Buffer[] = [];
+  const cString = (value: string) => Buffer.from(value + '\0', 'utf8');
+  const write = (section: BinaryVdfObject) => {
+    for (const key of Object.keys(section)) {
+      const value = section[key] as BinaryVdfValue;
+      if (typeof value === 'string') {
+        parts.push(Buffer.from([TYPE_STRING]), cString(key), cString(value));
+      } else if (typeof value === 'bigint') {
+        const buffer = Buffer.alloc(8);
+        if (value < BigInt(0)) {
+          buffer.writeBigInt64LE(value);
+        } else {
+          buffer.writeBigUInt64LE(value);
+        }
+        parts.push(
+          Buffer.from([value < BigInt(0) ? TYPE_INT64 : TYPE_UINT64]),
+          cString(key),
+          buffer
+        );
+      } else if (typeof value === 'number') {
+        const buffer = Buffer.alloc(4);
+        if (!Number.isInteger(value)) {
+          buffer.writeFloatLE(value);
+        } else if (value > 0x7fffffff) {
+          // Unsigned values such as shortcut app IDs share the int32 type
+          buffer.writeUInt32LE(value);
+        } else {
+          buffer.writeInt32LE(value);
+        }
+        parts.push(
+          Buffer.from([Number.isInteger(value) ? TYPE_INT32 : TYPE_FLOAT32]),
+          cString(key),
+          buffer
+        );
+      } else {
+        parts.push(Buffer.from([TYPE_SECTION]), cString(key));
+        write(value);
+        parts.push(Buffer.from([TYPE_END]));
+      }
+    }
+  };
+  write(data);
+  parts.push(Buffer.from([TYPE_END]));
+  return Buffer.concat(parts);
+}
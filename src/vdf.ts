@@ -0,0 +1,522 @@
+import { VdfParseError } from './errors';
+import type {
+  BinaryVdfObject,
+  VdfObject,
+  VdfParseOptions,
+  VdfStringifyOptions,
+  VdfValue,
+} from './types';
+
+type VdfToken =
+  | { type: 'string'; value: string; quoted: boolean; start: number }
+  | { type: 'open' | 'close' | 'conditional' | 'eof'; start: number };
+
+const ESCAPE_SEQUENCES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  v: '\v',
+  b: '\b',
+  f: '\f',
+  a: '\x07',
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+  '?': '?',
+};
+
+/** Where a key and its value sit in the source text */
+interface VdfEntrySpan {
+  keyStart: number;
+  keyEnd: number;
+  valueStart: number;
+  valueEnd: number;
+  value: VdfValue;
+}
+
+/** Where the entries of a section sit in the source text */
+interface VdfSectionSpan {
+  entries: Map<string, VdfEntrySpan>;
+  /** Offset of the closing brace, or the end of the document for the root section */
+  end: number;
+}
+
+interface VdfTextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const MAX_INCLUDE_DEPTH = 16;
+
+/**
+ * Parse a text KeyValues (VDF/ACF) document into a nested object. As with any JavaScript
+ * object, integer-like keys enumerate in ascending order rather than document order
+ * @param text Document contents
+ * @param options Parsing options
+ * @returns Root section of the document
+ * @throws {VdfParseError} When the document is malformed
+ */
+export function parseVdf<T extends VdfObject = VdfObject>(
+  text: string,
+  options: VdfParseOptions = {}
+): T {
+  return parseVdfDocument(text, options, 0) as T;
+}
+
+/**
+ * Serialize a nested object into a text KeyValues (VDF) document
+ * @param data Root section to serialize
+ * @param options Serialization options
+ * @returns Document contents in the layout Steam writes
+ */
+export function stringifyVdf(data: VdfObject, options: VdfStringifyOptions = {}): string {
+  const indent = options.indent ?? '\t';
+  const escapes = options.escapes !== false;
+  const lines: string[] = [];
+  const quote = (value: string) => `"${escapes ? escapeVdfString(value) : value}"`;
+  const write = (section: VdfObject, depth: number) => {
+    const padding = indent.repeat(depth);
+    for (const key of Object.keys(section)) {
+      const value = section[key];
+      if (typeof value === 'string') {
+        lines.push(`${padding}${quote(key)}\t\t${quote(value)}`);
+      } else if (value !== undefined) {
+        lines.push(`${padding}${quote(key)}`, `${padding}{`);
+        write(value, depth + 1);
+        lines.push(`${padding}}`);
+      }
+    }
+  };
+  write(data, 0);
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+/**
+ * Apply changes to a text KeyValues document without rewriting it. The document is parsed, the
+ * callback changes the parsed sections in place, and only the entries it added, removed or
+ * changed are edited in the text, so comments, layout, quoting and key order are kept. A section
+ * moved to another key in the same section, as when renumbering, is renamed where it stands
+ * @param text Document contents
+ * @param update Called with the root section to modify
+ * @param options Escaping of the document and indentation of added entries
+ * @returns The edited document, identical to the input if nothing changed
+ * @throws {VdfParseError} When the document is malformed
+ */
+export function editVdf(
+  text: string,
+  update: (root: VdfObject) => void,
+  options: VdfStringifyOptions = {}
+): string {
+  const bom = text.charCodeAt(0) === 0xfeff ? text.slice(0, 1) : '';
+  const source = text.slice(bom.length);
+  const spans = new Map<VdfObject, VdfSectionSpan>();
+  const root = parseVdfDocument(source, { escapes: options.escapes !== false }, 0, spans);
+  update(root);
+
+  const edits: VdfTextEdit[] = [];
+  const escapes = options.escapes !== false;
+  const quote = (value: string) => `"${escapes ? escapeVdfString(value) : value}"`;
+  const diffSection = (section: VdfObject, span: VdfSectionSpan) => {
+    const kept = new Set<string>();
+    for (const [key, entry] of span.entries) {
+      const original = entry.value;
+      if (typeof original === 'string') {
+        const value = section[key];
+        if (typeof value !== 'string') {
+          edits.push(removeVdfEntry(source, entry));
+        } else {
+          kept.add(key);
+          if (value !== original) {
+            edits.push({ start: entry.valueStart, end: entry.valueEnd, text: quote(value) });
+          }
+        }
+        continue;
+      }
+      const newKey =
+        section[key] === original ? key : Object.keys(section).find(k => section[k] === original);
+      if (newKey === undefined || kept.has(newKey)) {
+        edits.push(removeVdfEntry(source, entry));
+        continue;
+      }
+      kept.add(newKey);
+      if (newKey !== key) {
+        edits.push({ start: entry.keyStart, end: entry.keyEnd, text: quote(newKey) });
+      }
+      const nested = spans.get(original);
+      if (nested) {
+        diffSection(original, nested);
+      }
+    }
+
+    const added: VdfObject = {};
+    for (const key of Object.keys(section)) {
+      const value = section[key];
+      if (!kept.has(key) && value !== undefined) {
+        added[key] = value;
+      }
+    }
+    if (Object.keys(added).length > 0) {
+      edits.push(insertVdfEntries(source, span.end, added, options));
+    }
+  };
+  const rootSpan = spans.get(root);
+  if (rootSpan) {
+    diffSection(root, rootSpan);
+  }
+
+  let result = source;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return bom + result;
+}
+
+/**
+ * Find the actual spelling of a key in a section, comparing case-insensitively
+ * @returns The matching key, or undefined if the section has no such key
+ */
+export function findVdfKey(section: VdfObject | BinaryVdfObject, key: string): string | undefined {
+  if (Object.prototype.hasOwnProperty.call(section, key)) {
+    return key;
+  }
+  const lowerKey = key.toLowerCase();
+  return Object.keys(section).find(k => k.toLowerCase() === lowerKey);
+}
+
+/**
+ * Look up a value by a path of case-insensitive keys
+ * @param section Section to start from
+ * @param path Keys to follow, outermost first
+ */
+export function getVdfValue(
+  section: VdfObject | undefined,
+  ...path: string[]
+): VdfValue | undefined {
+  let current: VdfValue | undefined = section;
+  for (const key of path) {
+    if (current === undefined || typeof current === 'string') {
+      return undefined;
+    }
+    const actualKey = findVdfKey(current, key);
+    current = actualKey !== undefined ? current[actualKey] : undefined;
+  }
+  return current;
+}
+
+/**
+ * Look up a string value by a path of case-insensitive keys
+ */
+export function getVdfString(
+  section: VdfObject | undefined,
+  ...path: string[]
+): string | undefined {
+  const value = getVdfValue(section, ...path);
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Look up a numeric value by a path of case-insensitive keys
+ */
+export function getVdfNumber(
+  section: VdfObject | undefined,
+  ...path: string[]
+): number | undefined {
+  const value = getVdfString(section, ...path);
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = parseInt(value, 10);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+/**
+ * Look up a nested section by a path of case-insensitive keys
+ */
+export function getVdfObject(
+  section: VdfObject | undefined,
+  ...path: string[]
+): VdfObject | undefined {
+  const value = getVdfValue(section, ...path);
+  return typeof value === 'object' ? value : undefined;
+}
+
+/**
+ * Escape a string for use inside a quoted KeyValues token
+ */
+function escapeVdfString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * Remove an entry from the text, along with its line when nothing else is on it
+ */
+function removeVdfEntry(source: string, entry: VdfEntrySpan): VdfTextEdit {
+  const lineStart = source.lastIndexOf('\n', entry.keyStart - 1) + 1;
+  const lineEnd = source.indexOf('\n', entry.valueEnd);
+  const before = source.slice(lineStart, entry.keyStart);
+  const after = source.slice(entry.valueEnd, lineEnd === -1 ? source.length : lineEnd);
+  if (before.trim() === '' && after.trim() === '') {
+    return { start: lineStart, end: lineEnd === -1 ? source.length : lineEnd + 1, text: '' };
+  }
+  return { start: entry.keyStart, end: entry.valueEnd, text: '' };
+}
+
+/**
+ * Insert entries at the end of a section, indented one level deeper than its closing brace
+ */
+function insertVdfEntries(
+  source: string,
+  end: number,
+  entries: VdfObject,
+  options: VdfStringifyOptions
+): VdfTextEdit {
+  const lineStart = source.lastIndexOf('\n', end - 1) + 1;
+  const isRoot = end >= source.length;
+  const isOwnLine = source.slice(lineStart, end).trim() === '';
+  const padding = source.slice(lineStart).match(/^[ \t]*/)?.[0] ?? '';
+  const entryPadding = isRoot ? '' : `${padding}${options.indent ?? '\t'}`;
+  const lines = stringifyVdf(entries, options)
+    .split('\n')
+    .filter(line => line.length > 0)
+    .map(line => `${entryPadding}${line}\n`)
+    .join('');
+  if (isRoot) {
+    const separator = source.length > 0 && !source.endsWith('\n') ? '\n' : '';
+    return { start: end, end, text: separator + lines };
+  }
+  // A section closed on the line it opens, such as `"apps" { }`, is split over several lines
+  return isOwnLine
+    ? { start: lineStart, end: lineStart, text: lines }
+    : { start: end, end, text: `\n${lines}${padding}` };
+}
+
+/**
+ * Parse a document, resolving directives up to a maximum include depth. When spans is given, the
+ * source position of every section and entry is recorded in it
+ */
+function parseVdfDocument(
+  text: string,
+  options: VdfParseOptions,
+  depth: number,
+  spans?: Map<VdfObject, VdfSectionSpan>
+): VdfObject {
+  const escapes = options.escapes !== false;
+  const duplicateKeys = options.duplicateKeys ?? 'merge';
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  let pos = 0;
+
+  const fail = (message: string, at: number): never => {
+    const before = source.slice(0, at).split('\n');
+    throw new VdfParseError(message, before.length, (before[before.length - 1]?.length ?? 0) + 1);
+  };
+
+  const skipWhitespaceAndComments = () => {
+    while (pos < source.length) {
+      const char = source[pos];
+      if (char === ' ' || char === '\t' || char === '\r' || char === '\n') {
+        pos++;
+      } else if (char === '/' && source[pos + 1] === '/') {
+        while (pos < source.length && source[pos] !== '\n') pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readToken = (): VdfToken => {
+    skipWhitespaceAndComments();
+    const start = pos;
+    if (pos >= source.length) {
+      return { type: 'eof', start };
+    }
+    const char = source[pos];
+    if (char === '{') {
+      pos++;
+      return { type: 'open', start };
+    }
+    if (char === '}') {
+      pos++;
+      return { type: 'close', start };
+    }
+    if (char === '[') {
+      const end = source.indexOf(']', pos);
+      if (end === -1) {
+        fail('Unterminated conditional', start);
+      }
+      pos = end + 1;
+      return { type: 'conditional', start };
+    }
+    if (char === '"') {
+      pos++;
+      let value = '';
+      let segmentStart = pos;
+      while (pos < source.length && source[pos] !== '"') {
+        if (escapes && source[pos] === '\\' && pos + 1 < source.length) {
+          const next = source[pos + 1] as string;
+          const escaped = ESCAPE_SEQUENCES[next];
+          value += source.slice(segmentStart, pos) + (escaped ?? '\\' + next);
+          pos += 2;
+          segmentStart = pos;
+        } else {
+          pos++;
+        }
+      }
+      if (pos >= source.length) {
+        fail('Unterminated string', start);
+      }
+      value += source.slice(segmentStart, pos);
+      pos++;
+      return { type: 'string', value, quoted: true, start };
+    }
+    while (pos < source.length && !/[\s{}"]/.test(source[pos] as string)) {
+      pos++;
+    }
+    return { type: 'string', value: source.slice(start, pos), quoted: false, start };
+  };
+
+  const resolveDirective = (file: string): VdfObject | undefined => {
+    if (!options.resolveInclude || depth >= MAX_INCLUDE_DEPTH) {
+      return undefined;
+    }
+    const contents = options.resolveInclude(file);
+    return contents !== undefined ? parseVdfDocument(contents, options, depth + 1) : undefined;
+  };
+
+  const parseSection = (nested: boolean): VdfObject => {
+    const section: VdfObject = {};
+    const keyIndex = new Map<string, string>();
+    const bases: VdfObject[] = [];
+    const span: VdfSectionSpan = { entries: new Map(), end: source.length };
+    spans?.set(section, span);
+
+    const assign = (key: string, value: VdfValue, entry?: Omit<VdfEntrySpan, 'value'>) => {
+      const existingKey = keyIndex.get(key.toLowerCase());
+      if (existingKey === undefined) {
+        keyIndex.set(key.toLowerCase(), key);
+        section[key] = value;
+        if (entry) {
+          span.entries.set(key, { ...entry, value });
+        }
+        return;
+      }
+      const existing = section[existingKey];
+      if (duplicateKeys === 'first') {
+        return;
+      }
+      if (duplicateKeys === 'merge' && typeof existing === 'object' && typeof value === 'object') {
+        mergeVdfObjects(existing, value);
+        return;
+      }
+      section[existingKey] = value;
+    };
+
+    for (;;) {
+      const token = readToken();
+      if (token.type === 'eof') {
+        if (nested) {
+          fail('Unexpected end of input, expected "}"', token.start);
+        }
+        break;
+      }
+      if (token.type === 'close') {
+        if (!nested) {
+          fail('Unexpected "}"', token.start);
+        }
+        span.end = token.start;
+        break;
+      }
+      if (token.type === 'conditional') {
+        continue;
+      }
+      if (token.type === 'open') {
+        fail('Unexpected "{", expected a key', token.start);
+      }
+      if (token.type !== 'string') {
+        continue;
+      }
+
+      const key = token.value;
+      const keyEnd = pos;
+      let valueToken = readToken();
+      if (valueToken.type === 'conditional') {
+        valueToken = readToken();
+      }
+
+      if (!token.quoted && (key === '#include' || key === '#base')) {
+        if (valueToken.type !== 'string') {
+          fail(`Expected a file name after ${key}`, valueToken.start);
+        } else {
+          const included = resolveDirective(valueToken.value);
+          if (included && key === '#include') {
+            for (const includedKey of Object.keys(included)) {
+              assign(includedKey, included[includedKey] as VdfValue);
+            }
+          } else if (included) {
+            bases.push(included);
+          }
+        }
+        continue;
+      }
+
+      let value: VdfValue;
+      if (valueToken.type === 'open') {
+        value = parseSection(true);
+      } else if (valueToken.type === 'string') {
+        value = valueToken.value;
+      } else {
+        return fail(`Expected a value or "{" after key "${key}"`, valueToken.start);
+      }
+      const valueEnd = pos;
+      skipWhitespaceAndComments();
+      if (source[pos] === '[') {
+        readToken();
+      }
+      assign(key, value, { keyStart: token.start, keyEnd, valueStart: valueToken.start, valueEnd });
+    }
+
+    for (const base of bases) {
+      applyVdfDefaults(section, base);
+    }
+    return section;
+  };
+
+  return parseSection(false);
+}
+
+/**
+ * Merge the keys of a section into another, later values taking precedence
+ */
+function mergeVdfObjects(target: VdfObject, source: VdfObject): void {
+  for (const key of Object.keys(source)) {
+    const value = source[key] as VdfValue;
+    const targetKey = findVdfKey(target, key);
+    const existing = targetKey !== undefined ? target[targetKey] : undefined;
+    if (typeof existing === 'object' && typeof value === 'object') {
+      mergeVdfObjects(existing, value);
+    } else {
+      target[targetKey ?? key] = value;
+    }
+  }
+}
+
+/**
+ * Fill in keys missing from a section with the values of a #base document
+ */
+function applyVdfDefaults(target: VdfObject, base: VdfObject): void {
+  for (const key of Object.keys(base)) {
+    const value = base[key] as VdfValue;
+    const targetKey = findVdfKey(target, key);
+    const existing = targetKey !== undefined ? target[targetKey] : undefined;
+    if (existing === undefined) {
+      target[key] = value;
+    } else if (typeof existing === 'object' && typeof value === 'object') {
+      applyVdfDefaults(existing, value);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { mapWithConcurrency } from '../src/async-utils';
+
+describe('async-utils', () => {
+  it('should bound concurrency and keep results in order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const items = Array.from({ length: 20 }, (_, i) => i);
+
+    const results = await mapWithConcurrency(items, 4, async item => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      // Finish out of order so ordering comes from the index, not completion
+      for (let i = 0; i < (20 - item) % 5; i++) {
+        await Promise.resolve();
+      }
+      inFlight--;
+      return item * 2;
+    });
+
+    expect(results).toEqual(items.map(item => item * 2));
+    expect(maxInFlight).toBe(4);
+  });
+
+  it('should handle empty input', async () => {
+    await expect(mapWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+  });
+});
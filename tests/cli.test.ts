@@ -0,0 +1,156 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli, CLI_EXIT_CODES } from '../src/cli';
+
+jest.mock('../src/steam-process', () => ({
+  ...jest.requireActual('../src/steam-process'),
+  isSteamRunning: jest.fn(async () => false),
+}));
+
+import { isSteamRunning } from '../src/steam-process';
+
+function manifest(appId: string, name: string, size: number): string {
+  return `"AppState"\n{\n\t"appid"\t\t"${appId}"\n\t"name"\t\t"${name}"\n\t"installdir"\t\t"${name}"\n\t"SizeOnDisk"\t\t"${size}"\n}\n`;
+}
+
+describe('cli', () => {
+  let steamPath: string;
+  let libraryFolder: string;
+  let stdout: string;
+  let stderr: string;
+  const io = {
+    stdout: (text: string) => {
+      stdout += text;
+    },
+    stderr: (text: string) => {
+      stderr += text;
+    },
+  };
+
+  beforeEach(() => {
+    stdout = '';
+    stderr = '';
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-cli-'));
+    libraryFolder = join(steamPath, 'steamapps');
+    for (const [appId, name, size] of [
+      ['570', 'Dota 2', 2048],
+      ['440', 'Team Fortress 2', 4096],
+    ] as const) {
+      mkdirSync(join(libraryFolder, 'common', name), { recursive: true });
+      writeFileSync(join(libraryFolder, `appmanifest_${appId}.acf`), manifest(appId, name, size));
+    }
+  });
+
+  afterEach(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  it('should print the Steam path', async () => {
+    const code = await runCli(['path', '--steam-path', steamPath], io);
+
+    expect(code).toBe(CLI_EXIT_CODES.success);
+    expect(stdout).toBe(`${steamPath}\n`);
+  });
+
+  it('should list apps as a table sorted by app ID', async () => {
+    const code = await runCli(['apps', `--steam-path=${steamPath}`], io);
+    const lines = stdout.trim().split('\n');
+
+    expect(code).toBe(CLI_EXIT_CODES.success);
+    expect(lines[0]).toMatch(/^APP ID\s+NAME\s+SIZE\s+INSTALL DIR$/);
+    expect(lines[1]).toMatch(/^440\s+Team Fortress 2\s+4\.0 KB\s+/);
+    expect(lines[2]).toMatch(/^570\s+Dota 2\s+2\.0 KB\s+/);
+  });
+
+  it('should filter and sort apps as JSON', async () => {
+    const code = await runCli(
+      ['apps', '--steam-path', steamPath, '--json', '--name', 'dota', '--sort', 'size'],
+      io
+    );
+
+    expect(code).toBe(CLI_EXIT_CODES.success);
+    expect(JSON.parse(stdout)).toEqual([
+      expect.objectContaining({ appId: '570', name: 'Dota 2', sizeOnDisk: 2048 }),
+    ]);
+  });
+
+  it('should only list apps in the given library folder', async () => {
+    const otherLibrary = `${steamPath}2`;
+    mkdirSync(join(otherLibrary, 'steamapps', 'common', 'Portal'), { recursive: true });
+    writeFileSync(
+      join(otherLibrary, 'steamapps', 'appmanifest_400.acf'),
+      manifest('400', 'Portal', 1024)
+    );
+    writeFileSync(
+      join(libraryFolder, 'libraryfolders.vdf'),
+      `"libraryfolders"\n{\n\t"0"\n\t{\n\t\t"path"\t\t"${steamPath}"\n\t}\n\t"1"\n\t{\n\t\t"path"\t\t"${otherLibrary}"\n\t}\n}\n`
+    );
+
+    try {
+      const code = await runCli(
+        ['apps', '--steam-path', steamPath, '--json', '--library', steamPath],
+        io
+      );
+
+      expect(code).toBe(CLI_EXIT_CODES.success);
+      expect(JSON.parse(stdout).map((app: { appId: string }) => app.appId)).toEqual(['440', '570']);
+
+      stdout = '';
+      await runCli(
+        ['apps', '--steam-path', steamPath, '--json', '--library', join(otherLibrary, 'steamapps')],
+        io
+      );
+      expect(JSON.parse(stdout).map((app: { appId: string }) => app.appId)).toEqual(['400']);
+    } finally {
+      rmSync(otherLibrary, { recursive: true, force: true });
+    }
+  });
+
+  it('should print an app as key/value lines', async () => {
+    const code = await runCli(['app', '440', '--steam-path', steamPath], io);
+
+    expect(code).toBe(CLI_EXIT_CODES.success);
+    expect(stdout).toContain('name         Team Fortress 2\n');
+    expect(stdout).toContain(`installDir   ${join(libraryFolder, 'common', 'Team Fortress 2')}\n`);
+  });
+
+  it('should exit with the app not found code for unknown apps', async () => {
+    const code = await runCli(['app', '999', '--steam-path', steamPath], io);
+
+    expect(code).toBe(CLI_EXIT_CODES.appNotFound);
+    expect(stderr).toContain('999');
+  });
+
+  it('should exit with the Steam not found code when --steam-path does not exist', async () => {
+    const missingPath = join(steamPath, 'missing');
+    for (const args of [['path'], ['info'], ['libraries'], ['apps'], ['app', '440']]) {
+      stdout = '';
+      stderr = '';
+      const code = await runCli([...args, '--steam-path', missingPath], io);
+
+      expect(code).toBe(CLI_EXIT_CODES.steamNotFound);
+      expect(stdout).toBe('');
+      expect(stderr).toContain(missingPath);
+    }
+  });
+
+  it('should exit with the usage code for invalid arguments', async () => {
+    expect(await runCli([], io)).toBe(CLI_EXIT_CODES.usage);
+    expect(await runCli(['launch'], io)).toBe(CLI_EXIT_CODES.usage);
+    expect(await runCli(['apps', '--sort', 'date'], io)).toBe(CLI_EXIT_CODES.usage);
+    expect(await runCli(['app'], io)).toBe(CLI_EXIT_CODES.usage);
+    expect(stderr).toContain('Usage: steam-locate');
+  });
+
+  it('should exit with a failure code when Steam is not running', async () => {
+    const code = await runCli(['running', '--json'], io);
+
+    expect(code).toBe(CLI_EXIT_CODES.failure);
+    expect(stdout).toBe('false\n');
+    expect(isSteamRunning).toHaveBeenCalledWith(undefined);
+
+    await runCli(['running', '--steam-path', steamPath], io);
+    expect(isSteamRunning).toHaveBeenLastCalledWith(steamPath);
+  });
+});
@@ -0,0 +1,18 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+
+/**
+ * Create an empty folder under the system temp folder, to be removed by the test
+ */
+export function createTempDir(prefix: string): string {
+  return mkdtempSync(join(tmpdir(), `${prefix}-`));
+}
+
+/**
+ * Write a file, creating the folders above it
+ */
+export function writeFile(path: string, content: Buffer | string = ''): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, content);
+}
@@ -2,6 +2,8 @@ import {
   findSteamLocation,
   findSteamLocationSync,
   isSteamRunning,
+  isSteamRunningSync,
+  getSteamProcessInfo,
   findSteamApp,
   getInstalledSteamApps,
   SteamNotFoundError,
@@ -12,18 +14,64 @@ import { join, normalize } from 'path';
 // Mock child_process module
 jest.mock('child_process');
 jest.mock('fs');
+jest.mock('fs/promises');
 jest.mock('os');
 
-import { execSync } from 'child_process';
-import { existsSync, readFileSync, readdirSync } from 'fs';
+import { exec, execSync } from 'child_process';
+import { existsSync, readdirSync, readFileSync, readlinkSync } from 'fs';
+import { access, readFile, readdir, readlink } from 'fs/promises';
 import { platform, homedir } from 'os';
 
 const mockExecSync = execSync as jest.MockedFunction<typeof execSync>;
 const mockExistsSync = existsSync as jest.MockedFunction<typeof existsSync>;
 const mockReadFileSync = readFileSync as jest.MockedFunction<typeof readFileSync>;
-const mockReaddirSync = readdirSync as jest.MockedFunction<typeof readdirSync>;
+const mockReaddirSync = readdirSync as unknown as jest.Mock;
+const mockReadlinkSync = readlinkSync as unknown as jest.Mock;
 const mockPlatform = platform as jest.MockedFunction<typeof platform>;
 const mockHomedir = homedir as jest.MockedFunction<typeof homedir>;
+const mockExec = exec as unknown as jest.Mock;
+const mockAccess = access as jest.MockedFunction<typeof access>;
+const mockReadFile = readFile as unknown as jest.Mock;
+const mockReaddir = readdir as unknown as jest.Mock;
+const mockReadlink = readlink as unknown as jest.Mock;
+
+/**
+ * Make async commands print the given outputs in order, failing once they run out
+ */
+function mockExecOutputs(...outputs: string[]): void {
+  mockExec.mockImplementation((_command, _options, callback) => {
+    const output = outputs.shift();
+    if (output === undefined) {
+      callback(new Error('Command failed'), '', '');
+    } else {
+      callback(null, output, '');
+    }
+  });
+}
+
+/**
+ * Make async existence checks succeed for paths matching the predicate
+ */
+function mockPathsExist(exists: (path: string) => boolean): void {
+  mockAccess.mockImplementation(async path => {
+    if (!exists(String(path))) {
+      throw Object.assign(new Error(`ENOENT: ${String(path)}`), { code: 'ENOENT' });
+    }
+  });
+}
+
+/**
+ * Make async file reads return content by file name, failing for other files
+ */
+function mockFiles(files: Record<string, string>): void {
+  mockReadFile.mockImplementation(async (path: string) => {
+    const name = Object.keys(files).find(file => String(path).endsWith(file));
+    if (name === undefined) {
+      throw Object.assign(new Error(`ENOENT: ${path}`), { code: 'ENOENT' });
+    }
+    return files[name];
+  });
+}
 
 describe('steam-locate', () => {
   beforeEach(() => {
@@ -31,54 +79,62 @@ describe('steam-locate', () => {
     // Mock platform to be Windows by default
     mockPlatform.mockReturnValue('win32');
     mockHomedir.mockReturnValue('/home/user');
+    // Async file system and commands fail unless a test sets them up
+    mockExecOutputs();
+    mockPathsExist(() => false);
+    mockFiles({});
+    mockReaddir.mockResolvedValue([]);
+    mockReadlink.mockRejectedValue(new Error('ENOENT'));
   });
 
   describe('findSteamLocation', () => {
     it('should find Steam location with all information on Windows', async () => {
       const steamPath = 'C:\\Program Files (x86)\\Steam';
-      mockExecSync
-        .mockReturnValueOnce(`SteamPath    REG_SZ    ${steamPath}`)
-        .mockReturnValueOnce('INFO: No tasks are running which match the specified criteria.')
-        .mockReturnValueOnce('3.4.0.0');
-
-      mockExistsSync.mockReturnValue(true);
-      mockReadFileSync.mockReturnValue(
-        '"libraryfolders"\n{\n\t"0"\n\t{\n\t\t"path"\t\t"C:\\\\Program Files (x86)\\\\Steam"\n\t}\n}'
+      mockExecOutputs(
+        `SteamPath    REG_SZ    ${steamPath}`,
+        'INFO: No tasks are running which match the specified criteria.',
+        '3.4.0.0'
       );
 
+      mockPathsExist(() => true);
+      mockFiles({
+        'libraryfolders.vdf':
+          '"libraryfolders"\n{\n\t"0"\n\t{\n\t\t"path"\t\t"C:\\\\Program Files (x86)\\\\Steam"\n\t}\n}',
+      });
+
       const result = await findSteamLocation();
 
       expect(result.path).toBe(steamPath);
       expect(result.platform).toBe('win32');
+      expect(result.variant).toBe('windows');
       expect(result.isRunning).toBe(false);
       expect(result.libraryFolders).toEqual([join(steamPath, 'steamapps')]);
+      // The async API must not block on synchronous file system calls or commands
+      expect(mockExecSync).not.toHaveBeenCalled();
+      expect(mockExistsSync).not.toHaveBeenCalled();
+      expect(mockReadFileSync).not.toHaveBeenCalled();
     });
 
     it('should find Steam on macOS', async () => {
       mockPlatform.mockReturnValue('darwin');
       const steamPath = '/home/user/Library/Application Support/Steam';
 
-      mockExecSync.mockReturnValue('');
-      mockExistsSync.mockReturnValueOnce(true); // Steam path exists
-
-      mockReadFileSync.mockReturnValue('');
+      mockExecOutputs('');
+      mockPathsExist(path => path === steamPath); // Steam path exists
 
       const result = await findSteamLocation();
 
       expect(normalize(result.path)).toBe(normalize(steamPath));
       expect(result.platform).toBe('darwin');
+      expect(result.variant).toBe('macos');
     });
 
     it('should find Steam on Linux', async () => {
       mockPlatform.mockReturnValue('linux');
-      const steamPath = '/home/user/.var/app/com.valvesoftware.Steam/.local/share/Steam';
-
-      mockExecSync.mockReturnValueOnce(''); // pgrep for running check
+      const steamPath = '/home/user/.local/share/Steam';
 
-      // Return true for all candidate paths to ensure the first is found
-      mockExistsSync.mockImplementation(() => true);
-
-      mockReadFileSync.mockReturnValue('');
+      // Every candidate exists and none shows signs of use, so the native installation wins
+      mockPathsExist(() => true);
 
       const result = await findSteamLocation();
 
@@ -94,10 +150,8 @@ describe('steam-locate', () => {
     });
 
     it('should handle Steam not found gracefully', async () => {
-      mockExecSync.mockImplementation(() => {
-        throw new Error('Command failed');
-      });
-      mockExistsSync.mockReturnValue(false);
+      mockExecOutputs();
+      mockPathsExist(() => false);
 
       await expect(findSteamLocation()).rejects.toThrow(SteamNotFoundError);
     });
@@ -123,35 +177,157 @@ describe('steam-locate', () => {
 
   describe('isSteamRunning', () => {
     it('should detect Steam running on Windows', async () => {
-      mockExecSync.mockReturnValue('"steam.exe","1234","Console","1","123,456 K"');
+      mockExecOutputs('"steam.exe","1234","Console","1","123,456 K"');
 
       const result = await isSteamRunning();
 
       expect(result).toBe(true);
+      expect(mockExec).toHaveBeenCalledWith(
+        expect.stringContaining('tasklist'),
+        expect.anything(),
+        expect.any(Function)
+      );
+    });
+
+    it('should describe the Steam process on Windows', async () => {
+      mockExecOutputs(
+        JSON.stringify({
+          ProcessId: 1234,
+          ExecutablePath: 'C:\\Program Files (x86)\\Steam\\steam.exe',
+          CommandLine: '"C:\\Program Files (x86)\\Steam\\steam.exe" -silent',
+          StartTime: '2026-10-19T09:41:07.0000000+02:00',
+        })
+      );
+
+      const result = await getSteamProcessInfo();
+
+      expect(result).toEqual({
+        pid: 1234,
+        executablePath: 'C:\\Program Files (x86)\\Steam\\steam.exe',
+        startTime: new Date('2026-10-19T07:41:07Z'),
+        args: ['-silent'],
+        isBigPicture: false,
+      });
     });
 
     it('should detect Steam running on macOS', async () => {
       mockPlatform.mockReturnValue('darwin');
-      mockExecSync.mockReturnValue('1234');
+      mockExecOutputs(
+        '  502 Mon Oct 19 09:41:07 2026     /Applications/Steam.app/Contents/MacOS/steam_osx'
+      );
 
       const result = await isSteamRunning();
 
       expect(result).toBe(true);
     });
 
-    it('should detect Steam running on Linux', async () => {
+    it('should detect the client running from Application Support on macOS', async () => {
+      mockPlatform.mockReturnValue('darwin');
+      const clientPath =
+        '/Users/user/Library/Application Support/Steam/Steam.AppBundle/Steam/Contents/MacOS/steam_osx';
+      mockExecOutputs(`  503 Mon Oct 19 09:41:07 2026     ${clientPath} -silent`);
+
+      const result = await getSteamProcessInfo();
+
+      expect(result).toEqual({
+        pid: 503,
+        executablePath: clientPath,
+        startTime: expect.any(Date),
+        args: ['-silent'],
+        isBigPicture: false,
+      });
+    });
+
+    it('should describe the Steam process on macOS', async () => {
+      mockPlatform.mockReturnValue('darwin');
+      mockExecOutputs(
+        [
+          '  501 Mon Oct 19 09:40:00 2026     /usr/bin/vim /Applications/Steam.app/Contents/MacOS/steam_osx',
+          '  502 Mon Oct 19 09:41:07 2026     /Applications/Steam.app/Contents/MacOS/steam_osx -gamepadui',
+        ].join('\n')
+      );
+
+      const result = await getSteamProcessInfo();
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          pid: 502,
+          executablePath: '/Applications/Steam.app/Contents/MacOS/steam_osx',
+          isBigPicture: true,
+        })
+      );
+    });
+
+    it('should detect the Steam client on Linux, ignoring other processes named steam', async () => {
       mockPlatform.mockReturnValue('linux');
-      mockExecSync.mockReturnValue('1234\n5678');
+      const clientPath = '/home/user/.local/share/Steam/ubuntu12_32/steam';
+      mockReaddir.mockResolvedValue(['1', '1200', '1234', 'self']);
+      mockReadlink.mockImplementation(async (path: string) =>
+        path === '/proc/1234/exe' ? clientPath : '/usr/bin/bash'
+      );
+      mockFiles({
+        '/home/user/.steam/steam.pid': '999\n', // Stale
+        '/proc/1/comm': 'systemd\n',
+        '/proc/1200/comm': 'steam\n', // The steam.sh launcher
+        '/proc/1200/cmdline': '/bin/bash\0/usr/bin/steam\0',
+        '/proc/1234/comm': 'steam\n',
+        '/proc/1234/cmdline': `${clientPath}\0-srt-logger-opened\0`,
+        '/proc/1234/stat': `1234 (steam) S ${'0 '.repeat(18)}50000 0`,
+        '/proc/stat': 'cpu  1 2 3\nbtime 1760000000\n',
+      });
 
-      const result = await isSteamRunning();
+      const result = await getSteamProcessInfo();
 
-      expect(result).toBe(true);
+      expect(result).toEqual({
+        pid: 1234,
+        executablePath: clientPath,
+        startTime: new Date((1760000000 + 500) * 1000),
+        args: ['-srt-logger-opened'],
+        isBigPicture: false,
+      });
+      expect(await isSteamRunning()).toBe(true);
+    });
+
+    it('should only scan /proc when the PID in steam.pid is not the client on Linux', () => {
+      mockPlatform.mockReturnValue('linux');
+      const clientPath = '/home/user/.local/share/Steam/ubuntu12_32/steam';
+      const files: Record<string, string> = {
+        [join('/home/user', '.steam', 'steam.pid')]: '1234\n',
+        [join('/proc', '1234', 'comm')]: 'steam\n',
+        [join('/proc', '1234', 'cmdline')]: `${clientPath}\0`,
+      };
+      mockReadFileSync.mockImplementation(path => {
+        const content = files[String(path)];
+        if (content === undefined) {
+          throw new Error(`ENOENT: ${String(path)}`);
+        }
+        return content;
+      });
+      mockReadlinkSync.mockReturnValue(clientPath);
+
+      expect(isSteamRunningSync()).toBe(true);
+      expect(mockReaddirSync).not.toHaveBeenCalled();
+
+      files[join('/home/user', '.steam', 'steam.pid')] = '999\n'; // Stale
+      mockReaddirSync.mockReturnValue(['1234']);
+
+      expect(isSteamRunningSync()).toBe(true);
+      expect(mockReaddirSync).toHaveBeenCalledWith('/proc');
+    });
+
+    it('should not mistake other processes for Steam on Linux', async () => {
+      mockPlatform.mockReturnValue('linux');
+      mockReaddir.mockResolvedValue(['4321']);
+      mockFiles({
+        '/proc/4321/comm': 'node\n',
+        '/proc/4321/cmdline': 'node\0/usr/local/bin/steam-locate\0running\0',
+      });
+
+      expect(await isSteamRunning()).toBe(false);
     });
 
     it('should return false when Steam is not running', async () => {
-      mockExecSync.mockReturnValue(
-        'INFO: No tasks are running which match the specified criteria.'
-      );
+      mockExecOutputs('INFO: No tasks are running which match the specified criteria.');
 
       const result = await isSteamRunning();
 
@@ -172,19 +348,15 @@ describe('steam-locate', () => {
       const steamPath = 'C:\\Program Files (x86)\\Steam';
       const appId = '440'; // Team Fortress 2
 
-      mockExecSync.mockReturnValue(`SteamPath    REG_SZ    ${steamPath}`);
-      mockExistsSync
-        .mockReturnValueOnce(true) // Steam path exists
-        .mockReturnValueOnce(true) // steam.exe exists
-        .mockReturnValueOnce(true) // steamapps folder exists
-        .mockReturnValueOnce(true) // app manifest exists
-        .mockReturnValueOnce(true); // game install dir exists
+      mockExecOutputs(`SteamPath    REG_SZ    ${steamPath}`);
+      // Steam path, steam.exe, steamapps folder and game install dir exist
+      mockPathsExist(() => true);
 
-      mockReadFileSync
-        .mockReturnValueOnce('') // library folders
-        .mockReturnValueOnce(
-          '"name"\t\t"Team Fortress 2"\n"installdir"\t\t"Team Fortress 2"\n"SizeOnDisk"\t\t"15000000000"\n"LastUpdated"\t\t"1640995200"'
-        );
+      mockFiles({
+        'libraryfolders.vdf': '',
+        'appmanifest_440.acf':
+          '"name"\t\t"Team Fortress 2"\n"installdir"\t\t"Team Fortress 2"\n"SizeOnDisk"\t\t"15000000000"\n"LastUpdated"\t\t"1640995200"',
+      });
 
       const result = await findSteamApp(appId);
 
@@ -199,13 +371,8 @@ describe('steam-locate', () => {
       const appId = '999999';
 
       // Mock file system calls - the steamapps folder exists but the manifest file doesn't
-      mockExistsSync
-        .mockReturnValueOnce(true) // steamapps folder exists (for getLibraryFoldersSync)
-        .mockReturnValueOnce(false) // libraryfolders.vdf doesn't exist
-        .mockReturnValueOnce(false); // app manifest doesn't exist
-
-      // Mock empty library folders VDF content
-      mockReadFileSync.mockReturnValue('');
+      mockPathsExist(path => path === join(steamPath, 'steamapps'));
+      mockFiles({});
 
       await expect(findSteamApp(appId, steamPath)).rejects.toThrow(SteamAppNotFoundError);
     });
@@ -215,34 +382,33 @@ describe('steam-locate', () => {
     it('should return list of installed apps', async () => {
       const steamPath = 'C:\\Program Files (x86)\\Steam';
 
-      mockExecSync.mockReturnValue(`SteamPath    REG_SZ    ${steamPath}`);
-      mockExistsSync.mockReturnValue(true);
-      mockReadFileSync
-        .mockReturnValueOnce('') // library folders
-        .mockReturnValueOnce('"name"\t\t"Team Fortress 2"\n"installdir"\t\t"Team Fortress 2"')
-        .mockReturnValueOnce(
-          '"name"\t\t"Counter-Strike 2"\n"installdir"\t\t"Counter-Strike Global Offensive"'
-        );
-
-      (mockReaddirSync as jest.Mock).mockReturnValue([
-        'appmanifest_440.acf',
-        'appmanifest_730.acf',
-      ]);
+      mockExecOutputs(`SteamPath    REG_SZ    ${steamPath}`);
+      mockPathsExist(() => true);
+      mockFiles({
+        'libraryfolders.vdf': '',
+        'appmanifest_440.acf': '"name"\t\t"Team Fortress 2"\n"installdir"\t\t"Team Fortress 2"',
+        'appmanifest_730.acf':
+          '"name"\t\t"Counter-Strike 2"\n"installdir"\t\t"Counter-Strike Global Offensive"',
+      });
+
+      mockReaddir.mockResolvedValue(['appmanifest_440.acf', 'appmanifest_730.acf']);
 
       const result = await getInstalledSteamApps();
 
       expect(result).toHaveLength(2);
       expect(result[0]?.name).toBe('Team Fortress 2');
       expect(result[1]?.name).toBe('Counter-Strike 2');
+      expect(mockExistsSync).not.toHaveBeenCalled();
+      expect(mockReadFileSync).not.toHaveBeenCalled();
     });
 
     it('should handle empty app list gracefully', async () => {
       const steamPath = 'C:\\Program Files (x86)\\Steam';
 
-      mockExecSync.mockReturnValue(`SteamPath    REG_SZ    ${steamPath}`);
-      mockExistsSync.mockReturnValue(true);
-      mockReadFileSync.mockReturnValue('');
-      mockReaddirSync.mockReturnValue([]);
+      mockExecOutputs(`SteamPath    REG_SZ    ${steamPath}`);
+      mockPathsExist(() => true);
+      mockFiles({ 'libraryfolders.vdf': '' });
+      mockReaddir.mockResolvedValue([]);
 
       const result = await getInstalledSteamApps();
 
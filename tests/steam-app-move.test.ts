@@ -0,0 +1,196 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, symlinkSync } from 'fs';
+import { join } from 'path';
+import {
+  moveSteamApp,
+  moveSteamAppSync,
+  getLibraryAppIndexSync,
+  SteamAppMoveProgress,
+  SteamRunningError,
+} from '../src/index';
+import { createTempDir, writeFile } from './helpers';
+
+jest.mock('../src/steam-process', () => ({
+  ...jest.requireActual('../src/steam-process'),
+  isSteamRunning: jest.fn(async () => false),
+  isSteamRunningSync: jest.fn(() => false),
+}));
+
+// Plain copies of fs and fs/promises so their functions can be spied on
+jest.mock('fs', () => ({ ...jest.requireActual('fs') }));
+jest.mock('fs/promises', () => ({ ...jest.requireActual('fs/promises') }));
+const fs = jest.requireMock('fs') as typeof import('fs');
+const fsPromises = jest.requireMock('fs/promises') as typeof import('fs/promises');
+
+import { isSteamRunningSync } from '../src/steam-process';
+
+const mockIsSteamRunningSync = isSteamRunningSync as jest.MockedFunction<typeof isSteamRunningSync>;
+
+describe('steam-app-move', () => {
+  let root: string;
+  let steamPath: string;
+  let sourceLibrary: string;
+  let targetLibrary: string;
+
+  beforeEach(() => {
+    mockIsSteamRunningSync.mockReturnValue(false);
+    root = createTempDir('steam-move');
+    steamPath = join(root, 'Steam');
+    sourceLibrary = join(steamPath, 'steamapps');
+    targetLibrary = join(root, 'Games', 'steamapps');
+    mkdirSync(targetLibrary, { recursive: true });
+    writeFile(
+      join(sourceLibrary, 'libraryfolders.vdf'),
+      `"libraryfolders"
+{
+	"0"
+	{
+		"path"		"${steamPath}"
+		"apps"
+		{
+			"400"		"12"
+		}
+	}
+	"1"
+	{
+		"path"		"${join(root, 'Games')}"
+	}
+}
+`
+    );
+    writeFile(
+      join(sourceLibrary, 'appmanifest_400.acf'),
+      `"AppState"
+{
+	"appid"		"400"
+	"name"		"Portal"
+	"StateFlags"		"4"
+	"installdir"		"Portal"
+	"SizeOnDisk"		"12"
+}
+`
+    );
+    writeFile(join(sourceLibrary, 'common', 'Portal', 'portal.sh'), 'portal');
+    writeFile(join(sourceLibrary, 'common', 'Portal', 'bin', 'hl2'), 'binary');
+    symlinkSync('bin/hl2', join(sourceLibrary, 'common', 'Portal', 'hl2'));
+    writeFile(join(sourceLibrary, 'workshop', 'appworkshop_400.acf'), '"AppWorkshop"\n{\n}\n');
+    writeFile(join(sourceLibrary, 'workshop', 'content', '400', '123', 'map.bsp'), 'map');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should move the install folder, Workshop content and manifests to another library', async () => {
+    const progress: SteamAppMoveProgress[] = [];
+    const result = await moveSteamApp('400', join(root, 'Games'), {
+      steamPath,
+      onProgress: update => progress.push(update),
+    });
+
+    expect(result).toEqual(
+      expect.objectContaining({ appId: '400', sourceLibrary, targetLibrary, dryRun: false })
+    );
+    expect(result.paths.map(({ to }) => to)).toEqual([
+      join(targetLibrary, 'common', 'Portal'),
+      join(targetLibrary, 'workshop', 'content', '400'),
+      join(targetLibrary, 'workshop', 'appworkshop_400.acf'),
+      join(targetLibrary, 'appmanifest_400.acf'),
+    ]);
+    expect(readFileSync(join(targetLibrary, 'common', 'Portal', 'hl2'), 'utf8')).toBe('binary');
+    expect(existsSync(join(targetLibrary, 'workshop', 'content', '400', '123', 'map.bsp'))).toBe(
+      true
+    );
+    expect(existsSync(join(sourceLibrary, 'common', 'Portal'))).toBe(false);
+    expect(existsSync(join(sourceLibrary, 'appmanifest_400.acf'))).toBe(false);
+    expect(getLibraryAppIndexSync(steamPath).get('400')).toBe(targetLibrary);
+    expect(readFileSync(join(sourceLibrary, 'libraryfolders.vdf'), 'utf8')).toMatch(
+      /"1"\n\t\{\n\t\t"path"\t\t"[^"]+"\n\t\t"apps"\n\t\t\{\n\t\t\t"400"\t\t"12"/
+    );
+    expect(progress.map(update => update.phase)).toEqual([
+      ...Array<string>(6).fill('copy'),
+      ...Array<string>(6).fill('verify'),
+      ...Array<string>(4).fill('remove'),
+    ]);
+    expect(progress[5]).toEqual(
+      expect.objectContaining({ processedBytes: result.totalBytes, totalBytes: result.totalBytes })
+    );
+  });
+
+  it('should leave everything in place in dry-run mode, even while Steam runs', () => {
+    mockIsSteamRunningSync.mockReturnValue(true);
+
+    const result = moveSteamAppSync('400', targetLibrary, { steamPath, dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.paths).toHaveLength(4);
+    expect(existsSync(join(sourceLibrary, 'common', 'Portal'))).toBe(true);
+    expect(existsSync(join(targetLibrary, 'common'))).toBe(false);
+    expect(() => moveSteamAppSync('400', targetLibrary, { steamPath })).toThrow(SteamRunningError);
+  });
+
+  it('should remove the partial copy and keep the source when copying fails', () => {
+    const actualCopyFileSync = fs.copyFileSync;
+    jest.spyOn(fs, 'copyFileSync').mockImplementation((source, target, mode) => {
+      if (String(source).endsWith('map.bsp')) {
+        throw new Error('ENOSPC: no space left on device');
+      }
+      actualCopyFileSync(source, target, mode);
+    });
+
+    expect(() => moveSteamAppSync('400', targetLibrary, { steamPath })).toThrow('ENOSPC');
+    // Nor the common and workshop folders the copy had to create
+    expect(readdirSync(targetLibrary)).toEqual([]);
+    expect(existsSync(join(sourceLibrary, 'common', 'Portal', 'portal.sh'))).toBe(true);
+    expect(getLibraryAppIndexSync(steamPath).get('400')).toBe(sourceLibrary);
+  });
+
+  it('should compare the contents of each copy before removing the source', () => {
+    const actualCopyFileSync = fs.copyFileSync;
+    jest.spyOn(fs, 'copyFileSync').mockImplementation((source, target, mode) => {
+      actualCopyFileSync(source, target, mode);
+      if (String(source).endsWith('portal.sh')) {
+        // Same size, different bytes
+        fs.writeFileSync(target, 'PORTAL');
+      }
+    });
+
+    expect(() => moveSteamAppSync('400', targetLibrary, { steamPath })).toThrow(
+      'does not match the original'
+    );
+    expect(existsSync(join(targetLibrary, 'common', 'Portal'))).toBe(false);
+    expect(readFileSync(join(sourceLibrary, 'common', 'Portal', 'portal.sh'), 'utf8')).toBe(
+      'portal'
+    );
+  });
+
+  it('should roll back the copy when libraryfolders.vdf cannot be updated', async () => {
+    jest.spyOn(fsPromises, 'rename').mockRejectedValue(new Error('EACCES: permission denied'));
+
+    await expect(moveSteamApp('400', targetLibrary, { steamPath })).rejects.toThrow('EACCES');
+    expect(readdirSync(targetLibrary)).toEqual([]);
+    expect(existsSync(join(sourceLibrary, 'appmanifest_400.acf'))).toBe(true);
+    expect(getLibraryAppIndexSync(steamPath).get('400')).toBe(sourceLibrary);
+  });
+
+  it('should fail rather than report success when libraryfolders.vdf is missing', () => {
+    const vdfPath = join(sourceLibrary, 'libraryfolders.vdf');
+    const actualExistsSync = fs.existsSync;
+    jest
+      .spyOn(fs, 'existsSync')
+      .mockImplementation(path => String(path) !== vdfPath && actualExistsSync(path));
+
+    expect(() => moveSteamAppSync('400', targetLibrary, { steamPath })).toThrow(
+      'libraryfolders.vdf not found'
+    );
+    expect(existsSync(join(targetLibrary, 'common', 'Portal'))).toBe(false);
+    expect(existsSync(join(sourceLibrary, 'common', 'Portal', 'portal.sh'))).toBe(true);
+  });
+
+  it('should refuse targets that are not libraries or already hold the app', () => {
+    expect(() => moveSteamAppSync('400', join(root, 'Other'), { steamPath })).toThrow(
+      'Not a Steam library folder'
+    );
+    expect(() => moveSteamAppSync('400', sourceLibrary, { steamPath })).toThrow('is already in');
+  });
+});
@@ -0,0 +1,219 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  getSteamAppInfo,
+  getSteamAppInfoSync,
+  parseBinaryVdf,
+  SteamAppNotFoundError,
+  VdfParseError,
+} from '../src/index';
+
+type KeyValues = { [key: string]: string | number | KeyValues };
+
+/**
+ * Encode a section as binary KeyValues, optionally writing keys as string table indices
+ */
+function encodeKeyValues(data: KeyValues, stringTable?: string[]): Buffer {
+  const parts: Buffer[] = [];
+  const key = (name: string) => {
+    if (!stringTable) {
+      return Buffer.from(name + '\0', 'utf8');
+    }
+    let index = stringTable.indexOf(name);
+    if (index === -1) {
+      index = stringTable.push(name) - 1;
+    }
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(index);
+    return buffer;
+  };
+  for (const [name, value] of Object.entries(data)) {
+    if (typeof value === 'string') {
+      parts.push(Buffer.from([0x01]), key(name), Buffer.from(value + '\0', 'utf8'));
+    } else if (typeof value === 'number') {
+      const buffer = Buffer.alloc(4);
+      buffer.writeInt32LE(value);
+      parts.push(Buffer.from([0x02]), key(name), buffer);
+    } else {
+      parts.push(Buffer.from([0x00]), key(name), encodeKeyValues(value, stringTable));
+    }
+  }
+  parts.push(Buffer.from([0x08]));
+  return Buffer.concat(parts);
+}
+
+/**
+ * Build an appinfo.vdf file in the given format version
+ */
+function buildAppInfo(version: 27 | 28 | 29, apps: Record<string, KeyValues>): Buffer {
+  const stringTable: string[] | undefined = version === 29 ? [] : undefined;
+  const entries: Buffer[] = [];
+  for (const [appId, data] of Object.entries(apps)) {
+    const header = Buffer.alloc(version === 27 ? 40 : 60);
+    header.writeUInt32LE(2, 0); // infoState
+    header.writeUInt32LE(1718900000, 4); // lastUpdated
+    header.writeUInt32LE(24000000, 36); // changeNumber
+    const body = Buffer.concat([header, encodeKeyValues({ appinfo: data }, stringTable)]);
+    const prefix = Buffer.alloc(8);
+    prefix.writeUInt32LE(Number(appId), 0);
+    prefix.writeUInt32LE(body.length, 4);
+    entries.push(prefix, body);
+  }
+  entries.push(Buffer.alloc(4));
+
+  const fileHeader = Buffer.alloc(version === 29 ? 16 : 8);
+  fileHeader.writeUInt32LE({ 27: 0x07564427, 28: 0x07564428, 29: 0x07564429 }[version], 0);
+  fileHeader.writeUInt32LE(1, 4);
+  const content = Buffer.concat([fileHeader, ...entries]);
+  if (!stringTable) {
+    return content;
+  }
+  content.writeBigInt64LE(BigInt(content.length), 8);
+  const count = Buffer.alloc(4);
+  count.writeUInt32LE(stringTable.length);
+  return Buffer.concat([content, count, ...stringTable.map(s => Buffer.from(s + '\0', 'utf8'))]);
+}
+
+const TEAM_FORTRESS_2: KeyValues = {
+  appid: 440,
+  common: {
+    name: 'Team Fortress 2',
+    type: 'Game',
+    oslist: 'windows,macos,linux',
+    associations: {
+      '0': { type: 'developer', name: 'Valve' },
+      '1': { type: 'publisher', name: 'Valve' },
+    },
+  },
+  config: {
+    installdir: 'Team Fortress 2',
+    launch: {
+      '0': {
+        executable: 'tf_win64.exe',
+        arguments: '-game tf -steam',
+        description: 'Team Fortress 2',
+        type: 'default',
+        config: { oslist: 'windows', osarch: '64' },
+      },
+      '1': {
+        executable: 'tf.sh',
+        arguments: '-game tf',
+        config: { oslist: 'linux' },
+      },
+    },
+  },
+};
+
+const SOUNDTRACK: KeyValues = {
+  appid: 629330,
+  common: { name: 'TF2 Soundtrack', type: 'Music', parent: '440' },
+  extended: { developer: 'Valve Studio Orchestra' },
+};
+
+describe('steam-appinfo', () => {
+  let steamPath: string;
+
+  const writeAppInfo = (content: Buffer) => {
+    mkdirSync(join(steamPath, 'appcache'), { recursive: true });
+    writeFileSync(join(steamPath, 'appcache', 'appinfo.vdf'), content);
+  };
+
+  beforeEach(() => {
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-appinfo-'));
+  });
+
+  afterEach(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  it.each([27, 28, 29] as const)('should read app metadata from a v%i appinfo.vdf', version => {
+    writeAppInfo(buildAppInfo(version, { '440': TEAM_FORTRESS_2, '629330': SOUNDTRACK }));
+
+    const info = getSteamAppInfoSync('440', steamPath);
+
+    expect(info.name).toBe('Team Fortress 2');
+    expect(info.type).toBe('game');
+    expect(info.developer).toBe('Valve');
+    expect(info.publisher).toBe('Valve');
+    expect(info.supportedOS).toEqual(['windows', 'macos', 'linux']);
+    expect(info.installDir).toBe('Team Fortress 2');
+    expect(info.changeNumber).toBe(24000000);
+    expect(info.lastUpdated).toEqual(new Date(1718900000 * 1000));
+    expect(info.launchConfigs).toEqual([
+      {
+        id: '0',
+        executable: 'tf_win64.exe',
+        arguments: '-game tf -steam',
+        workingDir: undefined,
+        description: 'Team Fortress 2',
+        type: 'default',
+        os: ['windows'],
+        arch: '64',
+        betaKey: undefined,
+      },
+      {
+        id: '1',
+        executable: 'tf.sh',
+        arguments: '-game tf',
+        workingDir: undefined,
+        description: undefined,
+        type: undefined,
+        os: ['linux'],
+        arch: undefined,
+        betaKey: undefined,
+      },
+    ]);
+    expect(info.data.appid).toBe('440');
+  });
+
+  it('should report parent apps and fall back to extended metadata', async () => {
+    writeAppInfo(buildAppInfo(28, { '440': TEAM_FORTRESS_2, '629330': SOUNDTRACK }));
+
+    const info = await getSteamAppInfo('629330', steamPath);
+
+    expect(info.type).toBe('music');
+    expect(info.parentAppId).toBe('440');
+    expect(info.developer).toBe('Valve Studio Orchestra');
+    expect(info.publisher).toBeUndefined();
+    expect(info.launchConfigs).toEqual([]);
+  });
+
+  it('should pick up changes to the file', () => {
+    writeAppInfo(buildAppInfo(29, { '440': TEAM_FORTRESS_2 }));
+    expect(() => getSteamAppInfoSync('629330', steamPath)).toThrow(SteamAppNotFoundError);
+
+    writeAppInfo(buildAppInfo(29, { '440': TEAM_FORTRESS_2, '629330': SOUNDTRACK }));
+    expect(getSteamAppInfoSync('629330', steamPath).name).toBe('TF2 Soundtrack');
+  });
+
+  it('should throw SteamAppNotFoundError when appinfo.vdf is missing', async () => {
+    await expect(getSteamAppInfo('440', steamPath)).rejects.toThrow(SteamAppNotFoundError);
+  });
+
+  it('should reject unknown appinfo.vdf versions', () => {
+    const content = buildAppInfo(28, { '440': TEAM_FORTRESS_2 });
+    content.writeUInt32LE(0x07564420, 0);
+    writeAppInfo(content);
+
+    expect(() => getSteamAppInfoSync('440', steamPath)).toThrow(VdfParseError);
+  });
+
+  describe('parseBinaryVdf', () => {
+    it('should decode typed values', () => {
+      const buffer = encodeKeyValues({
+        shortcuts: { '0': { AppName: 'Game', IsHidden: 0, appid: -1 } },
+      });
+
+      expect(parseBinaryVdf(buffer)).toEqual({
+        shortcuts: { '0': { AppName: 'Game', IsHidden: 0, appid: -1 } },
+      });
+    });
+
+    it('should throw on truncated data', () => {
+      const buffer = encodeKeyValues({ section: { key: 'value' } });
+
+      expect(() => parseBinaryVdf(buffer.subarray(0, buffer.length - 2))).toThrow(VdfParseError);
+    });
+  });
+});
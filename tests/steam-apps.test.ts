@@ -0,0 +1,265 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  decodeAppStateFlags,
+  findSteamAppSync,
+  findSteamAppsSync,
+  getSteamAppManifest,
+  getSteamAppManifestSync,
+  SteamAppNotFoundError,
+} from '../src/index';
+
+// Plain copy of fs so its functions can be spied on
+jest.mock('fs', () => ({ ...jest.requireActual('fs') }));
+const fs = jest.requireMock('fs') as typeof import('fs');
+
+const MANIFEST = `"AppState"
+{
+	"appid"		"440"
+	"universe"		"1"
+	"name"		"Team Fortress 2"
+	"StateFlags"		"1030"
+	"installdir"		"Team Fortress 2"
+	"LastUpdated"		"1700000000"
+	"SizeOnDisk"		"26000000000"
+	"buildid"		"12345"
+	"LastOwner"		"76561197960287930"
+	"BytesToDownload"		"1000"
+	"BytesDownloaded"		"250"
+	"BytesToStage"		"2000"
+	"BytesStaged"		"0"
+	"TargetBuildID"		"12400"
+	"AutoUpdateBehavior"		"1"
+	"InstalledDepots"
+	{
+		"232251"
+		{
+			"manifest"		"1234567890123456789"
+			"size"		"1000"
+		}
+		"232252"
+		{
+			"manifest"		"9876543210987654321"
+			"size"		"2000"
+			"dlcappid"		"459"
+		}
+	}
+	"SharedDepots"
+	{
+		"228990"		"228980"
+	}
+	"UserConfig"
+	{
+		"language"		"english"
+		"BetaKey"		"prerelease"
+	}
+}
+`;
+
+describe('steam-apps', () => {
+  let steamPath: string;
+  let libraryFolder: string;
+
+  beforeEach(() => {
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-apps-'));
+    libraryFolder = join(steamPath, 'steamapps');
+    mkdirSync(libraryFolder, { recursive: true });
+    writeFileSync(join(libraryFolder, 'appmanifest_440.acf'), MANIFEST);
+  });
+
+  afterEach(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  it('should decode StateFlags', () => {
+    expect(decodeAppStateFlags(4)).toEqual(['fullyInstalled']);
+    expect(decodeAppStateFlags(1030)).toEqual([
+      'updateRequired',
+      'fullyInstalled',
+      'updateStarted',
+    ]);
+    expect(decodeAppStateFlags(0)).toEqual([]);
+  });
+
+  it('should read the full manifest model', async () => {
+    const manifest = await getSteamAppManifest('440', steamPath);
+
+    expect(manifest).toEqual(
+      expect.objectContaining({
+        appId: '440',
+        name: 'Team Fortress 2',
+        manifestPath: join(libraryFolder, 'appmanifest_440.acf'),
+        libraryFolder,
+        installDirName: 'Team Fortress 2',
+        installDir: join(libraryFolder, 'common', 'Team Fortress 2'),
+        stateFlags: 1030,
+        isFullyInstalled: false,
+        isUpdating: true,
+        buildId: 12345,
+        targetBuildId: 12400,
+        lastUpdated: new Date(1700000000 * 1000),
+        lastOwner: '76561197960287930',
+        sizeOnDisk: 26000000000,
+        bytesToDownload: 1000,
+        bytesDownloaded: 250,
+        bytesToStage: 2000,
+        bytesStaged: 0,
+        autoUpdateBehavior: 1,
+        sharedDepots: { '228990': '228980' },
+        betaKey: 'prerelease',
+        language: 'english',
+      })
+    );
+    expect(manifest.installedDepots).toEqual([
+      { depotId: '232251', manifestId: '1234567890123456789', size: 1000, dlcAppId: undefined },
+      { depotId: '232252', manifestId: '9876543210987654321', size: 2000, dlcAppId: '459' },
+    ]);
+  });
+
+  it('should report a settled install as fully installed', () => {
+    writeFileSync(
+      join(libraryFolder, 'appmanifest_440.acf'),
+      MANIFEST.replace('"1030"', '"4"').replace('"76561197960287930"', '"0"')
+    );
+
+    const manifest = getSteamAppManifestSync('440', steamPath);
+
+    expect(manifest.isFullyInstalled).toBe(true);
+    expect(manifest.isUpdating).toBe(false);
+    expect(manifest.lastOwner).toBeUndefined();
+  });
+
+  it('should throw SteamAppNotFoundError for missing manifests', () => {
+    expect(() => getSteamAppManifestSync('999', steamPath)).toThrow(SteamAppNotFoundError);
+  });
+});
+
+describe('library app index', () => {
+  const LIBRARY_COUNT = 4;
+  const APPS_PER_LIBRARY = 1000;
+  let steamPath: string;
+  let libraryRoots: string[];
+  let appIds: string[];
+
+  /**
+   * Write libraryfolders.vdf, listing each library's apps unless told to leave them out
+   */
+  function writeLibraryFolders(withApps: boolean): void {
+    const entries = libraryRoots.map((root, i) => {
+      const apps = withApps
+        ? appIds
+            .slice(i * APPS_PER_LIBRARY, (i + 1) * APPS_PER_LIBRARY)
+            .map(appId => `\t\t\t"${appId}"\t\t"1000"\n`)
+            .join('')
+        : '';
+      return `\t"${i}"\n\t{\n\t\t"path"\t\t"${root}"\n\t\t"apps"\n\t\t{\n${apps}\t\t}\n\t}\n`;
+    });
+    writeFileSync(
+      join(steamPath, 'steamapps', 'libraryfolders.vdf'),
+      `"libraryfolders"\n{\n${entries.join('')}}\n`
+    );
+  }
+
+  beforeAll(() => {
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-index-'));
+    libraryRoots = [steamPath];
+    for (let i = 1; i < LIBRARY_COUNT; i++) {
+      libraryRoots.push(join(steamPath, `library${i}`));
+    }
+    appIds = [];
+    libraryRoots.forEach((root, i) => {
+      const libraryFolder = join(root, 'steamapps');
+      mkdirSync(libraryFolder, { recursive: true });
+      for (let j = 0; j < APPS_PER_LIBRARY; j++) {
+        const appId = String(100000 + i * APPS_PER_LIBRARY + j);
+        appIds.push(appId);
+        writeFileSync(
+          join(libraryFolder, `appmanifest_${appId}.acf`),
+          `"AppState"\n{\n\t"appid"\t\t"${appId}"\n\t"name"\t\t"App ${appId}"\n\t"installdir"\t\t"App ${appId}"\n}\n`
+        );
+      }
+    });
+  });
+
+  afterAll(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should go straight to the indexed library for single lookups', () => {
+    writeLibraryFolders(true);
+    const lastAppId = appIds[appIds.length - 1] as string;
+    const existsSpy = jest.spyOn(fs, 'existsSync');
+    const readSpy = jest.spyOn(fs, 'readFileSync');
+
+    const app = findSteamAppSync(lastAppId, steamPath);
+    const manifestProbes = existsSpy.mock.calls.filter(([path]) => String(path).endsWith('.acf'));
+    const vdfReads = readSpy.mock.calls.filter(([path]) =>
+      String(path).endsWith('libraryfolders.vdf')
+    );
+
+    expect(app.name).toBe(`App ${lastAppId}`);
+    expect(manifestProbes).toEqual([
+      [
+        join(
+          libraryRoots[LIBRARY_COUNT - 1] as string,
+          'steamapps',
+          `appmanifest_${lastAppId}.acf`
+        ),
+      ],
+    ]);
+    expect(vdfReads).toHaveLength(1);
+  });
+
+  it('should go straight to the indexed library for full manifests', () => {
+    writeLibraryFolders(true);
+    const lastAppId = appIds[appIds.length - 1] as string;
+    const existsSpy = jest.spyOn(fs, 'existsSync');
+
+    const manifest = getSteamAppManifestSync(lastAppId, steamPath);
+    const manifestProbes = existsSpy.mock.calls.filter(([path]) => String(path).endsWith('.acf'));
+
+    expect(manifest.libraryFolder).toBe(
+      join(libraryRoots[LIBRARY_COUNT - 1] as string, 'steamapps')
+    );
+    expect(manifestProbes).toHaveLength(1);
+  });
+
+  it('should read each indexed manifest once without listing the libraries', () => {
+    writeLibraryFolders(true);
+    const readdirSpy = jest.spyOn(fs, 'readdirSync');
+    const readSpy = jest.spyOn(fs, 'readFileSync');
+
+    const apps = findSteamAppsSync(appIds, steamPath);
+    const manifestReads = readSpy.mock.calls.filter(([path]) => String(path).endsWith('.acf'));
+
+    expect(apps.size).toBe(appIds.length);
+    expect(apps.get(appIds[1500] as string)?.name).toBe(`App ${appIds[1500]}`);
+    expect(manifestReads).toHaveLength(appIds.length);
+    expect(readdirSpy).not.toHaveBeenCalled();
+  });
+
+  it('should only list the libraries for apps missing from the index', () => {
+    writeLibraryFolders(true);
+    const readdirSpy = jest.spyOn(fs, 'readdirSync');
+
+    const apps = findSteamAppsSync([appIds[0] as string, '999'], steamPath);
+
+    expect([...apps.keys()]).toEqual([appIds[0]]);
+    expect(readdirSpy).toHaveBeenCalledTimes(LIBRARY_COUNT);
+  });
+
+  it('should list each library once when the index is stale', () => {
+    writeLibraryFolders(false);
+    const readdirSpy = jest.spyOn(fs, 'readdirSync');
+
+    const apps = findSteamAppsSync(appIds, steamPath);
+
+    expect(apps.size).toBe(appIds.length);
+    expect(readdirSpy).toHaveBeenCalledTimes(LIBRARY_COUNT);
+  });
+});
@@ -0,0 +1,97 @@
+import { rmSync } from 'fs';
+import { join } from 'path';
+import {
+  getSteamAppAssets,
+  getSteamAppAssetsSync,
+  getShortcutGameId,
+  serializeBinaryVdf,
+  SteamUserNotFoundError,
+} from '../src/index';
+import { createTempDir, writeFile } from './helpers';
+
+describe('steam-assets', () => {
+  let steamPath: string;
+  let cachePath: string;
+  let gridPath: string;
+
+  beforeEach(() => {
+    steamPath = createTempDir('steam-assets');
+    cachePath = join(steamPath, 'appcache', 'librarycache');
+    gridPath = join(steamPath, 'userdata', '22202', 'config', 'grid');
+    writeFile(
+      join(steamPath, 'config', 'loginusers.vdf'),
+      '"users"\n{\n\t"76561197960287930"\n\t{\n\t\t"MostRecent"\t\t"1"\n\t}\n}\n'
+    );
+  });
+
+  afterEach(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  it('should prefer custom grid artwork over the per-app librarycache folder', async () => {
+    writeFile(join(cachePath, '570', 'header.jpg'));
+    writeFile(join(cachePath, '570', 'library_600x900.jpg'));
+    writeFile(join(cachePath, '570', 'a1b2c3', 'library_hero.jpg'));
+    writeFile(join(cachePath, '570', '0123456789abcdef0123456789abcdef01234567.jpg'));
+    writeFile(join(gridPath, '570p.png'));
+
+    const assets = await getSteamAppAssets(570, { steamPath });
+
+    expect(assets).toEqual({
+      appId: '570',
+      header: { path: join(cachePath, '570', 'header.jpg'), source: 'librarycache' },
+      capsule: { path: join(gridPath, '570p.png'), source: 'custom' },
+      hero: { path: join(cachePath, '570', 'a1b2c3', 'library_hero.jpg'), source: 'librarycache' },
+      icon: {
+        path: join(cachePath, '570', '0123456789abcdef0123456789abcdef01234567.jpg'),
+        source: 'librarycache',
+      },
+      missing: ['logo'],
+    });
+  });
+
+  it('should read the flat librarycache layout', () => {
+    writeFile(join(cachePath, '440_header.jpg'));
+    writeFile(join(cachePath, '440_library_600x900.jpg'));
+    writeFile(join(cachePath, '440_library_600x900_2x.jpg'));
+    writeFile(join(cachePath, '440_logo.png'));
+
+    const assets = getSteamAppAssetsSync('440', { steamPath });
+
+    expect(assets.header?.path).toBe(join(cachePath, '440_header.jpg'));
+    expect(assets.capsule?.path).toBe(join(cachePath, '440_library_600x900_2x.jpg'));
+    expect(assets.logo?.path).toBe(join(cachePath, '440_logo.png'));
+    expect(assets.missing).toEqual(['hero', 'icon']);
+  });
+
+  it('should resolve the grid artwork and icon of non-Steam shortcuts', () => {
+    const iconPath = join(steamPath, 'game.png');
+    writeFile(iconPath);
+    writeFile(
+      join(steamPath, 'userdata', '22202', 'config', 'shortcuts.vdf'),
+      serializeBinaryVdf({
+        shortcuts: {
+          '0': { appid: -1177524115, AppName: 'My Game', Exe: '"/usr/bin/game"', icon: iconPath },
+        },
+      })
+    );
+    writeFile(join(gridPath, '3117443181_hero.jpg'));
+    writeFile(join(gridPath, '3117443181_logo.png'));
+
+    const assets = getSteamAppAssetsSync(getShortcutGameId('3117443181'), { steamPath });
+
+    expect(assets).toEqual({
+      appId: '3117443181',
+      hero: { path: join(gridPath, '3117443181_hero.jpg'), source: 'custom' },
+      logo: { path: join(gridPath, '3117443181_logo.png'), source: 'custom' },
+      icon: { path: iconPath, source: 'shortcut' },
+      missing: ['header', 'capsule'],
+    });
+  });
+
+  it('should throw for users without a userdata directory', () => {
+    expect(() => getSteamAppAssetsSync('570', { steamPath, userId: 1 })).toThrow(
+      SteamUserNotFoundError
+    );
+  });
+});
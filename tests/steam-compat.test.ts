@@ -0,0 +1,150 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  getCompatibilityTools,
+  getCompatibilityToolsSync,
+  getCompatToolMappingSync,
+  getAppCompatToolSync,
+  getProtonPrefixPath,
+  getProtonPrefixPathSync,
+} from '../src/index';
+
+const CONFIG = `"InstallConfigStore"
+{
+	"Software"
+	{
+		"Valve"
+		{
+			"Steam"
+			{
+				"CompatToolMapping"
+				{
+					"0"
+					{
+						"name"		"proton_9"
+						"config"		""
+						"priority"		"75"
+					}
+					"440"
+					{
+						"name"		"GE-Proton9-5"
+						"config"		""
+						"priority"		"250"
+					}
+					"570"
+					{
+						"name"		""
+						"config"		""
+						"priority"		"250"
+					}
+				}
+			}
+		}
+	}
+}
+`;
+
+const COMPATIBILITY_TOOL = `"compatibilitytools"
+{
+	"compat_tools"
+	{
+		"GE-Proton9-5"
+		{
+			"install_path"		"."
+			"display_name"		"GE-Proton9-5"
+			"from_oslist"		"windows"
+			"to_oslist"		"linux"
+		}
+	}
+}
+`;
+
+describe('steam-compat', () => {
+  let steamPath: string;
+  let steamApps: string;
+
+  const installApp = (appId: string, name: string) => {
+    mkdirSync(join(steamApps, 'common', name), { recursive: true });
+    writeFileSync(
+      join(steamApps, `appmanifest_${appId}.acf`),
+      `"AppState"\n{\n\t"appid"\t\t"${appId}"\n\t"name"\t\t"${name}"\n\t"installdir"\t\t"${name}"\n}\n`
+    );
+    return join(steamApps, 'common', name);
+  };
+
+  beforeEach(() => {
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-compat-'));
+    steamApps = join(steamPath, 'steamapps');
+    mkdirSync(join(steamPath, 'config'), { recursive: true });
+    writeFileSync(join(steamPath, 'config', 'config.vdf'), CONFIG);
+
+    writeFileSync(join(installApp('2805730', 'Proton 9.0'), 'toolmanifest.vdf'), '');
+    writeFileSync(join(installApp('1493710', 'Proton Experimental'), 'toolmanifest.vdf'), '');
+    installApp('440', 'Team Fortress 2');
+
+    const customTool = join(steamPath, 'compatibilitytools.d', 'GE-Proton9-5');
+    mkdirSync(customTool, { recursive: true });
+    writeFileSync(join(customTool, 'compatibilitytool.vdf'), COMPATIBILITY_TOOL);
+  });
+
+  afterEach(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  it('should list official and custom tools', async () => {
+    const tools = await getCompatibilityTools(steamPath);
+
+    expect(tools).toEqual(
+      expect.arrayContaining([
+        {
+          name: 'proton_9',
+          displayName: 'Proton 9.0',
+          path: join(steamApps, 'common', 'Proton 9.0'),
+          source: 'steam',
+          appId: '2805730',
+          fromOS: undefined,
+          toOS: undefined,
+        },
+        expect.objectContaining({ name: 'proton_experimental', appId: '1493710' }),
+        {
+          name: 'GE-Proton9-5',
+          displayName: 'GE-Proton9-5',
+          path: join(steamPath, 'compatibilitytools.d', 'GE-Proton9-5'),
+          source: 'custom',
+          fromOS: 'windows',
+          toOS: 'linux',
+        },
+      ])
+    );
+    expect(tools).toHaveLength(3);
+  });
+
+  it('should read tool assignments, skipping cleared overrides', () => {
+    expect(getCompatToolMappingSync(steamPath)).toEqual([
+      { appId: '0', name: 'proton_9', config: undefined, priority: 75 },
+      { appId: '440', name: 'GE-Proton9-5', config: undefined, priority: 250 },
+    ]);
+  });
+
+  it('should resolve the tool used by an app, falling back to the default', () => {
+    expect(getAppCompatToolSync('440', steamPath)?.name).toBe('GE-Proton9-5');
+    expect(getAppCompatToolSync('730', steamPath)?.name).toBe('proton_9');
+  });
+
+  it('should find the prefix in the library holding the app', async () => {
+    mkdirSync(join(steamApps, 'compatdata', '440', 'pfx'), { recursive: true });
+
+    expect(await getProtonPrefixPath('440', steamPath)).toBe(
+      join(steamApps, 'compatdata', '440', 'pfx')
+    );
+    expect(getProtonPrefixPathSync('730', steamPath)).toBeUndefined();
+  });
+
+  it('should return no tools for an empty installation', () => {
+    rmSync(steamApps, { recursive: true, force: true });
+    rmSync(join(steamPath, 'compatibilitytools.d'), { recursive: true, force: true });
+
+    expect(getCompatibilityToolsSync(steamPath)).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  findSteamAppExecutables,
+  findSteamAppExecutablesSync,
+  SteamAppNotFoundError,
+  SteamAppOS,
+  SteamLaunchConfig,
+} from '../src/index';
+import { writeFile } from './helpers';
+
+jest.mock('../src/steam-appinfo', () => ({
+  ...jest.requireActual('../src/steam-appinfo'),
+  getSteamAppInfo: jest.fn(async () => {
+    throw new Error('No appinfo.vdf');
+  }),
+  getSteamAppInfoSync: jest.fn(() => {
+    throw new Error('No appinfo.vdf');
+  }),
+}));
+
+import { getSteamAppInfo, getSteamAppInfoSync } from '../src/steam-appinfo';
+
+const mockGetSteamAppInfo = getSteamAppInfo as jest.MockedFunction<typeof getSteamAppInfo>;
+const mockGetSteamAppInfoSync = getSteamAppInfoSync as jest.MockedFunction<
+  typeof getSteamAppInfoSync
+>;
+
+/**
+ * Build a 64-bit little-endian ELF header of the given type (2 executable, 3 shared object)
+ */
+function elf(machine: number, type = 3, padding = 0): Buffer {
+  const header = Buffer.alloc(64 + padding);
+  header.write('\x7fELF', 0, 'latin1');
+  header[4] = 2; // 64-bit
+  header[5] = 1; // little-endian
+  header.writeUInt16LE(type, 16);
+  header.writeUInt16LE(machine, 18);
+  return header;
+}
+
+/**
+ * Build a PE file: DOS header pointing to the PE signature and COFF header
+ */
+function pe(machine: number, characteristics = 0x0022, padding = 0): Buffer {
+  const file = Buffer.alloc(0x80 + 24 + padding);
+  file.write('MZ', 0, 'latin1');
+  file.writeUInt32LE(0x80, 0x3c);
+  file.write('PE\0\0', 0x80, 'latin1');
+  file.writeUInt16LE(machine, 0x84);
+  file.writeUInt16LE(characteristics, 0x80 + 22);
+  return file;
+}
+
+function machO(cpuType: number): Buffer {
+  const header = Buffer.alloc(32);
+  header.writeUInt32LE(0xfeedfacf, 0);
+  header.writeUInt32LE(cpuType, 4);
+  return header;
+}
+
+describe('steam-executables', () => {
+  let steamPath: string;
+  let installDir: string;
+
+  beforeEach(() => {
+    mockGetSteamAppInfo.mockRejectedValue(new Error('No appinfo.vdf'));
+    mockGetSteamAppInfoSync.mockImplementation(() => {
+      throw new Error('No appinfo.vdf');
+    });
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-executables-'));
+    const libraryFolder = join(steamPath, 'steamapps');
+    installDir = join(libraryFolder, 'common', 'Hollow Knight');
+    mkdirSync(installDir, { recursive: true });
+    writeFileSync(
+      join(libraryFolder, 'appmanifest_367520.acf'),
+      `"AppState"
+{
+	"appid"		"367520"
+	"name"		"Hollow Knight"
+	"StateFlags"		"4"
+	"installdir"		"Hollow Knight"
+}
+`
+    );
+    writeFile(join(installDir, 'hollow_knight.x86_64'), elf(62, 3, 20000));
+    writeFile(join(installDir, 'hollow_knight_Data', 'Plugins', 'libsteam_api.so'), elf(62));
+    writeFile(join(installDir, 'hollow_knight.exe'), pe(0x8664, 0x0022, 40000));
+    writeFile(join(installDir, 'UnityPlayer.dll'), pe(0x8664, 0x2022));
+    writeFile(join(installDir, 'UnityCrashHandler64.exe'), pe(0x8664));
+    writeFile(join(installDir, '_CommonRedist', 'vcredist', 'vc_redist.x64.exe'), pe(0x8664));
+    writeFile(join(installDir, 'tools', 'editor'), elf(183, 2));
+    writeFile(join(installDir, 'README'), 'Hollow Knight');
+    writeFile(
+      join(installDir, 'hollow_knight.app', 'Contents', 'Info.plist'),
+      '<plist><dict><key>CFBundleExecutable</key>\n<string>hollow_knight</string></dict></plist>'
+    );
+    writeFile(
+      join(installDir, 'hollow_knight.app', 'Contents', 'MacOS', 'hollow_knight'),
+      machO(0x0100000c)
+    );
+  });
+
+  afterEach(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  it('should scan for binaries and rank them when there are no launch options', async () => {
+    const executables = await findSteamAppExecutables('367520', steamPath);
+
+    expect(executables.map(executable => executable.relativePath)).toEqual([
+      'hollow_knight.exe',
+      'hollow_knight.x86_64',
+      'hollow_knight.app',
+      join('tools', 'editor'),
+    ]);
+    expect(executables).toEqual([
+      expect.objectContaining({ os: 'windows', arch: 'x64', format: 'pe', source: 'scan' }),
+      expect.objectContaining({
+        path: join(installDir, 'hollow_knight.x86_64'),
+        os: 'linux',
+        arch: 'x64',
+        format: 'elf',
+      }),
+      expect.objectContaining({ os: 'macos', arch: 'arm64', format: 'macho' }),
+      expect.objectContaining({ os: 'linux', arch: 'arm64', format: 'elf' }),
+    ]);
+  });
+
+  it('should use the launch options whose executables exist', async () => {
+    const launchConfigs: SteamLaunchConfig[] = [
+      { id: '0', executable: 'hollow_knight.exe', os: ['windows'], arch: '64' },
+      { id: '1', executable: 'hollow_knight.app', os: ['macos'] },
+      { id: '2', executable: 'missing\\game.sh', os: ['linux'] },
+      { id: '3', executable: 'hollow_knight.x86_64', arguments: '-force-vulkan', os: [] },
+    ];
+    const appInfo = {
+      appId: '367520',
+      supportedOS: ['windows', 'macos', 'linux'] as SteamAppOS[],
+      launchConfigs,
+      changeNumber: 24000000,
+      lastUpdated: new Date(1718900000 * 1000),
+      data: {},
+    };
+    mockGetSteamAppInfo.mockResolvedValue(appInfo);
+    mockGetSteamAppInfoSync.mockReturnValue(appInfo);
+
+    const executables = findSteamAppExecutablesSync('367520', steamPath);
+    await expect(findSteamAppExecutables('367520', steamPath)).resolves.toEqual(executables);
+
+    expect(executables).toEqual([
+      expect.objectContaining({ relativePath: 'hollow_knight.exe', os: 'windows', arch: 'x64' }),
+      expect.objectContaining({ relativePath: 'hollow_knight.app', os: 'macos', arch: 'arm64' }),
+      expect.objectContaining({
+        relativePath: 'hollow_knight.x86_64',
+        os: 'linux',
+        source: 'launchConfig',
+        launchConfig: launchConfigs[3],
+      }),
+    ]);
+  });
+
+  it('should throw for apps that are not installed', () => {
+    expect(() => findSteamAppExecutablesSync('999', steamPath)).toThrow(SteamAppNotFoundError);
+  });
+});
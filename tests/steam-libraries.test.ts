@@ -0,0 +1,224 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  addSteamLibrary,
+  addSteamLibrarySync,
+  getSteamLibraries,
+  getSteamLibrariesSync,
+  removeSteamLibrary,
+  removeSteamLibrarySync,
+  SteamRunningError,
+} from '../src/index';
+
+jest.mock('../src/steam-process', () => ({
+  ...jest.requireActual('../src/steam-process'),
+  isSteamRunning: jest.fn(async () => false),
+  isSteamRunningSync: jest.fn(() => false),
+}));
+
+import { isSteamRunning, isSteamRunningSync } from '../src/steam-process';
+
+const mockIsSteamRunning = isSteamRunning as jest.MockedFunction<typeof isSteamRunning>;
+const mockIsSteamRunningSync = isSteamRunningSync as jest.MockedFunction<typeof isSteamRunningSync>;
+
+describe('steam-libraries', () => {
+  let steamPath: string;
+  let secondPath: string;
+
+  beforeEach(() => {
+    mockIsSteamRunning.mockResolvedValue(false);
+    mockIsSteamRunningSync.mockReturnValue(false);
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-libraries-'));
+    secondPath = join(steamPath, 'games');
+    mkdirSync(join(steamPath, 'steamapps'), { recursive: true });
+    mkdirSync(join(secondPath, 'steamapps'), { recursive: true });
+    writeFileSync(
+      join(steamPath, 'steamapps', 'libraryfolders.vdf'),
+      `"libraryfolders"
+{
+	"0"
+	{
+		"path"		"${secondPath}"
+		"label"		"Games"
+		"contentid"		"4215384813386372541"
+		"totalsize"		"0"
+		"update_clean_bytes_tally"		"1024"
+		"apps"
+		{
+			"440"		"4000"
+			"570"		"6000"
+		}
+	}
+	"1"
+	{
+		"path"		"${steamPath}"
+		"label"		""
+		"contentid"		"8795329374626346982"
+		"totalsize"		"500000000000"
+		"apps"
+		{
+		}
+	}
+	"2"
+	{
+		"path"		"${join(steamPath, 'unplugged')}"
+	}
+}
+`
+    );
+  });
+
+  afterEach(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  it('should read library metadata with the default library first', async () => {
+    const [main, second, unplugged] = await getSteamLibraries(steamPath);
+
+    expect(main).toEqual(
+      expect.objectContaining({
+        path: steamPath,
+        steamAppsPath: join(steamPath, 'steamapps'),
+        index: '1',
+        label: undefined,
+        contentId: '8795329374626346982',
+        totalSize: 500000000000,
+        apps: {},
+        appsSizeOnDisk: 0,
+        isAvailable: true,
+        isDefault: true,
+      })
+    );
+    expect(second).toEqual(
+      expect.objectContaining({
+        path: secondPath,
+        index: '0',
+        label: 'Games',
+        updateCleanBytesTally: 1024,
+        apps: { '440': 4000, '570': 6000 },
+        appsSizeOnDisk: 10000,
+        isAvailable: true,
+        isDefault: false,
+      })
+    );
+    expect(unplugged).toEqual(
+      expect.objectContaining({ isAvailable: false, freeBytes: undefined, totalBytes: undefined })
+    );
+  });
+
+  it('should report filesystem space for available libraries', () => {
+    const [main] = getSteamLibrariesSync(steamPath);
+
+    expect(main?.totalBytes).toBeGreaterThan(0);
+    expect(main?.freeBytes).toBeGreaterThanOrEqual(0);
+    expect(main?.freeBytes).toBeLessThanOrEqual(main?.totalBytes ?? 0);
+  });
+
+  it('should report the main library when libraryfolders.vdf is missing', () => {
+    rmSync(join(steamPath, 'steamapps', 'libraryfolders.vdf'));
+
+    expect(getSteamLibrariesSync(steamPath)).toEqual([
+      expect.objectContaining({ path: steamPath, index: '0', isDefault: true, apps: {} }),
+    ]);
+  });
+
+  it('should add a library with its marker under the next key', async () => {
+    const libraryPath = join(steamPath, 'new library');
+    const vdfPath = join(steamPath, 'steamapps', 'libraryfolders.vdf');
+    const original = readFileSync(vdfPath, 'utf8');
+
+    const added = await addSteamLibrary(libraryPath, { steamPath, label: 'SSD' });
+
+    expect(added).toEqual(
+      expect.objectContaining({
+        path: libraryPath,
+        index: '3',
+        label: 'SSD',
+        contentId: '4215384813386372541',
+        apps: {},
+        isAvailable: true,
+      })
+    );
+    expect(readFileSync(join(libraryPath, 'libraryfolder.vdf'), 'utf8')).toBe(
+      '"libraryfolder"\n{\n\t"contentid"\t\t"4215384813386372541"\n\t"label"\t\t"SSD"\n}\n'
+    );
+    expect(readFileSync(`${vdfPath}.bak`, 'utf8')).toBe(original);
+    expect(readFileSync(vdfPath, 'utf8')).toContain('"update_clean_bytes_tally"\t\t"1024"');
+    expect(() => addSteamLibrarySync(join(libraryPath, 'steamapps'), { steamPath })).toThrow(
+      'already a Steam library'
+    );
+  });
+
+  it('should remove an empty library and renumber the others', async () => {
+    mkdirSync(join(steamPath, 'unplugged'));
+
+    await expect(removeSteamLibrary(join(steamPath, 'unplugged'), { steamPath })).resolves.toBe(
+      true
+    );
+    expect(getSteamLibrariesSync(steamPath).map(library => library.index)).toEqual(['1', '0']);
+    expect(existsSync(join(steamPath, 'unplugged'))).toBe(true);
+    expect(removeSteamLibrarySync(join(steamPath, 'unplugged'), { steamPath })).toBe(false);
+  });
+
+  it('should keep the rest of libraryfolders.vdf byte for byte', () => {
+    const vdfPath = join(steamPath, 'steamapps', 'libraryfolders.vdf');
+    const original = `// Steam library folders
+"libraryfolders"
+{
+	"contentstatsid"   "-5318253937376946542"
+	"1"
+	{
+		"path"		"${steamPath}"   // Steam's own folder
+		"label"		""
+		"apps" { }
+	}
+	"0"
+	{
+		"path"		"${secondPath}"
+		"apps"
+		{
+			"440"		"4000"
+		}
+	}
+}
+`;
+    writeFileSync(vdfPath, original);
+    const libraryPath = join(steamPath, 'new library');
+
+    addSteamLibrarySync(libraryPath, { steamPath });
+    const added = readFileSync(vdfPath, 'utf8');
+    expect(added.startsWith(original.slice(0, original.lastIndexOf('}')))).toBe(true);
+    expect(added).toContain(`\t"2"\n\t{\n\t\t"path"\t\t"${libraryPath}"\n`);
+
+    expect(removeSteamLibrarySync(libraryPath, { steamPath })).toBe(true);
+    expect(readFileSync(vdfPath, 'utf8')).toBe(original);
+    expect(readFileSync(`${vdfPath}.bak`, 'utf8')).toBe(original);
+  });
+
+  it('should refuse to remove a library holding apps unless forced', () => {
+    expect(() => removeSteamLibrarySync(secondPath, { steamPath })).toThrow(
+      'still holds installed apps (440, 570)'
+    );
+    expect(() => removeSteamLibrarySync(steamPath, { steamPath, force: true })).toThrow(
+      'cannot be removed'
+    );
+
+    expect(removeSteamLibrarySync(secondPath, { steamPath, force: true })).toBe(true);
+    expect(getSteamLibrariesSync(steamPath).map(library => library.path)).toEqual([
+      steamPath,
+      join(steamPath, 'unplugged'),
+    ]);
+  });
+
+  it('should refuse to change libraries while Steam is running', async () => {
+    mockIsSteamRunning.mockResolvedValue(true);
+    mockIsSteamRunningSync.mockReturnValue(true);
+
+    expect(() => addSteamLibrarySync(join(steamPath, 'other'), { steamPath })).toThrow(
+      SteamRunningError
+    );
+    expect(() => removeSteamLibrarySync(secondPath, { steamPath })).toThrow(SteamRunningError);
+    await expect(removeSteamLibrary(secondPath, { steamPath })).rejects.toThrow(SteamRunningError);
+  });
+});
@@ -0,0 +1,181 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  scanLibraryHealth,
+  scanLibraryHealthSync,
+  cleanLibraryIssues,
+  cleanLibraryIssuesSync,
+  SteamRunningError,
+} from '../src/index';
+import { writeFile } from './helpers';
+
+jest.mock('../src/steam-process', () => ({
+  ...jest.requireActual('../src/steam-process'),
+  isSteamRunning: jest.fn(async () => false),
+  isSteamRunningSync: jest.fn(() => false),
+}));
+
+import { isSteamRunning, isSteamRunningSync } from '../src/steam-process';
+
+const mockIsSteamRunning = isSteamRunning as jest.MockedFunction<typeof isSteamRunning>;
+const mockIsSteamRunningSync = isSteamRunningSync as jest.MockedFunction<typeof isSteamRunningSync>;
+
+function manifest(appId: string, installDir: string, stateFlags = 4): string {
+  return `"AppState"
+{
+	"appid"		"${appId}"
+	"name"		"${installDir}"
+	"StateFlags"		"${stateFlags}"
+	"installdir"		"${installDir}"
+}
+`;
+}
+
+describe('steam-library-health', () => {
+  let steamPath: string;
+  let libraryFolder: string;
+
+  beforeEach(() => {
+    mockIsSteamRunning.mockResolvedValue(false);
+    mockIsSteamRunningSync.mockReturnValue(false);
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-health-'));
+    libraryFolder = join(steamPath, 'steamapps');
+    writeFile(join(libraryFolder, 'appmanifest_400.acf'), manifest('400', 'Portal'));
+    writeFile(join(libraryFolder, 'common', 'Portal', 'portal.sh'), 'portal');
+    // Removed folder, manifest left behind
+    writeFile(join(libraryFolder, 'appmanifest_620.acf'), manifest('620', 'Portal 2'));
+    // Updating app, its download is in progress
+    writeFile(join(libraryFolder, 'appmanifest_570.acf'), manifest('570', 'dota 2 beta', 1026));
+    writeFile(join(libraryFolder, 'common', 'dota 2 beta', 'dota.sh'));
+    writeFile(join(libraryFolder, 'downloading', '570', 'chunk'), 'abc');
+    writeFile(join(libraryFolder, 'downloading', 'state_570_571.patch'));
+    // Uninstalled apps
+    writeFile(join(libraryFolder, 'common', 'Half-Life', 'hl.sh'), 'half-life');
+    writeFile(join(libraryFolder, 'downloading', '220', 'chunk'), '12345');
+    writeFile(join(libraryFolder, 'temp', '220', 'file'), '12');
+    writeFile(join(libraryFolder, 'shadercache', '220', 'cache'), '1234');
+    writeFile(join(libraryFolder, 'shadercache', '400', 'cache'));
+    writeFile(join(libraryFolder, 'compatdata', '220', 'pfx'), '123');
+    writeFile(join(libraryFolder, 'compatdata', '400', 'pfx'));
+    writeFile(join(libraryFolder, 'compatdata', '0', 'pfx'));
+    writeFile(join(libraryFolder, 'compatdata', '3000000000', 'pfx'));
+  });
+
+  afterEach(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  it('should report leftovers and broken installs per library', () => {
+    const [health] = scanLibraryHealthSync(steamPath);
+
+    expect(health?.libraryFolder).toBe(libraryFolder);
+    expect(health?.issues).toEqual(
+      expect.arrayContaining([
+        {
+          type: 'orphanedDirectory',
+          path: join(libraryFolder, 'common', 'Half-Life'),
+          appId: undefined,
+          sizeBytes: 9,
+        },
+        {
+          type: 'missingInstallDir',
+          path: join(libraryFolder, 'common', 'Portal 2'),
+          appId: '620',
+          manifestPath: join(libraryFolder, 'appmanifest_620.acf'),
+          sizeBytes: 0,
+        },
+        {
+          type: 'leftoverDownload',
+          path: join(libraryFolder, 'downloading', '220'),
+          appId: '220',
+          sizeBytes: 5,
+        },
+        {
+          type: 'leftoverTemp',
+          path: join(libraryFolder, 'temp', '220'),
+          appId: '220',
+          sizeBytes: 2,
+        },
+        {
+          type: 'staleShaderCache',
+          path: join(libraryFolder, 'shadercache', '220'),
+          appId: '220',
+          sizeBytes: 4,
+        },
+        {
+          type: 'staleCompatData',
+          path: join(libraryFolder, 'compatdata', '220'),
+          appId: '220',
+          sizeBytes: 3,
+        },
+      ])
+    );
+    expect(health?.issues).toHaveLength(6);
+    expect(health?.reclaimableBytes).toBe(23);
+  });
+
+  it('should remove the issues and the manifests of missing installs', async () => {
+    writeFile(
+      join(libraryFolder, 'libraryfolders.vdf'),
+      `"libraryfolders"\n{\n\t"0"\n\t{\n\t\t"path"\t\t"${steamPath}"\n\t\t"apps"\n\t\t{\n\t\t\t"400"\t\t"6"\n\t\t\t"620"\t\t"0"\n\t\t}\n\t}\n}\n`
+    );
+    const [health] = await scanLibraryHealth(steamPath);
+    const result = await cleanLibraryIssues(health?.issues ?? [], { steamPath });
+
+    expect(result).toEqual(expect.objectContaining({ reclaimedBytes: 23, dryRun: false }));
+    expect(result.removed).toHaveLength(6);
+    expect(existsSync(join(libraryFolder, 'common', 'Half-Life'))).toBe(false);
+    expect(existsSync(join(libraryFolder, 'appmanifest_620.acf'))).toBe(false);
+    expect(existsSync(join(libraryFolder, 'compatdata', '220'))).toBe(false);
+    expect(existsSync(join(libraryFolder, 'downloading', '570'))).toBe(true);
+    expect(readFileSync(join(libraryFolder, 'libraryfolders.vdf'), 'utf8')).toBe(
+      `"libraryfolders"\n{\n\t"0"\n\t{\n\t\t"path"\t\t"${steamPath}"\n\t\t"apps"\n\t\t{\n\t\t\t"400"\t\t"6"\n\t\t}\n\t}\n}\n`
+    );
+    expect(scanLibraryHealthSync(steamPath)[0]?.issues).toEqual([]);
+  });
+
+  it('should report unreadable manifests and keep every common folder they might own', () => {
+    writeFile(join(libraryFolder, 'appmanifest_220.acf'), '"AppState"\n{\n\t"appid"\t\t"220"\n');
+    writeFile(join(libraryFolder, 'appmanifest_730.acf'), '"AppState"\n{\n\t"appid"\t\t"730"\n}\n');
+
+    const issues = scanLibraryHealthSync(steamPath)[0]?.issues ?? [];
+    const result = cleanLibraryIssuesSync(issues, { steamPath });
+
+    expect(issues.filter(issue => issue.type === 'unreadableManifest')).toEqual([
+      {
+        type: 'unreadableManifest',
+        path: join(libraryFolder, 'appmanifest_220.acf'),
+        appId: '220',
+        manifestPath: join(libraryFolder, 'appmanifest_220.acf'),
+        sizeBytes: 0,
+      },
+      {
+        type: 'unreadableManifest',
+        path: join(libraryFolder, 'appmanifest_730.acf'),
+        appId: '730',
+        manifestPath: join(libraryFolder, 'appmanifest_730.acf'),
+        sizeBytes: 0,
+      },
+    ]);
+    expect(issues.map(issue => issue.type)).not.toContain('orphanedDirectory');
+    expect(issues.map(issue => issue.type)).not.toContain('staleCompatData');
+    expect(result.removed.map(issue => issue.type)).not.toContain('unreadableManifest');
+    expect(existsSync(join(libraryFolder, 'common', 'Half-Life'))).toBe(true);
+    expect(existsSync(join(libraryFolder, 'appmanifest_220.acf'))).toBe(true);
+  });
+
+  it('should only report what would be removed in dry-run mode, even while Steam runs', async () => {
+    mockIsSteamRunning.mockResolvedValue(true);
+    mockIsSteamRunningSync.mockReturnValue(true);
+    const [health] = scanLibraryHealthSync(steamPath);
+
+    const result = cleanLibraryIssuesSync(health?.issues ?? [], { dryRun: true });
+
+    expect(result).toEqual(expect.objectContaining({ reclaimedBytes: 23, dryRun: true }));
+    expect(existsSync(join(libraryFolder, 'common', 'Half-Life'))).toBe(true);
+    expect(existsSync(join(libraryFolder, 'appmanifest_620.acf'))).toBe(true);
+    expect(() => cleanLibraryIssuesSync(health?.issues ?? [])).toThrow(SteamRunningError);
+    await expect(cleanLibraryIssues(health?.issues ?? [])).rejects.toThrow(SteamRunningError);
+  });
+});
@@ -0,0 +1,118 @@
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SteamAppNotFoundError, SteamLocator } from '../src/index';
+
+// Plain copy of fs so its functions can be spied on
+jest.mock('fs', () => ({ ...jest.requireActual('fs') }));
+const fs = jest.requireMock('fs') as typeof import('fs');
+
+function manifest(appId: string, name: string, buildId = 1): string {
+  return `"AppState"
+{
+	"appid"		"${appId}"
+	"name"		"${name}"
+	"StateFlags"		"4"
+	"installdir"		"${name}"
+	"SizeOnDisk"		"1000"
+	"buildid"		"${buildId}"
+}
+`;
+}
+
+describe('SteamLocator', () => {
+  let steamPath: string;
+  let libraryFolder: string;
+
+  function writeManifest(appId: string, name: string, buildId = 1, mtime?: Date): void {
+    const manifestPath = join(libraryFolder, `appmanifest_${appId}.acf`);
+    writeFileSync(manifestPath, manifest(appId, name, buildId));
+    if (mtime) {
+      utimesSync(manifestPath, mtime, mtime);
+    }
+  }
+
+  beforeEach(() => {
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-locator-'));
+    libraryFolder = join(steamPath, 'steamapps');
+    mkdirSync(join(libraryFolder, 'common', 'Portal'), { recursive: true });
+    writeManifest('400', 'Portal', 1, new Date(1700000000 * 1000));
+    writeManifest('620', 'Portal 2');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  it('should expose the same results as the free functions', async () => {
+    const locator = new SteamLocator({ steamPath });
+
+    expect(locator.getLibraryFoldersSync()).toEqual([libraryFolder]);
+    await expect(locator.findSteamApp('400')).resolves.toEqual(
+      expect.objectContaining({
+        appId: '400',
+        name: 'Portal',
+        isInstalled: true,
+        installDir: join(libraryFolder, 'common', 'Portal'),
+      })
+    );
+    expect(locator.findSteamAppSync('620')).toEqual(
+      expect.objectContaining({ appId: '620', isInstalled: false, installDir: undefined })
+    );
+    expect([...locator.findSteamAppsSync(['400', '999']).keys()]).toEqual(['400']);
+    expect((await locator.getInstalledSteamApps()).map(app => app.appId)).toEqual(['400']);
+    expect(() => locator.getSteamAppManifestSync('999')).toThrow(SteamAppNotFoundError);
+  });
+
+  it('should reuse parsed manifests and libraries while the files are unchanged', () => {
+    const locator = new SteamLocator({ steamPath });
+    locator.getInstalledSteamAppsSync();
+    const readFileSync = jest.spyOn(fs, 'readFileSync');
+
+    locator.getInstalledSteamAppsSync();
+    locator.findSteamAppSync('400');
+    locator.getSteamAppManifestSync('620');
+
+    expect(readFileSync).not.toHaveBeenCalled();
+  });
+
+  it('should re-read a manifest when its modification time changes', async () => {
+    const locator = new SteamLocator({ steamPath });
+    expect((await locator.getSteamAppManifest('400')).buildId).toBe(1);
+
+    writeManifest('400', 'Portal', 2, new Date(1700000100 * 1000));
+
+    expect((await locator.getSteamAppManifest('400')).buildId).toBe(2);
+    expect(locator.getSteamAppManifestSync('400').buildId).toBe(2);
+  });
+
+  it('should re-read the client version when its version file changes', async () => {
+    const versionPath = join(steamPath, 'package', 'steam_client_win32');
+    mkdirSync(join(steamPath, 'package'));
+    writeFileSync(versionPath, '1700000000');
+    utimesSync(versionPath, new Date(1700000000 * 1000), new Date(1700000000 * 1000));
+    const locator = new SteamLocator({ steamPath });
+    expect((await locator.findSteamLocation()).version).toBe('1700000000');
+
+    writeFileSync(versionPath, '1700000100');
+    utimesSync(versionPath, new Date(1700000100 * 1000), new Date(1700000100 * 1000));
+
+    expect((await locator.findSteamLocation()).version).toBe('1700000100');
+    expect(locator.findSteamLocationSync().version).toBe('1700000100');
+  });
+
+  it('should forget removed manifests and cleared caches', () => {
+    const locator = new SteamLocator({ steamPath });
+    expect(locator.findSteamAppSync('620').name).toBe('Portal 2');
+
+    rmSync(join(libraryFolder, 'appmanifest_620.acf'));
+    expect(() => locator.findSteamAppSync('620')).toThrow(SteamAppNotFoundError);
+
+    locator.getSteamAppManifestSync('400');
+    locator.clearCache();
+    const readFileSync = jest.spyOn(fs, 'readFileSync');
+    locator.getSteamAppManifestSync('400');
+    expect(readFileSync).toHaveBeenCalled();
+  });
+});
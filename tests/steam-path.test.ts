@@ -0,0 +1,182 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  realpathSync,
+  rmSync,
+  symlinkSync,
+  utimesSync,
+  writeFileSync,
+} from 'fs';
+import type { PathLike } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import {
+  findAllSteamInstallations,
+  findAllSteamInstallationsSync,
+  findSteamPath,
+  findSteamPathSync,
+  getSteamInstallation,
+  getSteamInstallationSync,
+  SteamNotFoundError,
+} from '../src/index';
+
+// Detect with the Linux locations regardless of the host platform
+jest.mock('os', () => ({ ...jest.requireActual('os'), platform: () => 'linux' }));
+// Plain copies of fs so /etc/os-release can be faked
+jest.mock('fs', () => ({ ...jest.requireActual('fs') }));
+jest.mock('fs/promises', () => ({ ...jest.requireActual('fs/promises') }));
+const fs = jest.requireMock('fs') as typeof import('fs');
+const fsPromises = jest.requireMock('fs/promises') as typeof import('fs/promises');
+
+/**
+ * Make reads of /etc/os-release return the given content, passing other reads through
+ */
+function mockOsRelease(content: string): void {
+  const { readFileSync } = jest.requireActual('fs') as typeof import('fs');
+  const { readFile } = jest.requireActual('fs/promises') as typeof import('fs/promises');
+  const isOsRelease = (path: unknown): boolean => String(path as PathLike) === '/etc/os-release';
+  jest
+    .spyOn(fs, 'readFileSync')
+    .mockImplementation(((path: PathLike, options: 'utf8') =>
+      isOsRelease(path) ? content : readFileSync(path, options)) as typeof readFileSync);
+  jest
+    .spyOn(fsPromises, 'readFile')
+    .mockImplementation((async (path: PathLike, options: 'utf8') =>
+      isOsRelease(path) ? content : readFile(path, options)) as typeof readFile);
+}
+
+/**
+ * Write a file the client rewrites while in use, with the given modification time
+ */
+function writeUsageFile(path: string, modified: Date): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, '');
+  utimesSync(path, modified, modified);
+}
+
+describe('steam-path', () => {
+  let homeDir: string;
+  let nativePath: string;
+  let flatpakPath: string;
+
+  beforeEach(() => {
+    homeDir = realpathSync(mkdtempSync(join(tmpdir(), 'steam-path-')));
+    nativePath = join(homeDir, '.local', 'share', 'Steam');
+    flatpakPath = join(
+      homeDir,
+      '.var',
+      'app',
+      'com.valvesoftware.Steam',
+      '.local',
+      'share',
+      'Steam'
+    );
+    mkdirSync(nativePath, { recursive: true });
+    mkdirSync(flatpakPath, { recursive: true });
+    // ~/.steam/steam and ~/.steam/root point at the native installation
+    mkdirSync(join(homeDir, '.steam'));
+    symlinkSync(nativePath, join(homeDir, '.steam', 'steam'));
+    symlinkSync(nativePath, join(homeDir, '.steam', 'root'));
+    mockOsRelease('NAME="Ubuntu"\nID=ubuntu\n');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.STEAM_LOCATE_TEST_PATH;
+    rmSync(homeDir, { recursive: true, force: true });
+  });
+
+  it('should find every distinct installation, collapsing symlinks', async () => {
+    const installations = await findAllSteamInstallations({ homeDir });
+
+    expect(installations).toEqual([
+      {
+        path: nativePath,
+        realPath: nativePath,
+        aliases: [nativePath, join(homeDir, '.steam', 'steam'), join(homeDir, '.steam', 'root')],
+        variant: 'native',
+        sandboxRoot: undefined,
+      },
+      {
+        path: flatpakPath,
+        realPath: flatpakPath,
+        aliases: [flatpakPath],
+        variant: 'flatpak',
+        sandboxRoot: join(homeDir, '.var', 'app', 'com.valvesoftware.Steam'),
+      },
+    ]);
+    expect(findAllSteamInstallationsSync({ homeDir })).toEqual(installations);
+  });
+
+  it('should pick the preferred variant when several installations exist', async () => {
+    expect(findSteamPathSync({ homeDir })).toBe(nativePath);
+    await expect(findSteamPath({ homeDir, preferredVariant: 'flatpak' })).resolves.toBe(
+      flatpakPath
+    );
+    expect(findSteamPathSync({ homeDir, preferredVariant: 'snap' })).toBe(nativePath);
+  });
+
+  it('should pick the most recently used installation over a leftover one', async () => {
+    const flatpakHome = join(homeDir, '.var', 'app', 'com.valvesoftware.Steam');
+    writeUsageFile(join(flatpakPath, 'config', 'loginusers.vdf'), new Date('2023-01-01'));
+    writeUsageFile(join(nativePath, 'config', 'loginusers.vdf'), new Date('2024-06-01'));
+
+    await expect(findSteamPath({ homeDir })).resolves.toBe(nativePath);
+
+    // The Flatpak client is the one running now
+    writeUsageFile(join(flatpakHome, '.steam', 'steam.pid'), new Date('2024-07-01'));
+
+    expect(findSteamPathSync({ homeDir })).toBe(flatpakPath);
+    await expect(findAllSteamInstallations({ homeDir })).resolves.toEqual([
+      expect.objectContaining({ variant: 'flatpak' }),
+      expect.objectContaining({ variant: 'native' }),
+    ]);
+    expect(findSteamPathSync({ homeDir, preferredVariant: 'native' })).toBe(nativePath);
+  });
+
+  it('should prefer explicit paths, the environment override and extra paths', async () => {
+    const customPath = join(homeDir, 'custom', 'Steam');
+    mkdirSync(customPath, { recursive: true });
+
+    await expect(findSteamPath({ homeDir, extraPaths: [customPath] })).resolves.toBe(customPath);
+
+    process.env.STEAM_LOCATE_TEST_PATH = nativePath;
+    expect(findSteamPathSync({ homeDir, envVar: 'STEAM_LOCATE_TEST_PATH' })).toBe(nativePath);
+    expect(
+      findSteamPathSync({ homeDir, envVar: 'STEAM_LOCATE_TEST_PATH', steamPath: customPath })
+    ).toBe(customPath);
+
+    expect(() => findSteamPathSync({ steamPath: join(homeDir, 'missing') })).toThrow(
+      SteamNotFoundError
+    );
+  });
+
+  it('should classify installations by packaging', async () => {
+    const snapPath = join(homeDir, 'snap', 'steam', 'common', '.local', 'share', 'Steam');
+    const debianPath = join(homeDir, '.steam', 'debian-installation');
+    mkdirSync(snapPath, { recursive: true });
+    mkdirSync(debianPath);
+
+    expect(getSteamInstallationSync(join(homeDir, '.steam', 'steam'))).toEqual(
+      expect.objectContaining({ realPath: nativePath, variant: 'native' })
+    );
+    await expect(getSteamInstallation(snapPath)).resolves.toEqual(
+      expect.objectContaining({
+        variant: 'snap',
+        sandboxRoot: join(homeDir, 'snap', 'steam', 'common'),
+      })
+    );
+    expect(getSteamInstallationSync(debianPath).variant).toBe('debian');
+    expect(() => getSteamInstallationSync(join(homeDir, 'missing'))).toThrow(SteamNotFoundError);
+  });
+
+  it('should recognize SteamOS on the Steam Deck', async () => {
+    mockOsRelease('NAME="SteamOS"\nID=steamos\nVARIANT_ID=steamdeck\n');
+
+    await expect(getSteamInstallation(nativePath)).resolves.toEqual(
+      expect.objectContaining({ variant: 'steamos', sandboxRoot: undefined })
+    );
+    // A Flatpak on SteamOS is still sandboxed
+    expect(getSteamInstallationSync(flatpakPath).variant).toBe('flatpak');
+  });
+});
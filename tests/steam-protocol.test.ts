@@ -0,0 +1,108 @@
+import { EventEmitter } from 'events';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildSteamUri, executeSteamAction } from '../src/index';
+
+jest.mock('os', () => ({ ...jest.requireActual('os'), platform: jest.fn(() => 'linux') }));
+jest.mock('child_process', () => ({ ...jest.requireActual('child_process'), spawn: jest.fn() }));
+
+import { platform } from 'os';
+import { spawn } from 'child_process';
+
+const mockPlatform = platform as jest.MockedFunction<typeof platform>;
+const mockSpawn = spawn as unknown as jest.Mock;
+
+describe('steam-protocol', () => {
+  let homeDir: string;
+
+  beforeEach(() => {
+    homeDir = realpathSync(mkdtempSync(join(tmpdir(), 'steam-protocol-')));
+    mockPlatform.mockReturnValue('linux');
+    mockSpawn.mockReset();
+  });
+
+  afterEach(() => {
+    rmSync(homeDir, { recursive: true, force: true });
+  });
+
+  it('should build the URI of each action', () => {
+    expect(buildSteamUri({ type: 'run', appId: 570 })).toBe('steam://run/570');
+    expect(buildSteamUri({ type: 'run', appId: '730', args: ['-novid', '+map de_dust2'] })).toBe(
+      'steam://run/730//-novid%20%2Bmap%20de_dust2/'
+    );
+    expect(buildSteamUri({ type: 'install', appId: 440 })).toBe('steam://install/440');
+    expect(buildSteamUri({ type: 'uninstall', appId: 440 })).toBe('steam://uninstall/440');
+    expect(buildSteamUri({ type: 'validate', appId: 440 })).toBe('steam://validate/440');
+    expect(buildSteamUri({ type: 'store', appId: 440 })).toBe('steam://store/440');
+    expect(buildSteamUri({ type: 'library', appId: 440 })).toBe('steam://nav/games/details/440');
+    expect(() => buildSteamUri({ type: 'run', appId: '570/../x' })).toThrow('Invalid app ID');
+  });
+
+  it('should return the opener command in dry-run mode', async () => {
+    const action = { type: 'validate', appId: 570 } as const;
+
+    await expect(executeSteamAction(action, { dryRun: true })).resolves.toEqual({
+      uri: 'steam://validate/570',
+      command: 'xdg-open',
+      args: ['steam://validate/570'],
+      executed: false,
+    });
+    mockPlatform.mockReturnValue('win32');
+    await expect(executeSteamAction(action, { dryRun: true })).resolves.toEqual(
+      expect.objectContaining({ command: 'explorer.exe' })
+    );
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+
+  it('should dispatch through Steam the way it was packaged', async () => {
+    const nativePath = join(homeDir, '.local', 'share', 'Steam');
+    const flatpakPath = join(homeDir, '.var/app/com.valvesoftware.Steam/.local/share/Steam');
+    mkdirSync(nativePath, { recursive: true });
+    mkdirSync(flatpakPath, { recursive: true });
+    const action = { type: 'run', appId: 570 } as const;
+
+    await expect(
+      executeSteamAction(action, { via: 'steam', steamPath: nativePath, dryRun: true })
+    ).resolves.toEqual(
+      expect.objectContaining({
+        command: join(nativePath, 'steam.sh'),
+        args: ['steam://run/570'],
+      })
+    );
+    await expect(
+      executeSteamAction(action, { via: 'steam', steamPath: flatpakPath, dryRun: true })
+    ).resolves.toEqual(
+      expect.objectContaining({
+        command: 'flatpak',
+        args: ['run', 'com.valvesoftware.Steam', 'steam://run/570'],
+      })
+    );
+  });
+
+  it('should start the command detached', async () => {
+    // No 'spawn' event, as on Node versions before 15.1
+    const child = Object.assign(new EventEmitter(), { unref: jest.fn() });
+    mockSpawn.mockReturnValue(child);
+
+    const result = await executeSteamAction({ type: 'store', appId: 440 });
+
+    expect(result.executed).toBe(true);
+    expect(mockSpawn).toHaveBeenCalledWith('xdg-open', ['steam://store/440'], {
+      detached: true,
+      stdio: 'ignore',
+      windowsHide: true,
+    });
+    expect(child.unref).toHaveBeenCalled();
+  });
+
+  it('should reject when the command cannot be started', async () => {
+    const child = Object.assign(new EventEmitter(), { unref: jest.fn() });
+    mockSpawn.mockImplementation(() => {
+      process.nextTick(() => child.emit('error', new Error('spawn xdg-open ENOENT')));
+      return child;
+    });
+
+    await expect(executeSteamAction({ type: 'store', appId: 440 })).rejects.toThrow('ENOENT');
+  });
+});
@@ -0,0 +1,133 @@
+import { getRunningSteamApps, getRunningSteamAppsSync } from '../src/index';
+import type { SteamApp } from '../src/types';
+import { join } from 'path';
+
+jest.mock('child_process');
+jest.mock('fs');
+jest.mock('fs/promises');
+jest.mock('os');
+jest.mock('../src/steam-locate-api');
+
+import { exec, execSync } from 'child_process';
+import { readdirSync, readFileSync } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import { platform } from 'os';
+import { getInstalledSteamApps, getInstalledSteamAppsSync } from '../src/steam-locate-api';
+
+const mockExec = exec as unknown as jest.Mock;
+const mockExecSync = execSync as unknown as jest.Mock;
+const mockReaddir = readdir as unknown as jest.Mock;
+const mockReaddirSync = readdirSync as unknown as jest.Mock;
+const mockReadFile = readFile as unknown as jest.Mock;
+const mockReadFileSync = readFileSync as unknown as jest.Mock;
+const mockPlatform = platform as jest.MockedFunction<typeof platform>;
+const mockGetInstalledSteamApps = getInstalledSteamApps as jest.MockedFunction<
+  typeof getInstalledSteamApps
+>;
+const mockGetInstalledSteamAppsSync = getInstalledSteamAppsSync as jest.MockedFunction<
+  typeof getInstalledSteamAppsSync
+>;
+
+const steamPath = '/home/user/.local/share/Steam';
+const teamFortress: SteamApp = {
+  appId: '440',
+  name: 'Team Fortress 2',
+  installDir: join(steamPath, 'steamapps', 'common', 'Team Fortress 2'),
+  isInstalled: true,
+};
+
+/**
+ * Make reads of /proc entries return content by path, failing for other files
+ */
+function mockProcFiles(files: Record<string, string>): void {
+  const read = (path: string): string => {
+    const content = files[String(path)];
+    if (content === undefined) {
+      throw Object.assign(new Error(`ENOENT: ${path}`), { code: 'ENOENT' });
+    }
+    return content;
+  };
+  mockReadFile.mockImplementation(async (path: string) => read(path));
+  mockReadFileSync.mockImplementation(read);
+  const pids = [...new Set(Object.keys(files).map(path => path.split('/')[2]))];
+  mockReaddir.mockResolvedValue(pids);
+  mockReaddirSync.mockReturnValue(pids);
+}
+
+describe('steam-running-apps', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPlatform.mockReturnValue('win32');
+    mockGetInstalledSteamApps.mockResolvedValue([teamFortress]);
+    mockGetInstalledSteamAppsSync.mockReturnValue([teamFortress]);
+  });
+
+  describe('getRunningSteamApps', () => {
+    it('should group game processes by app on Linux', async () => {
+      mockPlatform.mockReturnValue('linux');
+      const shortcutGameId = (BigInt(3000000000) * BigInt(2 ** 32) + BigInt(0x02000000)).toString();
+      mockProcFiles({
+        '/proc/1/environ': 'HOME=/root\0',
+        '/proc/100/environ': 'HOME=/home/user\0SteamAppId=440\0SteamGameId=440\0',
+        '/proc/101/environ': 'SteamGameId=440\0',
+        '/proc/102/cmdline': `${steamPath}/ubuntu12_32/reaper\0SteamLaunch\0AppId=570\0--\0dota2\0`,
+        '/proc/200/environ': `SteamAppId=0\0SteamGameId=${shortcutGameId}\0`,
+      });
+
+      const result = await getRunningSteamApps(steamPath);
+
+      expect(result).toEqual([
+        { appId: '440', pids: [100, 101], app: teamFortress },
+        { appId: '570', pids: [102], app: undefined },
+        { appId: '3000000000', pids: [200], app: undefined },
+      ]);
+      expect(mockGetInstalledSteamApps).toHaveBeenCalledWith(steamPath);
+    });
+
+    it('should read RunningAppID from the registry on Windows', async () => {
+      mockExec.mockImplementation((_command, _options, callback) =>
+        callback(
+          null,
+          '\r\nHKEY_CURRENT_USER\\Software\\Valve\\Steam\r\n    RunningAppID    REG_DWORD    0x1b8\r\n',
+          ''
+        )
+      );
+
+      await expect(getRunningSteamApps('C:\\Steam')).resolves.toEqual([
+        { appId: '440', pids: [], app: teamFortress },
+      ]);
+    });
+
+    it('should return an empty list when no game is running', async () => {
+      mockExec.mockImplementation((_command, _options, callback) =>
+        callback(null, '    RunningAppID    REG_DWORD    0x0\r\n', '')
+      );
+
+      await expect(getRunningSteamApps('C:\\Steam')).resolves.toEqual([]);
+      expect(mockGetInstalledSteamApps).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRunningSteamAppsSync', () => {
+    it('should group game processes by app on Linux', () => {
+      mockPlatform.mockReturnValue('linux');
+      mockProcFiles({
+        '/proc/100/environ': 'SteamAppId=440\0',
+        '/proc/101/environ': 'SteamGameId=440\0',
+      });
+
+      expect(getRunningSteamAppsSync(steamPath)).toEqual([
+        { appId: '440', pids: [100, 101], app: teamFortress },
+      ]);
+    });
+
+    it('should report the app ID alone when Steam cannot be found', () => {
+      mockExecSync.mockReturnValue('    RunningAppID    REG_DWORD    0x1b8\r\n');
+      mockGetInstalledSteamAppsSync.mockImplementation(() => {
+        throw new Error('Steam not found');
+      });
+
+      expect(getRunningSteamAppsSync()).toEqual([{ appId: '440', pids: [], app: undefined }]);
+    });
+  });
+});
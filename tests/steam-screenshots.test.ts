@@ -0,0 +1,158 @@
+import { mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { getSteamScreenshots, getSteamScreenshotsSync, SteamUserNotFoundError } from '../src/index';
+import { createTempDir, writeFile } from './helpers';
+
+/**
+ * Build the start of a PNG file: signature and IHDR chunk
+ */
+function png(width: number, height: number): Buffer {
+  const header = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'latin1');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+/**
+ * Build the start of a JPEG file: an APP1 segment followed by a baseline frame header
+ */
+function jpeg(width: number, height: number): Buffer {
+  const app1 = Buffer.alloc(4 + 100);
+  app1.writeUInt16BE(0xffe1, 0);
+  app1.writeUInt16BE(102, 2);
+  const frame = Buffer.alloc(11);
+  frame.writeUInt16BE(0xffc0, 0);
+  frame.writeUInt16BE(17, 2);
+  frame[4] = 8;
+  frame.writeUInt16BE(height, 5);
+  frame.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app1, frame]);
+}
+
+describe('steam-screenshots', () => {
+  let steamPath: string;
+  let remotePath: string;
+  let externalPath: string;
+
+  beforeEach(() => {
+    steamPath = createTempDir('steam-screenshots');
+    const userDataPath = join(steamPath, 'userdata', '22202');
+    remotePath = join(userDataPath, '760', 'remote');
+    externalPath = join(steamPath, 'Screenshots');
+    writeFile(
+      join(steamPath, 'config', 'loginusers.vdf'),
+      '"users"\n{\n\t"76561197960287930"\n\t{\n\t\t"MostRecent"\t\t"1"\n\t}\n}\n'
+    );
+    writeFile(
+      join(steamPath, 'steamapps', 'appmanifest_570.acf'),
+      '"AppState"\n{\n\t"appid"\t\t"570"\n\t"name"\t\t"Dota 2"\n\t"StateFlags"\t\t"4"\n\t"installdir"\t\t"dota 2 beta"\n}\n'
+    );
+    mkdirSync(join(steamPath, 'steamapps', 'common', 'dota 2 beta'), { recursive: true });
+    writeFile(
+      join(userDataPath, '760', 'screenshots.vdf'),
+      `"Screenshots"
+{
+	"570"
+	{
+		"0"
+		{
+			"type"		"1"
+			"filename"		"570/screenshots/20240115183042_1.jpg"
+			"thumbnail"		"570/screenshots/thumbnails/20240115183042_1.jpg"
+			"width"		"2560"
+			"height"		"1440"
+			"creation"		"1705343442"
+			"caption"		"Rampage"
+			"location"		"Radiant jungle"
+			"publishedfileid"		"3141592653"
+		}
+	}
+	"shortcutnames"
+	{
+		"2837492010"		"Emulator"
+	}
+}
+`
+    );
+    writeFile(join(remotePath, '570', 'screenshots', '20240115183042_1.jpg'), jpeg(2560, 1440));
+    writeFile(
+      join(remotePath, '570', 'screenshots', 'thumbnails', '20240115183042_1.jpg'),
+      jpeg(200, 112)
+    );
+    // Taken since Steam last wrote screenshots.vdf
+    writeFile(join(remotePath, '570', 'screenshots', '20240201090000_1.jpg'), jpeg(1920, 1080));
+    writeFile(join(remotePath, '2837492010', 'screenshots', '20231224200000_1.png'), png(640, 480));
+    writeFile(
+      join(userDataPath, 'config', 'localconfig.vdf'),
+      `"UserLocalConfigStore"
+{
+	"system"
+	{
+		"InGameOverlayScreenshotSaveUncompressed"		"1"
+		"InGameOverlayScreenshotSaveUncompressedPath"		"${externalPath}"
+	}
+}
+`
+    );
+    writeFile(join(externalPath, '570_20240120120000_1.png'), png(2560, 1440));
+    writeFile(join(externalPath, 'wallpaper.png'), png(100, 100));
+  });
+
+  afterEach(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  it('should list screenshots grouped by app with their metadata', async () => {
+    const [dota, emulator] = await getSteamScreenshots({ steamPath });
+
+    expect(dota).toEqual(expect.objectContaining({ appId: '570', name: 'Dota 2' }));
+    expect(dota?.screenshots).toEqual([
+      {
+        appId: '570',
+        path: join(remotePath, '570', 'screenshots', '20240115183042_1.jpg'),
+        thumbnailPath: join(remotePath, '570', 'screenshots', 'thumbnails', '20240115183042_1.jpg'),
+        width: 2560,
+        height: 1440,
+        createdAt: new Date(1705343442 * 1000),
+        caption: 'Rampage',
+        location: 'Radiant jungle',
+        publishedFileId: '3141592653',
+        source: 'steam',
+      },
+      expect.objectContaining({
+        path: join(steamPath, 'Screenshots', '570_20240120120000_1.png'),
+        width: 2560,
+        height: 1440,
+        createdAt: new Date(2024, 0, 20, 12, 0, 0),
+        source: 'external',
+      }),
+      expect.objectContaining({
+        thumbnailPath: undefined,
+        width: 1920,
+        height: 1080,
+        createdAt: new Date(2024, 1, 1, 9, 0, 0),
+        caption: undefined,
+        source: 'steam',
+      }),
+    ]);
+    expect(emulator).toEqual({
+      appId: '2837492010',
+      name: 'Emulator',
+      screenshots: [expect.objectContaining({ width: 640, height: 480 })],
+    });
+  });
+
+  it('should only list the requested app', () => {
+    const screenshots = getSteamScreenshotsSync({ steamPath, userId: 22202, appId: 2837492010 });
+
+    expect(screenshots.map(app => app.appId)).toEqual(['2837492010']);
+    expect(getSteamScreenshotsSync({ steamPath, appId: '440' })).toEqual([]);
+  });
+
+  it('should throw for users without a userdata directory', () => {
+    expect(() => getSteamScreenshotsSync({ steamPath, userId: 1 })).toThrow(SteamUserNotFoundError);
+  });
+});
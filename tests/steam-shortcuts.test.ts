@@ -0,0 +1,177 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  getSteamShortcuts,
+  getSteamShortcutsSync,
+  addSteamShortcut,
+  addSteamShortcutSync,
+  removeSteamShortcut,
+  removeSteamShortcutSync,
+  getShortcutAppId,
+  getShortcutGameId,
+  parseBinaryVdf,
+  serializeBinaryVdf,
+  SteamRunningError,
+} from '../src/index';
+
+jest.mock('../src/steam-process', () => ({
+  ...jest.requireActual('../src/steam-process'),
+  isSteamRunning: jest.fn(async () => false),
+  isSteamRunningSync: jest.fn(() => false),
+}));
+
+import { isSteamRunning, isSteamRunningSync } from '../src/steam-process';
+
+const mockIsSteamRunning = isSteamRunning as jest.MockedFunction<typeof isSteamRunning>;
+const mockIsSteamRunningSync = isSteamRunningSync as jest.MockedFunction<typeof isSteamRunningSync>;
+
+describe('steam-shortcuts', () => {
+  let steamPath: string;
+  let shortcutsPath: string;
+
+  beforeEach(() => {
+    mockIsSteamRunning.mockResolvedValue(false);
+    mockIsSteamRunningSync.mockReturnValue(false);
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-shortcuts-'));
+    mkdirSync(join(steamPath, 'config'));
+    writeFileSync(
+      join(steamPath, 'config', 'loginusers.vdf'),
+      '"users"\n{\n\t"76561197960287930"\n\t{\n\t\t"MostRecent"\t\t"1"\n\t}\n}\n'
+    );
+    mkdirSync(join(steamPath, 'userdata', '22202', 'config'), { recursive: true });
+    shortcutsPath = join(steamPath, 'userdata', '22202', 'config', 'shortcuts.vdf');
+  });
+
+  afterEach(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  it('should read shortcuts written by the client', async () => {
+    writeFileSync(
+      shortcutsPath,
+      serializeBinaryVdf({
+        shortcuts: {
+          '0': {
+            appid: -1177524115,
+            AppName: 'My Game',
+            Exe: '"/usr/bin/game"',
+            StartDir: '"/usr/bin/"',
+            icon: '',
+            LaunchOptions: '--fullscreen',
+            IsHidden: 0,
+            AllowOverlay: 1,
+            LastPlayTime: 1718900000,
+            tags: { '0': 'favorite' },
+            CustomField: 'kept',
+          },
+        },
+      })
+    );
+
+    const [shortcut] = await getSteamShortcuts({ steamPath });
+
+    expect(shortcut).toEqual({
+      appId: '3117443181',
+      gameId: getShortcutGameId('3117443181'),
+      appName: 'My Game',
+      exe: '/usr/bin/game',
+      startDir: '/usr/bin/',
+      launchOptions: '--fullscreen',
+      icon: undefined,
+      shortcutPath: undefined,
+      tags: ['favorite'],
+      isHidden: false,
+      allowOverlay: true,
+      allowDesktopConfig: true,
+      openVR: false,
+      lastPlayTime: new Date(1718900000 * 1000),
+    });
+  });
+
+  it('should compute legacy shortcut IDs from the executable and name', () => {
+    expect(getShortcutAppId('"/usr/bin/game"', 'My Game')).toBe('3117443181');
+    expect(getShortcutGameId('3117443181')).toBe('13389316509566763008');
+  });
+
+  it('should return no shortcuts when shortcuts.vdf is missing', () => {
+    expect(getSteamShortcutsSync({ steamPath })).toEqual([]);
+  });
+
+  it('should add and remove shortcuts, keeping a backup and unknown fields', async () => {
+    const original = serializeBinaryVdf({
+      shortcuts: { '0': { AppName: 'Legacy', Exe: '"/opt/legacy"', x: 7 } },
+    });
+    writeFileSync(shortcutsPath, original);
+    const legacy = getSteamShortcutsSync({ steamPath })[0];
+    const added = addSteamShortcutSync(
+      { appName: 'My Game', exe: '/usr/bin/game', tags: ['favorite'] },
+      { steamPath }
+    );
+    const second = addSteamShortcutSync({ appName: 'Other', exe: '/opt/other' }, { steamPath });
+
+    expect(added.appId).toBe('3117443181');
+    expect(added.startDir).toBe('/usr/bin');
+    expect(getSteamShortcutsSync({ steamPath }).map(s => s.appName)).toEqual([
+      'Legacy',
+      'My Game',
+      'Other',
+    ]);
+    // Only the file from before the first edit is backed up
+    expect(readFileSync(`${shortcutsPath}.bak`)).toEqual(original);
+
+    expect(await removeSteamShortcut(added.appId, { steamPath })).toBe(true);
+    expect(removeSteamShortcutSync(added.appId, { steamPath })).toBe(false);
+
+    const document = parseBinaryVdf(readFileSync(shortcutsPath));
+    expect(document).toEqual({
+      shortcuts: {
+        '0': { AppName: 'Legacy', Exe: '"/opt/legacy"', x: 7 },
+        '1': expect.objectContaining({ AppName: 'Other' }),
+      },
+    });
+    expect(getSteamShortcutsSync({ steamPath })).toEqual([legacy, second]);
+  });
+
+  it('should add after the highest key when keys have gaps', () => {
+    writeFileSync(
+      shortcutsPath,
+      serializeBinaryVdf({
+        shortcuts: { '0': { AppName: 'First', Exe: '"/opt/first"' }, '2': { AppName: 'Third' } },
+      })
+    );
+
+    addSteamShortcutSync({ appName: 'Added', exe: '/opt/added' }, { steamPath });
+
+    const { shortcuts } = parseBinaryVdf(readFileSync(shortcutsPath)) as {
+      shortcuts: Record<string, { AppName: string }>;
+    };
+    expect(Object.keys(shortcuts)).toEqual(['0', '2', '3']);
+    expect(Object.values(shortcuts).map(entry => entry.AppName)).toEqual([
+      'First',
+      'Third',
+      'Added',
+    ]);
+  });
+
+  it('should refuse duplicate shortcuts', () => {
+    addSteamShortcutSync({ appName: 'My Game', exe: '/usr/bin/game' }, { steamPath });
+
+    expect(() =>
+      addSteamShortcutSync({ appName: 'My Game', exe: '/usr/bin/game' }, { steamPath })
+    ).toThrow('already exists');
+  });
+
+  it('should refuse to write while Steam is running', async () => {
+    mockIsSteamRunning.mockResolvedValue(true);
+    mockIsSteamRunningSync.mockReturnValue(true);
+
+    expect(() =>
+      addSteamShortcutSync({ appName: 'My Game', exe: '/usr/bin/game' }, { steamPath })
+    ).toThrow(SteamRunningError);
+    await expect(
+      addSteamShortcut({ appName: 'My Game', exe: '/usr/bin/game' }, { steamPath })
+    ).rejects.toThrow(SteamRunningError);
+    expect(existsSync(shortcutsPath)).toBe(false);
+  });
+});
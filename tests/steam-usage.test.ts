@@ -0,0 +1,113 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  getAppUsage,
+  getAppUsageSync,
+  getAllAppUsageSync,
+  getInstalledSteamAppsSync,
+  SteamUserNotFoundError,
+} from '../src/index';
+
+const LOCAL_CONFIG = `"UserLocalConfigStore"
+{
+	"Software"
+	{
+		"Valve"
+		{
+			"Steam"
+			{
+				"apps"
+				{
+					"440"
+					{
+						"LastPlayed"		"1718900000"
+						"Playtime2wks"		"95"
+						"Playtime"		"12345"
+						"LaunchOptions"		"-novid -high"
+						"cloud"
+						{
+							"last_sync_state"		"synchronized"
+						}
+					}
+					"570"
+					{
+						"LastPlayed"		"1700000000"
+					}
+				}
+			}
+		}
+	}
+}
+`;
+
+describe('steam-usage', () => {
+  let steamPath: string;
+
+  beforeEach(() => {
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-usage-'));
+    mkdirSync(join(steamPath, 'config'));
+    writeFileSync(
+      join(steamPath, 'config', 'loginusers.vdf'),
+      '"users"\n{\n\t"76561197960287930"\n\t{\n\t\t"AccountName"\t\t"gaben"\n\t\t"MostRecent"\t\t"1"\n\t}\n}\n'
+    );
+    mkdirSync(join(steamPath, 'userdata', '22202', 'config'), { recursive: true });
+    writeFileSync(join(steamPath, 'userdata', '22202', 'config', 'localconfig.vdf'), LOCAL_CONFIG);
+  });
+
+  afterEach(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  it('should read usage for the most recent user', async () => {
+    const usage = await getAppUsage('440', { steamPath });
+
+    expect(usage).toEqual({
+      appId: '440',
+      accountId: 22202,
+      playtimeMinutes: 12345,
+      playtimeTwoWeeksMinutes: 95,
+      lastPlayed: new Date(1718900000 * 1000),
+      launchOptions: '-novid -high',
+      cloudSyncState: 'synchronized',
+    });
+  });
+
+  it('should accept any form of user ID', () => {
+    expect(getAppUsageSync('570', { steamPath, userId: '[U:1:22202]' })?.playtimeMinutes).toBe(0);
+    expect(getAppUsageSync('570', { steamPath, userId: '76561197960287930' })?.lastPlayed).toEqual(
+      new Date(1700000000 * 1000)
+    );
+  });
+
+  it('should return undefined for apps the user has never run', () => {
+    expect(getAppUsageSync('730', { steamPath })).toBeUndefined();
+  });
+
+  it('should list usage for every app', () => {
+    expect(getAllAppUsageSync({ steamPath }).map(usage => usage.appId)).toEqual(['440', '570']);
+  });
+
+  it('should throw SteamUserNotFoundError for unknown users', async () => {
+    await expect(getAppUsage('440', { steamPath, userId: 1 })).rejects.toThrow(
+      SteamUserNotFoundError
+    );
+    expect(() => getAppUsageSync('440', { steamPath, userId: 'nobody' })).toThrow(
+      SteamUserNotFoundError
+    );
+  });
+
+  it('should merge usage into installed apps on request', () => {
+    mkdirSync(join(steamPath, 'steamapps', 'common', 'Team Fortress 2'), { recursive: true });
+    writeFileSync(
+      join(steamPath, 'steamapps', 'appmanifest_440.acf'),
+      '"AppState"\n{\n\t"appid"\t\t"440"\n\t"name"\t\t"Team Fortress 2"\n\t"installdir"\t\t"Team Fortress 2"\n}\n'
+    );
+
+    const [withUsage] = getInstalledSteamAppsSync(steamPath, { includeUsage: true });
+    const [withoutUsage] = getInstalledSteamAppsSync(steamPath);
+
+    expect(withUsage?.usage?.playtimeMinutes).toBe(12345);
+    expect(withoutUsage?.usage).toBeUndefined();
+  });
+});
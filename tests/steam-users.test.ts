@@ -0,0 +1,116 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  getSteamUsers,
+  getSteamUsersSync,
+  getMostRecentSteamUserSync,
+  steamId64ToAccountId,
+  accountIdToSteamId64,
+  steamId64ToSteamId3,
+  steamId3ToSteamId64,
+  toSteamAccountId,
+} from '../src/index';
+
+const LOGIN_USERS = `"users"
+{
+	"76561197960287930"
+	{
+		"AccountName"		"gaben"
+		"PersonaName"		"Gabe"
+		"RememberPassword"		"1"
+		"WantsOfflineMode"		"0"
+		"MostRecent"		"0"
+		"Timestamp"		"1718900000"
+	}
+	"76561198000000000"
+	{
+		"AccountName"		"second"
+		"PersonaName"		"Second"
+		"RememberPassword"		"0"
+		"mostrecent"		"1"
+		"Timestamp"		"1700000000"
+	}
+}
+`;
+
+describe('steam-users', () => {
+  let steamPath: string;
+
+  beforeEach(() => {
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-users-'));
+    mkdirSync(join(steamPath, 'config'));
+    mkdirSync(join(steamPath, 'userdata', '22202'), { recursive: true });
+    writeFileSync(join(steamPath, 'config', 'loginusers.vdf'), LOGIN_USERS);
+  });
+
+  afterEach(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  describe('getSteamUsers', () => {
+    it('should list accounts joined with their userdata directories', async () => {
+      const users = await getSteamUsers(steamPath);
+
+      expect(users).toHaveLength(2);
+      expect(users[0]).toEqual({
+        steamId64: '76561197960287930',
+        accountId: 22202,
+        steamId3: '[U:1:22202]',
+        accountName: 'gaben',
+        personaName: 'Gabe',
+        mostRecent: false,
+        rememberPassword: true,
+        wantsOfflineMode: false,
+        timestamp: new Date(1718900000 * 1000),
+        userDataPath: join(steamPath, 'userdata', '22202'),
+      });
+      expect(users[1]?.mostRecent).toBe(true);
+      expect(users[1]?.userDataPath).toBeUndefined();
+    });
+
+    it('should return an empty list without loginusers.vdf', () => {
+      rmSync(join(steamPath, 'config', 'loginusers.vdf'));
+
+      expect(getSteamUsersSync(steamPath)).toEqual([]);
+    });
+  });
+
+  describe('getMostRecentSteamUser', () => {
+    it('should prefer the MostRecent flag', () => {
+      expect(getMostRecentSteamUserSync(steamPath)?.accountName).toBe('second');
+    });
+
+    it('should fall back to the latest timestamp', () => {
+      writeFileSync(
+        join(steamPath, 'config', 'loginusers.vdf'),
+        LOGIN_USERS.replace('"mostrecent"\t\t"1"', '"mostrecent"\t\t"0"')
+      );
+
+      expect(getMostRecentSteamUserSync(steamPath)?.accountName).toBe('gaben');
+    });
+  });
+
+  describe('SteamID conversions', () => {
+    it('should convert between SteamID64, SteamID3 and account IDs', () => {
+      expect(steamId64ToAccountId('76561197960287930')).toBe(22202);
+      expect(accountIdToSteamId64(22202)).toBe('76561197960287930');
+      expect(steamId64ToSteamId3('76561197960287930')).toBe('[U:1:22202]');
+      expect(steamId3ToSteamId64('[U:1:22202]')).toBe('76561197960287930');
+    });
+
+    it('should resolve any user identifier to an account ID', () => {
+      expect(toSteamAccountId(22202)).toBe(22202);
+      expect(toSteamAccountId('22202')).toBe(22202);
+      expect(toSteamAccountId('76561197960287930')).toBe(22202);
+      expect(toSteamAccountId('[U:1:22202]')).toBe(22202);
+    });
+
+    it('should reject malformed identifiers', () => {
+      expect(() => steamId64ToAccountId('abc')).toThrow(TypeError);
+      expect(() => accountIdToSteamId64(-1)).toThrow(TypeError);
+      expect(() => steamId3ToSteamId64('[G:1:5]')).toThrow(TypeError);
+      expect(() => toSteamAccountId('gaben')).toThrow(TypeError);
+    });
+  });
+});
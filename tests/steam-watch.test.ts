@@ -0,0 +1,111 @@
+import { mkdirSync, mkdtempSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { watchSteam, SteamWatcher, SteamWatchEvent } from '../src/index';
+
+function manifest(appId: string, buildId: number, stateFlags = 4): string {
+  return `"AppState"\n{\n\t"appid"\t\t"${appId}"\n\t"name"\t\t"App ${appId}"\n\t"StateFlags"\t\t"${stateFlags}"\n\t"installdir"\t\t"App ${appId}"\n\t"buildid"\t\t"${buildId}"\n}\n`;
+}
+
+function libraryFolders(...paths: string[]): string {
+  const entries = paths.map((path, i) => `\t"${i}"\n\t{\n\t\t"path"\t\t"${path}"\n\t}\n`);
+  return `"libraryfolders"\n{\n${entries.join('')}}\n`;
+}
+
+describe('steam-watch', () => {
+  let steamPath: string;
+  let mainLibrary: string;
+  let watcher: SteamWatcher | undefined;
+
+  beforeEach(() => {
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-watch-'));
+    mainLibrary = join(steamPath, 'steamapps');
+    mkdirSync(mainLibrary, { recursive: true });
+    writeFileSync(join(mainLibrary, 'libraryfolders.vdf'), libraryFolders(steamPath));
+    writeFileSync(join(mainLibrary, 'appmanifest_440.acf'), manifest('440', 100));
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = undefined;
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  /**
+   * Collect change events until the given number have been emitted
+   */
+  function collect(target: SteamWatcher, count: number): Promise<SteamWatchEvent[]> {
+    return new Promise(resolve => {
+      const events: SteamWatchEvent[] = [];
+      const onChange = (event: SteamWatchEvent) => {
+        events.push(event);
+        if (events.length === count) {
+          target.off('change', onChange);
+          resolve(events);
+        }
+      };
+      target.on('change', onChange);
+    });
+  }
+
+  it('should emit events for installed, updated and removed apps', async () => {
+    watcher = watchSteam({ steamPath, debounceMs: 20 });
+    expect(watcher.libraryFolders).toEqual([mainLibrary]);
+
+    let events = collect(watcher, 1);
+    writeFileSync(join(mainLibrary, 'appmanifest_570.acf'), manifest('570', 1, 1026));
+    expect(await events).toEqual([
+      expect.objectContaining({ type: 'appInstalled', appId: '570', libraryFolder: mainLibrary }),
+    ]);
+
+    events = collect(watcher, 2);
+    writeFileSync(join(mainLibrary, 'appmanifest_570.acf'), manifest('570', 2, 4));
+    const [stateChanged, updated] = await events;
+    expect(stateChanged).toEqual(
+      expect.objectContaining({ type: 'appStateChanged', appId: '570' })
+    );
+    expect(updated).toEqual(expect.objectContaining({ type: 'appUpdated', appId: '570' }));
+    expect(updated?.type === 'appUpdated' && updated.previous?.buildId).toBe(1);
+
+    events = collect(watcher, 1);
+    unlinkSync(join(mainLibrary, 'appmanifest_440.acf'));
+    expect(await events).toEqual([
+      expect.objectContaining({ type: 'appUninstalled', appId: '440' }),
+    ]);
+  });
+
+  it('should emit library events when libraryfolders.vdf changes', async () => {
+    const secondPath = join(steamPath, 'second');
+    const secondLibrary = join(secondPath, 'steamapps');
+    mkdirSync(secondLibrary, { recursive: true });
+    writeFileSync(join(secondLibrary, 'appmanifest_730.acf'), manifest('730', 5));
+    watcher = watchSteam({ steamPath, debounceMs: 20 });
+
+    let events = collect(watcher, 2);
+    writeFileSync(join(mainLibrary, 'libraryfolders.vdf'), libraryFolders(steamPath, secondPath));
+    expect(await events).toEqual([
+      { type: 'libraryAdded', libraryFolder: secondLibrary },
+      expect.objectContaining({ type: 'appInstalled', appId: '730', libraryFolder: secondLibrary }),
+    ]);
+
+    events = collect(watcher, 2);
+    writeFileSync(join(mainLibrary, 'libraryfolders.vdf'), libraryFolders(steamPath));
+    expect(await events).toEqual([
+      expect.objectContaining({ type: 'appUninstalled', appId: '730' }),
+      { type: 'libraryRemoved', libraryFolder: secondLibrary },
+    ]);
+  });
+
+  it('should deliver events to async iterators until closed', async () => {
+    watcher = watchSteam({ steamPath, debounceMs: 20 });
+    const iterator = watcher[Symbol.asyncIterator]();
+
+    writeFileSync(join(mainLibrary, 'appmanifest_440.acf'), manifest('440', 101));
+    const first = await iterator.next();
+    expect(first.value).toEqual(expect.objectContaining({ type: 'appUpdated', appId: '440' }));
+
+    const pending = iterator.next();
+    watcher.close();
+    expect(await pending).toEqual({ done: true, value: undefined });
+  });
+});
@@ -0,0 +1,112 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getWorkshopItems, getWorkshopItemsSync, SteamAppNotFoundError } from '../src/index';
+
+const APP_WORKSHOP = `"AppWorkshop"
+{
+	"appid"		"4000"
+	"SizeOnDisk"		"3000"
+	"NeedsUpdate"		"1"
+	"WorkshopItemsInstalled"
+	{
+		"100"
+		{
+			"size"		"1000"
+			"timeupdated"		"1700000000"
+			"manifest"		"111"
+		}
+		"200"
+		{
+			"size"		"2000"
+			"timeupdated"		"1700000000"
+			"manifest"		"222"
+		}
+	}
+	"WorkshopItemDetails"
+	{
+		"100"
+		{
+			"manifest"		"111"
+			"timeupdated"		"1700000000"
+			"subscribedby"		"22202"
+			"latest_timeupdated"		"1700000000"
+			"latest_manifest"		"111"
+		}
+		"200"
+		{
+			"manifest"		"222"
+			"timeupdated"		"1700000000"
+			"subscribedby"		"22202"
+			"latest_timeupdated"		"1710000000"
+			"latest_manifest"		"333"
+		}
+		"300"
+		{
+			"subscribedby"		"22202"
+		}
+	}
+}
+`;
+
+describe('steam-workshop', () => {
+  let steamPath: string;
+  let libraryPath: string;
+
+  beforeEach(() => {
+    steamPath = mkdtempSync(join(tmpdir(), 'steam-workshop-'));
+    libraryPath = join(steamPath, 'library');
+    mkdirSync(join(steamPath, 'steamapps'), { recursive: true });
+    writeFileSync(
+      join(steamPath, 'steamapps', 'libraryfolders.vdf'),
+      `"libraryfolders"\n{\n\t"1"\n\t{\n\t\t"path"\t\t"${libraryPath}"\n\t}\n}\n`
+    );
+    const steamApps = join(libraryPath, 'steamapps');
+    mkdirSync(join(steamApps, 'workshop', 'content', '4000', '100'), { recursive: true });
+    mkdirSync(join(steamApps, 'workshop', 'content', '4000', '200'), { recursive: true });
+    writeFileSync(
+      join(steamApps, 'appmanifest_4000.acf'),
+      '"AppState"\n{\n\t"appid"\t\t"4000"\n}\n'
+    );
+    writeFileSync(join(steamApps, 'workshop', 'appworkshop_4000.acf'), APP_WORKSHOP);
+  });
+
+  afterEach(() => {
+    rmSync(steamPath, { recursive: true, force: true });
+  });
+
+  it('should list items from the library holding the game', async () => {
+    const items = await getWorkshopItems('4000', steamPath);
+    const contentDir = join(libraryPath, 'steamapps', 'workshop', 'content', '4000');
+
+    expect(items).toEqual([
+      {
+        publishedFileId: '100',
+        appId: '4000',
+        installPath: join(contentDir, '100'),
+        isInstalled: true,
+        sizeOnDisk: 1000,
+        timeUpdated: new Date(1700000000 * 1000),
+        manifestId: '111',
+        subscribedBy: '22202',
+        needsUpdate: false,
+      },
+      expect.objectContaining({ publishedFileId: '200', isInstalled: true, needsUpdate: true }),
+      expect.objectContaining({ publishedFileId: '300', isInstalled: false, needsUpdate: true }),
+    ]);
+  });
+
+  it('should include downloaded content missing from the manifest', () => {
+    mkdirSync(join(libraryPath, 'steamapps', 'workshop', 'content', '4000', '400'));
+
+    const item = getWorkshopItemsSync('4000', steamPath).find(i => i.publishedFileId === '400');
+
+    expect(item).toEqual(
+      expect.objectContaining({ isInstalled: true, needsUpdate: false, manifestId: undefined })
+    );
+  });
+
+  it('should throw SteamAppNotFoundError for apps in no library', () => {
+    expect(() => getWorkshopItemsSync('9999', steamPath)).toThrow(SteamAppNotFoundError);
+  });
+});
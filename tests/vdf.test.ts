@@ -0,0 +1,317 @@
+import {
+  parseVdf,
+  stringifyVdf,
+  editVdf,
+  findVdfKey,
+  getVdfValue,
+  getVdfString,
+  getVdfNumber,
+  getVdfObject,
+  VdfParseError,
+  VdfObject,
+} from '../src/index';
+
+const APP_MANIFEST = `"AppState"
+{
+	"appid"		"440"
+	"Universe"		"1"
+	"LauncherPath"		"C:\\\\Program Files (x86)\\\\Steam\\\\steam.exe"
+	"name"		"Team Fortress 2"
+	"StateFlags"		"4"
+	"installdir"		"Team Fortress 2"
+	"LastUpdated"		"1718900000"
+	"SizeOnDisk"		"26612312345"
+	"buildid"		"14685915"
+	"LastOwner"		"76561197960287930"
+	"BytesToDownload"		"0"
+	"BytesDownloaded"		"0"
+	"AutoUpdateBehavior"		"0"
+	"AllowOtherDownloadsWhileRunning"		"0"
+	"ScheduledAutoUpdate"		"0"
+	"InstalledDepots"
+	{
+		"441"
+		{
+			"manifest"		"7707612755932906946"
+			"size"		"4245789"
+			"dlcappid"		"629330"
+		}
+		"232251"
+		{
+			"manifest"		"1923480328390342113"
+			"size"		"16125829353"
+		}
+	}
+	"UserConfig"
+	{
+		"language"		"english"
+		"BetaKey"		"prerelease"
+	}
+	"MountedConfig"
+	{
+		"language"		"english"
+	}
+}
+`;
+
+const LIBRARY_FOLDERS = `"libraryfolders"
+{
+	"0"
+	{
+		"path"		"C:\\\\Program Files (x86)\\\\Steam"
+		"label"		""
+		"contentid"		"4213475431358471237"
+		"totalsize"		"0"
+		"update_clean_bytes_tally"		"79415590"
+		"time_last_update_verified"		"1718900000"
+		"apps"
+		{
+			"440"		"26612312345"
+			"228980"		"420469095"
+		}
+	}
+	"1"
+	{
+		"path"		"D:\\\\SteamLibrary"
+		"label"		"Games \\"SSD\\""
+		"contentid"		"6287198357390876654"
+		"totalsize"		"1000186310656"
+		"apps"
+		{
+			"570"		"39811234567"
+		}
+	}
+}
+`;
+
+const LOGIN_USERS = `"users"
+{
+	"76561197960287930"
+	{
+		"AccountName"		"gaben"
+		"PersonaName"		"Gabe"
+		"RememberPassword"		"1"
+		"WantsOfflineMode"		"0"
+		"SkipOfflineModeWarning"		"0"
+		"AllowAutoLogin"		"1"
+		"MostRecent"		"1"
+		"Timestamp"		"1718900000"
+	}
+}
+`;
+
+describe('vdf', () => {
+  describe('parseVdf', () => {
+    it('should parse an app manifest into nested sections', () => {
+      const manifest = parseVdf(APP_MANIFEST);
+
+      expect(getVdfString(manifest, 'AppState', 'name')).toBe('Team Fortress 2');
+      expect(getVdfString(manifest, 'AppState', 'LauncherPath')).toBe(
+        'C:\\Program Files (x86)\\Steam\\steam.exe'
+      );
+      expect(getVdfString(manifest, 'AppState', 'InstalledDepots', '441', 'dlcappid')).toBe(
+        '629330'
+      );
+      expect(getVdfObject(manifest, 'AppState', 'UserConfig')).toEqual({
+        language: 'english',
+        BetaKey: 'prerelease',
+      });
+    });
+
+    it('should not confuse nested keys with top-level keys', () => {
+      const manifest = parseVdf(
+        '"AppState"\n{\n\t"UserConfig"\n\t{\n\t\t"name"\t\t"nested"\n\t}\n\t"name"\t\t"outer"\n}'
+      );
+
+      expect(getVdfString(manifest, 'AppState', 'name')).toBe('outer');
+    });
+
+    it('should unescape quotes and backslashes', () => {
+      const folders = parseVdf(LIBRARY_FOLDERS);
+
+      expect(getVdfString(folders, 'libraryfolders', '1', 'label')).toBe('Games "SSD"');
+      expect(getVdfString(folders, 'libraryfolders', '1', 'path')).toBe('D:\\SteamLibrary');
+    });
+
+    it('should keep unknown escape sequences and honour escapes: false', () => {
+      expect(parseVdf('"path" "C:\\Games"')).toEqual({ path: 'C:\\Games' });
+      expect(parseVdf('"path" "C:\\\\new"', { escapes: false })).toEqual({ path: 'C:\\\\new' });
+    });
+
+    it('should skip comments, conditionals and unquoted tokens', () => {
+      const result = parseVdf(`// header comment
+Resource
+{
+	"width"	"640" [$WIN32]
+	height 480 // trailing comment
+	"empty" [!$X360]
+	{
+	}
+}`);
+
+      expect(result).toEqual({ Resource: { width: '640', height: '480', empty: {} } });
+    });
+
+    it('should merge duplicate sections and keep the last string by default', () => {
+      const result = parseVdf('"a" { "x" "1" } "A" { "y" "2" } "k" "first" "K" "second"');
+
+      expect(result).toEqual({ a: { x: '1', y: '2' }, k: 'second' });
+    });
+
+    it('should support first and last duplicate key strategies', () => {
+      const text = '"a" { "x" "1" } "a" { "y" "2" }';
+
+      expect(parseVdf(text, { duplicateKeys: 'first' })).toEqual({ a: { x: '1' } });
+      expect(parseVdf(text, { duplicateKeys: 'last' })).toEqual({ a: { y: '2' } });
+    });
+
+    it('should resolve #include and #base directives', () => {
+      const files: Record<string, string> = {
+        'included.res': '"extra" "yes"',
+        'base.res': '"width" "100" "color" "red"',
+      };
+      const result = parseVdf('#base "base.res"\n#include "included.res"\n"width" "640"', {
+        resolveInclude: file => files[file],
+      });
+
+      expect(result).toEqual({ extra: 'yes', width: '640', color: 'red' });
+    });
+
+    it('should skip directives without a resolver', () => {
+      expect(parseVdf('#include "missing.res"\n"a" "b"')).toEqual({ a: 'b' });
+    });
+
+    it('should handle a byte order mark and empty input', () => {
+      expect(parseVdf('\uFEFF"a" "b"')).toEqual({ a: 'b' });
+      expect(parseVdf('')).toEqual({});
+    });
+
+    it('should report the position of syntax errors', () => {
+      expect(() => parseVdf('"a"\n{\n\t"b" "c"\n')).toThrow(VdfParseError);
+      expect(() => parseVdf('"a" "b"\n}')).toThrow(/line 2, column 1/);
+      expect(() => parseVdf('"a" "unterminated')).toThrow('Unterminated string');
+    });
+  });
+
+  describe('stringifyVdf', () => {
+    it('should write the layout Steam uses', () => {
+      expect(stringifyVdf({ users: { '1': { Name: 'a "b" c\\d' } } })).toBe(
+        '"users"\n{\n\t"1"\n\t{\n\t\t"Name"\t\t"a \\"b\\" c\\\\d"\n\t}\n}\n'
+      );
+    });
+
+    it.each([
+      ['app manifest', APP_MANIFEST],
+      ['library folders', LIBRARY_FOLDERS],
+      ['login users', LOGIN_USERS],
+    ])('should round-trip a real-world %s file', (_name, text) => {
+      const parsed = parseVdf(text);
+
+      expect(stringifyVdf(parsed)).toBe(text);
+      expect(parseVdf(stringifyVdf(parsed))).toEqual(parsed);
+    });
+
+    it('should round-trip control characters', () => {
+      const data = { text: { value: 'line 1\nline 2\ttabbed\r' } };
+
+      expect(parseVdf(stringifyVdf(data))).toEqual(data);
+    });
+  });
+
+  describe('editVdf', () => {
+    const text = `// Written by Steam
+"libraryfolders"
+{
+	"contentstatsid"   "123"   // stats
+	"0" { "path" "/a" }
+	"1"
+	{
+		"path"		"/b"
+	}
+	"2"
+	{
+		"path"		"/c"
+		"apps"
+		{
+			"440"		"100"
+		}
+	}
+}
+`;
+
+    it('should leave an unchanged document byte for byte', () => {
+      expect(editVdf(text, () => undefined)).toBe(text);
+      expect(editVdf(`\ufeff${LIBRARY_FOLDERS}`, () => undefined)).toBe(`\ufeff${LIBRARY_FOLDERS}`);
+    });
+
+    it('should only edit the entries that changed', () => {
+      const edited = editVdf(text, root => {
+        const folders = getVdfObject(root, 'libraryfolders') as VdfObject;
+        const last = folders['2'] as VdfObject;
+        delete folders['1'];
+        delete folders['2'];
+        folders['1'] = last;
+        (last['apps'] as VdfObject)['570'] = '200';
+        folders['contentstatsid'] = '456';
+      });
+
+      expect(edited).toBe(`// Written by Steam
+"libraryfolders"
+{
+	"contentstatsid"   "456"   // stats
+	"0" { "path" "/a" }
+	"1"
+	{
+		"path"		"/c"
+		"apps"
+		{
+			"440"		"100"
+			"570"		"200"
+		}
+	}
+}
+`);
+    });
+
+    it('should add sections after the existing entries', () => {
+      const edited = editVdf(text, root => {
+        const folders = getVdfObject(root, 'libraryfolders') as VdfObject;
+        (folders['0'] as VdfObject)['apps'] = { '10': '1' };
+        folders['3'] = { path: '/d' };
+      });
+
+      expect(edited).toContain(
+        '"0" { "path" "/a" \n\t\t"apps"\n\t\t{\n\t\t\t"10"\t\t"1"\n\t\t}\n\t}'
+      );
+      expect(edited.endsWith('\t"3"\n\t{\n\t\t"path"\t\t"/d"\n\t}\n}\n')).toBe(true);
+      expect(parseVdf(edited)).toEqual(
+        expect.objectContaining({
+          libraryfolders: expect.objectContaining({ '3': { path: '/d' } }),
+        })
+      );
+    });
+  });
+
+  describe('lookup helpers', () => {
+    const manifest = parseVdf(APP_MANIFEST);
+
+    it('should look up keys case-insensitively', () => {
+      const appState = getVdfObject(manifest, 'appstate');
+
+      expect(appState).toBeDefined();
+      expect(findVdfKey(appState!, 'INSTALLDIR')).toBe('installdir');
+      expect(getVdfString(manifest, 'APPSTATE', 'userconfig', 'betakey')).toBe('prerelease');
+    });
+
+    it('should return undefined for missing or mistyped values', () => {
+      expect(getVdfValue(manifest, 'AppState', 'missing')).toBeUndefined();
+      expect(getVdfString(manifest, 'AppState', 'UserConfig')).toBeUndefined();
+      expect(getVdfObject(manifest, 'AppState', 'name')).toBeUndefined();
+      expect(getVdfNumber(manifest, 'AppState', 'name')).toBeUndefined();
+    });
+
+    it('should parse numeric values', () => {
+      expect(getVdfNumber(manifest, 'AppState', 'SizeOnDisk')).toBe(26612312345);
+    });
+  });
+});